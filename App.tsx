@@ -6,6 +6,11 @@ import StatsWidget from './components/game/StatsWidget';
 import MainMenu from './components/screens/MainMenu';
 import GameOverScreen from './components/screens/GameOverScreen';
 import TutorialOverlay from './components/ui/TutorialOverlay';
+import ReplayControls from './components/game/ReplayControls';
+import MapEditor from './components/screens/MapEditor';
+import CampaignScreen from './components/screens/CampaignScreen';
+import MissionObjective from './components/ui/MissionObjective';
+import { downloadTextFile } from './services/files';
 
 const App: React.FC = () => {
   const {
@@ -15,7 +20,14 @@ const App: React.FC = () => {
     setPlayerColor,
     difficulty,
     setDifficulty,
-    nextCurrentTime,
+    gameMode,
+    setGameMode,
+    customGame,
+    setCustomGame,
+    seed,
+    gameSpeed,
+    setGameSpeed,
+    currentTimeLeft,
     startGame,
     resetGame,
     handleAttack,
@@ -24,10 +36,46 @@ const App: React.FC = () => {
     togglePause,
     skipTutorial,
     tutorialStep,
+    tutorialStepCount,
     nextTutorialStep,
-    hasCompletedTutorial
+    selectTutorialNode,
+    hasCompletedTutorial,
+    completedChapters,
+    tutorialName,
+    missionObjective,
+    campaignStars,
+    lastMissionStars,
+    openCampaign,
+    closeCampaign,
+    hasSavedGame,
+    continueGame,
+    lastReplay,
+    replayStatus,
+    startReplay,
+    loadReplay,
+    exportReplay,
+    importMap,
+    exportMap,
+    editorMap,
+    setEditorMap,
+    openEditor,
+    closeEditor,
+    playtestMap,
+    toggleReplayPlaying,
+    seekReplay,
+    setReplaySpeed
   } = useGameEngine();
 
+  const handleExportReplay = () => {
+    const text = exportReplay();
+    if (text) downloadTextFile(`microbio-replay-${seed.toString(16).toUpperCase()}.json`, text);
+  };
+
+  const handleExportMap = () => {
+    const text = exportMap();
+    if (text) downloadTextFile(`microbio-map-${seed.toString(16).toUpperCase()}.json`, text);
+  };
+
   return (
     <div className="w-full h-screen flex flex-col font-sans overflow-hidden relative selection:bg-blue-500/30">
       
@@ -38,8 +86,38 @@ const App: React.FC = () => {
           setPlayerColor={setPlayerColor}
           difficulty={difficulty}
           setDifficulty={setDifficulty}
+          gameMode={gameMode}
+          setGameMode={setGameMode}
+          customGame={customGame}
+          setCustomGame={setCustomGame}
           startGame={startGame}
           hasCompletedTutorial={hasCompletedTutorial}
+          completedChapters={completedChapters}
+          hasSavedGame={hasSavedGame}
+          continueGame={continueGame}
+          loadReplay={loadReplay}
+          importMap={importMap}
+          openEditor={openEditor}
+          openCampaign={openCampaign}
+        />
+      )}
+
+      {/* Campaign */}
+      {gameState === 'CAMPAIGN' && (
+        <CampaignScreen
+          stars={campaignStars}
+          startMission={startGame}
+          onExit={closeCampaign}
+        />
+      )}
+
+      {/* Map Editor */}
+      {gameState === 'EDITOR' && (
+        <MapEditor
+          map={editorMap}
+          setMap={setEditorMap}
+          onPlaytest={playtestMap}
+          onExit={closeEditor}
         />
       )}
 
@@ -47,11 +125,18 @@ const App: React.FC = () => {
       {gameState === 'TUTORIAL' && tutorialStep && (
         <TutorialOverlay 
           step={tutorialStep}
+          stepCount={tutorialStepCount}
+          chapterName={tutorialName}
           nextStep={nextTutorialStep}
           skipTutorial={skipTutorial}
         />
       )}
 
+      {/* Campaign Objective */}
+      {missionObjective && tutorialName && (
+        <MissionObjective missionName={tutorialName} step={missionObjective} />
+      )}
+
       {/* 3. Game Over Screen */}
       {(gameState === 'VICTORY' || gameState === 'DEFEAT') && (
         <GameOverScreen 
@@ -59,31 +144,53 @@ const App: React.FC = () => {
           world={world}
           playerColor={playerColor}
           difficulty={difficulty}
+          seed={seed}
           resetGame={resetGame}
+          onWatchReplay={lastReplay ? () => startReplay(lastReplay) : undefined}
+          onExportReplay={lastReplay ? handleExportReplay : undefined}
+          missionStars={gameState === 'VICTORY' ? lastMissionStars : null}
         />
       )}
 
       {/* 4. Main Game Area */}
       <div className="flex-1 relative z-0">
-         {(world.nodes.length > 0) && (
+         {(world.nodes.length > 0 && gameState !== 'EDITOR') && (
            <>
              <GameMap 
                world={world} 
-               playerColor={playerColor} 
+               playerColor={replayStatus ? replayStatus.playerColor : playerColor} 
                onAttack={handleAttack}
-               nextCurrentTime={nextCurrentTime}
+               currentTimeLeft={currentTimeLeft}
                isAutoPilot={isPlayerAutoPilot}
                onToggleAutoPilot={toggleAutoPilot}
+               gameSpeed={gameSpeed}
+               onSetGameSpeed={setGameSpeed}
                isPaused={gameState === 'PAUSED'}
                onTogglePause={togglePause}
-               tutorialTargetId={gameState === 'TUTORIAL' ? tutorialStep?.targetNodeId : undefined}
-               onTutorialClick={nextTutorialStep}
+               tutorialTargetId={gameState === 'TUTORIAL' ? tutorialStep?.targetNodeId : missionObjective?.targetNodeId}
+               onSelectNode={gameState === 'TUTORIAL' ? selectTutorialNode : undefined}
+               isSpectating={gameState === 'REPLAY'}
+               onExportMap={gameState === 'PAUSED' ? handleExportMap : undefined}
              />
              
              {/* Stats Widget */}
-             {(gameState === 'PLAYING' || gameState === 'TUTORIAL') && (
+             {(gameState === 'PLAYING' || gameState === 'TUTORIAL' || gameState === 'REPLAY') && (
                 <StatsWidget world={world} />
              )}
+
+             {/* Replay Viewer Controls */}
+             {gameState === 'REPLAY' && replayStatus && (
+                <ReplayControls
+                  tick={replayStatus.tick}
+                  endTick={replayStatus.endTick}
+                  isPlaying={replayStatus.isPlaying}
+                  speed={replayStatus.speed}
+                  onTogglePlaying={toggleReplayPlaying}
+                  onSeek={seekReplay}
+                  onSetSpeed={setReplaySpeed}
+                  onExit={resetGame}
+                />
+             )}
            </>
          )}
       </div>
@@ -1,6 +1,7 @@
 
 import React, { memo } from 'react';
 import { Edge, Node } from '../../types';
+import { getGraphIndex, findNode } from '../../services/graphIndex';
 
 interface EdgesLayerProps {
   edges: Edge[];
@@ -9,11 +10,13 @@ interface EdgesLayerProps {
 }
 
 const EdgesLayer = memo(({ edges, nodes, selectedNodeId }: EdgesLayerProps) => {
+  const graph = getGraphIndex(nodes, edges);
+
   return (
     <g className="pointer-events-none">
       {edges.map((edge, i) => {
-        const s = nodes.find(n => n.id === edge.source);
-        const t = nodes.find(n => n.id === edge.target);
+        const s = findNode(graph, nodes, edge.source);
+        const t = findNode(graph, nodes, edge.target);
         
         // Safety check
         if (!s || !t) return null;
@@ -1,13 +1,16 @@
 
 import React, { useEffect, useState } from 'react';
-import { Activity, Bot, Pause, Play } from 'lucide-react';
+import { Activity, Bot, Pause, Play, Gauge } from 'lucide-react';
+import { GAME_SPEEDS } from '../../constants';
 
 interface GameHUDProps {
-  timeLeft: number;
+  timeLeft: number | null; // null hides the ocean-current countdown
   isPaused: boolean;
   onTogglePause: () => void;
   isAutoPilot: boolean;
   onToggleAutoPilot: () => void;
+  gameSpeed: number;
+  onSetGameSpeed: (speed: number) => void;
   hideControls?: boolean;
 }
 
@@ -17,19 +20,23 @@ const GameHUD: React.FC<GameHUDProps> = ({
   onTogglePause,
   isAutoPilot,
   onToggleAutoPilot,
+  gameSpeed,
+  onSetGameSpeed,
   hideControls = false
 }) => {
   return (
     <>
       {/* HUD - Timer (Positioned relative to the viewport/root div) */}
-      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none opacity-80">
-         <div className="flex items-center gap-2 bg-slate-900/50 backdrop-blur-sm px-4 py-1.5 rounded-full border border-slate-700/30">
-           <Activity className={`w-3 h-3 ${timeLeft < 10 ? 'text-red-400 animate-pulse' : 'text-slate-400'}`} />
-           <span className="font-mono-lab text-xs text-slate-300 font-medium tracking-wide">
-             周期: {timeLeft.toString().padStart(2, '0')}s
-           </span>
-         </div>
-      </div>
+      {timeLeft !== null && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none opacity-80">
+           <div className="flex items-center gap-2 bg-slate-900/50 backdrop-blur-sm px-4 py-1.5 rounded-full border border-slate-700/30">
+             <Activity className={`w-3 h-3 ${timeLeft < 10 ? 'text-red-400 animate-pulse' : 'text-slate-400'}`} />
+             <span className="font-mono-lab text-xs text-slate-300 font-medium tracking-wide">
+               周期: {timeLeft.toString().padStart(2, '0')}s
+             </span>
+           </div>
+        </div>
+      )}
 
       {/* HUD - Control Panel (Positioned relative to the viewport/root div) */}
       {!hideControls && (
@@ -46,6 +53,28 @@ const GameHUD: React.FC<GameHUDProps> = ({
               {isPaused ? <Play size={18} fill="currentColor" /> : <Pause size={18} fill="currentColor" />}
            </button>
 
+           {/* Speed Selector ('-' / '+' hotkeys) */}
+           <div
+             className="flex items-center gap-1 backdrop-blur-sm pl-3 pr-1 rounded-full border border-slate-700/30 bg-slate-900/30 h-10 pointer-events-auto"
+             title="速度 (- / +)"
+           >
+             <Gauge className="w-4 h-4 text-slate-500 mr-1" />
+             {GAME_SPEEDS.map(speed => (
+               <button
+                 key={speed}
+                 onClick={() => onSetGameSpeed(speed)}
+                 className={`
+                   px-2 h-7 rounded-full font-mono-lab text-[10px] font-bold transition-all duration-300
+                   ${gameSpeed === speed
+                     ? 'bg-blue-900/60 text-blue-300 shadow-[0_0_10px_rgba(59,130,246,0.2)]'
+                     : 'text-slate-500 hover:text-slate-300'}
+                 `}
+               >
+                 {speed}x
+               </button>
+             ))}
+           </div>
+
            <button 
              onClick={onToggleAutoPilot}
              className={`
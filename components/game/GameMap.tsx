@@ -1,10 +1,12 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { GameWorld, Node } from '../../types';
+import { GameWorld, Node, PlayerColor } from '../../types';
 import { COLOR_MAP, GAME_HEIGHT, GAME_WIDTH, NODE_RADIUS_BASE } from '../../constants';
+import { getGraphIndex, areConnected, findNode } from '../../services/graphIndex';
 
 // Sub-components
 import EdgesLayer from './EdgesLayer';
+import SaturationRing from './SaturationRing';
 import GameHUD from './GameHUD';
 import PauseOverlay from './PauseOverlay';
 
@@ -72,38 +74,58 @@ const getFortressPath = (cx: number, cy: number, r: number) => {
 
 // --- Main Component ---
 
+// Replaces the match controls when the map is being edited: the editor decides
+// what a press or a click on empty water means, and nodes can be dragged around
+export interface MapEditorBindings {
+  highlightedIds: string[];
+  startSlots: string[];
+  onCanvasClick: (x: number, y: number) => void;
+  onNodePress: (id: string) => void;
+  onNodeMove: (id: string, x: number, y: number) => void;
+}
+
 interface GameMapProps {
   world: GameWorld;
   playerColor: string;
   onAttack: (fromId: string, toId: string, isContinuous: boolean) => void;
-  nextCurrentTime: number; 
+  currentTimeLeft: number; // Seconds until the next ocean current, in simulation time
   isAutoPilot: boolean;
   onToggleAutoPilot: () => void;
+  gameSpeed: number;
+  onSetGameSpeed: (speed: number) => void;
   isPaused: boolean; 
   onTogglePause: () => void;
   tutorialTargetId?: string; 
-  onTutorialClick?: () => void; 
+  onSelectNode?: (nodeId: string) => void; // Any press on one of the player's nodes, for scripted tutorials
+  isSpectating?: boolean; // Replay viewing: no selection, no orders, no HUD controls
+  onExportMap?: () => void; // Offered on the pause screen
+  editor?: MapEditorBindings;
 }
 
 const GameMap: React.FC<GameMapProps> = ({ 
   world, 
   playerColor, 
   onAttack, 
-  nextCurrentTime, 
+  currentTimeLeft, 
   isAutoPilot, 
   onToggleAutoPilot, 
+  gameSpeed,
+  onSetGameSpeed,
   isPaused, 
   onTogglePause,
   tutorialTargetId,
-  onTutorialClick
+  onSelectNode,
+  isSpectating = false,
+  onExportMap,
+  editor
 }) => {
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [hoverNodeId, setHoverNodeId] = useState<string | null>(null);
-  const [timeLeft, setTimeLeft] = useState(60);
   
   // Drag State (Path based now)
   const [dragPath, setDragPath] = useState<string[]>([]);
   const [dragCurrentPos, setDragCurrentPos] = useState<{x: number, y: number} | null>(null);
+  const [movingNodeId, setMovingNodeId] = useState<string | null>(null);
 
   const svgRef = useRef<SVGSVGElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -154,7 +176,7 @@ const GameMap: React.FC<GameMapProps> = ({
     if (world.latestEvents && world.latestEvents.length > 0) {
        world.latestEvents.forEach(evt => {
          if (evt.type === 'IMPACT') {
-            const node = world.nodes.find(n => n.id === evt.targetId);
+            const node = findNode(getGraphIndex(world.nodes, world.edges), world.nodes, evt.targetId);
             if (!node) return;
 
             // 1. Trigger Jelly Physics
@@ -197,17 +219,6 @@ const GameMap: React.FC<GameMapProps> = ({
     }
   }, [world]);
 
-  // --- Timer Logic ---
-  useEffect(() => {
-    const interval = setInterval(() => {
-      if (isPaused) return;
-      const now = Date.now();
-      const diff = Math.max(0, Math.ceil((nextCurrentTime - now) / 1000));
-      setTimeLeft(diff);
-    }, 1000);
-    return () => clearInterval(interval);
-  }, [nextCurrentTime, isPaused]);
-
   // --- Render Loop (Canvas + DOM Physics) ---
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -341,12 +352,23 @@ const GameMap: React.FC<GameMapProps> = ({
   // --- Interaction Handlers ---
 
   const handleSvgMouseMove = (e: React.MouseEvent) => {
+    if (editor) {
+      if (movingNodeId) {
+        const { x, y } = getCursorPoint(e);
+        editor.onNodeMove(movingNodeId, x, y);
+      }
+      return;
+    }
     if (dragPath.length > 0) {
         setDragCurrentPos(getCursorPoint(e));
     }
   };
 
   const handleSvgMouseUp = (e: React.MouseEvent) => {
+    if (editor) {
+      setMovingNodeId(null);
+      return;
+    }
     if (dragPath.length > 0) {
         if (dragPath.length >= 2) {
              const isContinuous = e.ctrlKey || e.metaKey;
@@ -363,20 +385,33 @@ const GameMap: React.FC<GameMapProps> = ({
   };
 
   const handleBgClick = (e: React.MouseEvent) => {
+    // Node clicks never reach here, so anything else is open water
+    if (editor) {
+      const { x, y } = getCursorPoint(e);
+      editor.onCanvasClick(x, y);
+      return;
+    }
     if (e.target === svgRef.current) {
       setSelectedNodeId(null);
     }
   };
 
   const handleNodeMouseDown = (node: Node, e: React.MouseEvent) => {
-    if (e.button !== 0 || node.owner !== playerColor) return;
+    if (editor) {
+      if (e.button !== 0) return;
+      setMovingNodeId(node.id);
+      editor.onNodePress(node.id);
+      return;
+    }
+    if (isSpectating || e.button !== 0 || node.owner !== playerColor) return;
     setDragPath([node.id]);
     setDragCurrentPos({ x: node.x, y: node.y });
-    if (onTutorialClick && tutorialTargetId === node.id) {
-       onTutorialClick();
-    }
+    onSelectNode?.(node.id);
   };
 
+  // Cached per edge list, so this only rebuilds when the topology shifts
+  const graph = getGraphIndex(world.nodes, world.edges);
+
   const handleNodeMouseEnter = (node: Node) => {
       setHoverNodeId(node.id);
       if (dragPath.length > 0) {
@@ -386,14 +421,10 @@ const GameMap: React.FC<GameMapProps> = ({
               setDragPath(prev => prev.slice(0, -1));
               return;
           }
-          const lastNode = world.nodes.find(n => n.id === lastId);
+          const lastNode = findNode(graph, world.nodes, lastId);
           if (!lastNode) return;
           if (lastNode.owner !== playerColor) return;
-          const isConnected = world.edges.some(edge => 
-            (edge.source === lastId && edge.target === node.id) || 
-            (edge.source === node.id && edge.target === lastId)
-          );
-          if (isConnected) {
+          if (areConnected(graph, lastId, node.id)) {
               setDragPath(prev => [...prev, node.id]);
           }
       }
@@ -413,9 +444,6 @@ const GameMap: React.FC<GameMapProps> = ({
     if (!selectedNodeId) {
       if (node.owner === playerColor) {
         setSelectedNodeId(node.id);
-        if (onTutorialClick && tutorialTargetId === node.id) {
-             onTutorialClick();
-        }
       }
       return;
     }
@@ -424,11 +452,7 @@ const GameMap: React.FC<GameMapProps> = ({
         setSelectedNodeId(null);
         return;
       }
-      const isConnected = world.edges.some(edge => 
-        (edge.source === selectedNodeId && edge.target === node.id) ||
-        (edge.source === node.id && edge.target === selectedNodeId)
-      );
-      if (isConnected) {
+      if (areConnected(graph, selectedNodeId, node.id)) {
         const isContinuous = e.ctrlKey || e.metaKey;
         onAttack(selectedNodeId, node.id, isContinuous);
         setSelectedNodeId(null); 
@@ -443,7 +467,7 @@ const GameMap: React.FC<GameMapProps> = ({
   };
 
   const getNodePos = (id: string) => {
-      const n = world.nodes.find(node => node.id === id);
+      const n = findNode(graph, world.nodes, id);
       return n ? { x: n.x, y: n.y } : { x: 0, y: 0 };
   };
 
@@ -572,7 +596,8 @@ const GameMap: React.FC<GameMapProps> = ({
 
             <g>
               {world.nodes.map((node, index) => {
-                const isSelected = selectedNodeId === node.id;
+                const isSelected = selectedNodeId === node.id || (editor?.highlightedIds.includes(node.id) ?? false);
+                const startSlot = editor ? editor.startSlots.indexOf(node.id) : -1;
                 const isHover = hoverNodeId === node.id;
                 const isInDragPath = dragPath.includes(node.id);
                 const isTutorialTarget = tutorialTargetId === node.id;
@@ -584,10 +609,7 @@ const GameMap: React.FC<GameMapProps> = ({
                 
                 let isTargetable = false;
                 if (selectedNodeId && selectedNodeId !== node.id) {
-                  isTargetable = world.edges.some(e => 
-                    (e.source === selectedNodeId && e.target === node.id) ||
-                    (e.source === node.id && e.target === selectedNodeId)
-                  );
+                  isTargetable = areConnected(graph, selectedNodeId, node.id);
                 }
 
                 if (!nodePhysicsMap.current.has(node.id)) {
@@ -758,6 +780,18 @@ const GameMap: React.FC<GameMapProps> = ({
                         {nucleusElement}
                     </g>
 
+                    {node.owner !== PlayerColor.GRAY && <SaturationRing node={node} radius={displayRadius} />}
+
+                    {startSlot >= 0 && (
+                      <text
+                        x={node.x} y={node.y - displayRadius - 10} textAnchor="middle"
+                        className="font-mono-lab font-bold fill-yellow-400 pointer-events-none select-none"
+                        style={{ fontSize: 11 }}
+                      >
+                        S{startSlot + 1}
+                      </text>
+                    )}
+
                     <text
                       x={node.x} y={node.y} dy=".35em" textAnchor="middle"
                       className="font-mono-lab font-bold fill-white pointer-events-none drop-shadow-md select-none"
@@ -772,19 +806,27 @@ const GameMap: React.FC<GameMapProps> = ({
           </svg>
       </div>
       
-      <GameHUD 
-        timeLeft={timeLeft}
-        isPaused={isPaused}
-        onTogglePause={onTogglePause}
-        isAutoPilot={isAutoPilot}
-        onToggleAutoPilot={onToggleAutoPilot}
-        hideControls={!!tutorialTargetId}
-      />
-
-      <PauseOverlay 
-        isPaused={isPaused}
-        onResume={onTogglePause}
-      />
+      {!editor && (
+        <>
+          <GameHUD 
+            // Maps that switch currents off have no cycle to count down
+            timeLeft={world.oceanCurrents === false ? null : currentTimeLeft}
+            isPaused={isPaused}
+            onTogglePause={onTogglePause}
+            isAutoPilot={isAutoPilot}
+            onToggleAutoPilot={onToggleAutoPilot}
+            gameSpeed={gameSpeed}
+            onSetGameSpeed={onSetGameSpeed}
+            hideControls={!!tutorialTargetId || isSpectating}
+          />
+
+          <PauseOverlay 
+            isPaused={isPaused}
+            onResume={onTogglePause}
+            onExportMap={onExportMap}
+          />
+        </>
+      )}
 
     </div>
   );
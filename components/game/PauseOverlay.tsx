@@ -1,15 +1,26 @@
 
-import React from 'react';
-import { Pause } from 'lucide-react';
+import React, { useState } from 'react';
+import { Pause, Download } from 'lucide-react';
 
 interface PauseOverlayProps {
   isPaused: boolean;
   onResume: () => void;
+  onExportMap?: () => void;
 }
 
-const PauseOverlay: React.FC<PauseOverlayProps> = ({ isPaused, onResume }) => {
+const PauseOverlay: React.FC<PauseOverlayProps> = ({ isPaused, onResume, onExportMap }) => {
+  const [exportError, setExportError] = useState<string | null>(null);
   if (!isPaused) return null;
 
+  const handleExport = () => {
+    try {
+      onExportMap!();
+      setExportError(null);
+    } catch (err) {
+      setExportError((err as Error).message);
+    }
+  };
+
   return (
     <div 
       className="absolute inset-0 z-40 flex items-center justify-center bg-black/40 backdrop-blur-[2px] cursor-pointer"
@@ -24,6 +35,17 @@ const PauseOverlay: React.FC<PauseOverlayProps> = ({ isPaused, onResume }) => {
                 <span className="text-yellow-600/80 font-mono-lab text-[10px] tracking-widest text-center mt-1">
                     CLICK TO RESUME
                 </span>
+                {onExportMap && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleExport(); }}
+                      className="pointer-events-auto mt-3 mx-auto flex items-center gap-1.5 text-[10px] text-slate-400 hover:text-slate-200 underline"
+                    >
+                      <Download size={10} /> 导出地图
+                    </button>
+                )}
+                {exportError && (
+                    <p className="mt-2 text-[10px] text-red-400 font-mono text-center">{exportError}</p>
+                )}
             </div>
         </div>
     </div>
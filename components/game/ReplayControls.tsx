@@ -0,0 +1,87 @@
+import React from 'react';
+import { Pause, Play, Film, X } from 'lucide-react';
+import { TICK_RATE_MS, GAME_SPEEDS } from '../../constants';
+
+interface ReplayControlsProps {
+  tick: number;
+  endTick: number;
+  isPlaying: boolean;
+  speed: number;
+  onTogglePlaying: () => void;
+  onSeek: (tick: number) => void;
+  onSetSpeed: (speed: number) => void;
+  onExit: () => void;
+}
+
+const formatTick = (tick: number) => {
+  const totalSeconds = Math.floor((tick * TICK_RATE_MS) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick,
+  endTick,
+  isPlaying,
+  speed,
+  onTogglePlaying,
+  onSeek,
+  onSetSpeed,
+  onExit
+}) => {
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50 w-full max-w-2xl px-4 pointer-events-none">
+      <div className="flex items-center gap-3 bg-slate-900/80 backdrop-blur-sm px-4 py-2 rounded-full border border-slate-700/50 shadow-[0_0_20px_rgba(0,0,0,0.5)] pointer-events-auto">
+        <Film className="w-4 h-4 text-blue-400 shrink-0" />
+
+        <button
+          onClick={onTogglePlaying}
+          className="w-8 h-8 flex items-center justify-center rounded-full border border-slate-600 text-slate-300 hover:text-white hover:border-slate-400 transition-all shrink-0"
+        >
+          {isPlaying ? <Pause size={14} fill="currentColor" /> : <Play size={14} fill="currentColor" />}
+        </button>
+
+        <span className="font-mono-lab text-[10px] text-slate-400 tracking-wide shrink-0">
+          {formatTick(tick)} / {formatTick(endTick)}
+        </span>
+
+        <input
+          type="range"
+          min={0}
+          max={endTick}
+          value={tick}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-blue-500 cursor-pointer"
+        />
+
+        <div className="flex gap-1 shrink-0">
+          {GAME_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSetSpeed(s)}
+              className={`
+                px-2 py-1 rounded font-mono text-[10px] border transition-all
+                ${speed === s
+                  ? 'bg-blue-600 border-blue-400 text-white'
+                  : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}
+              `}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onExit}
+          className="w-8 h-8 flex items-center justify-center rounded-full text-slate-500 hover:text-white hover:bg-slate-800 transition-all shrink-0"
+          title="退出回放"
+        >
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,41 @@
+import React, { memo } from 'react';
+import { Node } from '../../types';
+
+interface SaturationRingProps {
+  node: Node;
+  radius: number;
+}
+
+const NEAR_FULL = 0.9;
+
+// Thin arc around the cell showing how close it is to capacity.
+// Full cells stop growing and push extra reinforcements onward, so they pulse red.
+const SaturationRing = memo(({ node, radius }: SaturationRingProps) => {
+  if (!Number.isFinite(node.capacity) || node.capacity <= 0) return null;
+
+  const saturation = Math.min(1, node.count / node.capacity);
+  const isFull = node.count >= node.capacity;
+  const r = radius + 4;
+  const circumference = 2 * Math.PI * r;
+
+  let stroke = '#94a3b8'; // slate-400
+  if (isFull) stroke = '#ef4444'; // red-500
+  else if (saturation >= NEAR_FULL) stroke = '#f59e0b'; // amber-500
+
+  return (
+    <g className="pointer-events-none">
+      <circle cx={node.x} cy={node.y} r={r} fill="none" stroke="#1e293b" strokeWidth={2} strokeOpacity={0.6} />
+      <circle
+        cx={node.x} cy={node.y} r={r}
+        fill="none" stroke={stroke} strokeWidth={2} strokeLinecap="round"
+        strokeDasharray={`${circumference * saturation} ${circumference}`}
+        // Start the arc at twelve o'clock
+        transform={`rotate(-90 ${node.x} ${node.y})`}
+        opacity={isFull ? 1 : 0.75}
+        className={isFull ? 'animate-pulse' : undefined}
+      />
+    </g>
+  );
+});
+
+export default SaturationRing;
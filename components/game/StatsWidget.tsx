@@ -1,7 +1,7 @@
 
 import React, { useMemo, useState } from 'react';
 import { GameWorld, PlayerColor } from '../../types';
-import { COLOR_MAP, PLAYABLE_COLORS } from '../../constants';
+import { COLOR_MAP, PLAYABLE_COLORS, AI_PERSONALITY_SETTINGS } from '../../constants';
 import { PieChart, BarChart3 } from 'lucide-react';
 
 interface StatsWidgetProps {
@@ -50,6 +50,11 @@ const StatsWidget: React.FC<StatsWidgetProps> = ({ world }) => {
       let label = "";
       if (d.color === PlayerColor.GRAY) label = "Neutral";
       else label = d.color;
+      // Opponents show who they are playing as
+      const personality = world.aiPersonalities?.[d.color];
+      if (personality) label += ` · ${AI_PERSONALITY_SETTINGS[personality].name}`;
+      const level = world.aiDifficulties?.[d.color];
+      if (level) label += ` · ${level}级`;
 
       return {
         ...d,
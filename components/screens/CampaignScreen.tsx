@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Flag, Lock, Star, ArrowLeft, Play, Target } from 'lucide-react';
+import { CampaignMission } from '../../types';
+import { CAMPAIGN_MISSIONS } from '../../data/campaign';
+import { CampaignStars, MAX_MISSION_STARS, isMissionUnlocked } from '../../services/campaignProgress';
+import RichTypewriter from '../ui/RichTypewriter';
+
+interface CampaignScreenProps {
+  stars: CampaignStars;
+  startMission: (id: string) => void;
+  onExit: () => void;
+}
+
+const StarRow: React.FC<{ earned: number, size: number }> = ({ earned, size }) => (
+  <div className="flex gap-0.5">
+    {Array.from({ length: MAX_MISSION_STARS }).map((_, i) => (
+      <Star key={i} size={size} className={i < earned ? 'text-yellow-400 fill-yellow-400' : 'text-slate-700'} />
+    ))}
+  </div>
+);
+
+interface BriefingProps {
+  mission: CampaignMission;
+  index: number;
+  earned: number;
+  onStart: () => void;
+  onBack: () => void;
+}
+
+const Briefing: React.FC<BriefingProps> = ({ mission, index, earned, onStart, onBack }) => (
+  <div className="flex flex-col gap-4">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-[10px] text-slate-500 font-mono tracking-widest">任务 {String(index + 1).padStart(2, '0')}</p>
+        <h3 className="text-2xl font-black text-slate-100 tracking-widest">{mission.name}</h3>
+      </div>
+      <StarRow earned={earned} size={16} />
+    </div>
+
+    <div className="min-h-[6rem] bg-slate-900/50 p-4 rounded-lg border border-slate-800 text-slate-200 leading-relaxed whitespace-pre-line">
+      <RichTypewriter text={mission.briefing} />
+    </div>
+
+    <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-800">
+      <label className="block text-[10px] font-bold text-yellow-400 uppercase tracking-widest mb-2 flex items-center gap-2">
+        <Target size={12}/> 任务目标
+      </label>
+      <p className="text-sm text-slate-200">{mission.description}</p>
+      <ul className="mt-3 flex flex-col gap-1">
+        {mission.bonuses.map(bonus => (
+          <li key={bonus.text} className="flex items-center gap-2 text-xs text-slate-400">
+            <Star size={10} className="text-yellow-500" /> {bonus.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+
+    <div className="flex gap-3">
+      <button
+        onClick={onBack}
+        className="px-4 py-3 rounded-lg border border-slate-700 bg-slate-800 text-slate-300 hover:text-white hover:border-slate-500 text-sm font-bold tracking-widest flex items-center gap-2 transition-all"
+      >
+        <ArrowLeft size={16} /> 返回
+      </button>
+      <button
+        onClick={onStart}
+        className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold tracking-widest uppercase transition-all border border-blue-400/50 flex items-center justify-center gap-2"
+      >
+        <Play size={16} /> 开始任务
+      </button>
+    </div>
+  </div>
+);
+
+const CampaignScreen: React.FC<CampaignScreenProps> = ({ stars, startMission, onExit }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const totalStars = CAMPAIGN_MISSIONS.reduce((sum, m) => sum + (stars[m.id] ?? 0), 0);
+  const selected = selectedIndex !== null ? CAMPAIGN_MISSIONS[selectedIndex] : null;
+
+  return (
+    <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm">
+      <div className="max-w-2xl w-full bg-[#050b14] p-8 rounded-xl border border-slate-700 shadow-2xl">
+        {selected ? (
+          <Briefing
+            mission={selected}
+            index={selectedIndex!}
+            earned={stars[selected.id] ?? 0}
+            onStart={() => startMission(selected.id)}
+            onBack={() => setSelectedIndex(null)}
+          />
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-black tracking-widest text-slate-100 flex items-center gap-3">
+                <Flag className="text-yellow-500" /> 战役
+              </h2>
+              <span className="flex items-center gap-1 text-sm font-mono text-slate-400">
+                <Star size={14} className="text-yellow-400 fill-yellow-400" />
+                {totalStars}/{CAMPAIGN_MISSIONS.length * MAX_MISSION_STARS}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-5 gap-2">
+              {CAMPAIGN_MISSIONS.map((mission, i) => {
+                const isUnlocked = isMissionUnlocked(CAMPAIGN_MISSIONS, i, stars);
+                return (
+                  <button
+                    key={mission.id}
+                    disabled={!isUnlocked}
+                    onClick={() => setSelectedIndex(i)}
+                    title={isUnlocked ? mission.description : '完成上一个任务后解锁'}
+                    className="flex flex-col items-center gap-1 p-3 rounded-lg border border-slate-800 bg-slate-900/50 hover:border-yellow-500/50 hover:bg-slate-800 transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-slate-800"
+                  >
+                    <span className="text-[10px] font-mono text-slate-500">{String(i + 1).padStart(2, '0')}</span>
+                    {isUnlocked
+                      ? <span className="text-xs font-bold text-slate-200 tracking-wider truncate w-full text-center">{mission.name}</span>
+                      : <Lock size={14} className="text-slate-600 my-0.5" />}
+                    <StarRow earned={stars[mission.id] ?? 0} size={10} />
+                  </button>
+                );
+              })}
+            </div>
+
+            <button onClick={onExit} className="mt-6 text-xs text-slate-500 hover:text-slate-300 underline flex items-center gap-1">
+              <ArrowLeft size={12} /> 返回主菜单
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignScreen;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { GraduationCap, CircleCheck, Circle } from 'lucide-react';
+import { TUTORIAL_CHAPTERS } from '../../data/scenarios';
+
+interface ChapterSelectProps {
+  completedChapters: string[];
+  startChapter: (id: string) => void;
+}
+
+const ChapterSelect: React.FC<ChapterSelectProps> = ({ completedChapters, startChapter }) => (
+  <div className="w-full bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-4">
+    <label className="block text-[10px] font-bold text-yellow-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+      <GraduationCap size={12}/> 教程章节
+      <span className="ml-auto text-slate-500 font-mono">{completedChapters.filter(id => TUTORIAL_CHAPTERS.some(c => c.id === id)).length}/{TUTORIAL_CHAPTERS.length}</span>
+    </label>
+    <div className="flex flex-col gap-1">
+      {TUTORIAL_CHAPTERS.map((chapter, i) => {
+        const isCompleted = completedChapters.includes(chapter.id);
+        return (
+          <button
+            key={chapter.id}
+            onClick={() => startChapter(chapter.id)}
+            className="flex items-start gap-3 px-3 py-2 rounded border border-slate-800 bg-slate-800/40 hover:border-yellow-500/50 hover:bg-slate-800 text-left transition-all"
+          >
+            {isCompleted
+              ? <CircleCheck size={16} className="mt-0.5 shrink-0 text-emerald-400" />
+              : <Circle size={16} className="mt-0.5 shrink-0 text-slate-600" />}
+            <div className="flex-1">
+              <p className="text-xs font-bold text-slate-200 tracking-widest">
+                <span className="font-mono text-slate-500 mr-2">{String(i + 1).padStart(2, '0')}</span>
+                {chapter.name}
+              </p>
+              <p className="text-[10px] text-slate-500 mt-0.5">{chapter.description}</p>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default ChapterSelect;
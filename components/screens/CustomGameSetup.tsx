@@ -0,0 +1,129 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { CustomGameSettings, GameMode, MapGeneratorId, PlayerColor, DifficultyLevel } from '../../types';
+import { CUSTOM_GAME_LIMITS, DEFAULT_CUSTOM_GAME, MAP_GENERATOR_SETTINGS } from '../../constants';
+import { getOpponentColors } from '../../services/gameLogic';
+import OpponentLineup from './OpponentLineup';
+
+interface CustomGameSetupProps {
+  settings: CustomGameSettings;
+  setSettings: (settings: CustomGameSettings) => void;
+  gameMode: GameMode;
+  playerColor: PlayerColor;
+  difficulty: DifficultyLevel;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, min, max, onChange }) => (
+  <div className="flex items-center gap-3">
+    <span className="w-20 text-[10px] text-slate-400 font-bold tracking-widest">{label}</span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="flex-1 accent-cyan-500"
+    />
+    <span className="w-8 text-right text-xs font-mono text-slate-200">{value}</span>
+  </div>
+);
+
+const CustomGameSetup: React.FC<CustomGameSetupProps> = ({ settings, setSettings, gameMode, playerColor, difficulty }) => {
+  const update = (patch: Partial<CustomGameSettings>) => setSettings({ ...settings, ...patch });
+  const { nodeCount, opponentCount, startingCount, neutralCount } = CUSTOM_GAME_LIMITS;
+  // HONEYCOMB maps are always laid out on its own lattice
+  const isLattice = gameMode === 'HONEYCOMB';
+
+  return (
+    <div className="w-full bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-4">
+      <label className="block text-[10px] font-bold text-cyan-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+        <SlidersHorizontal size={12}/> 自定义对局
+      </label>
+      <div className="grid grid-cols-5 gap-1 mb-2">
+        {(Object.keys(MAP_GENERATOR_SETTINGS) as MapGeneratorId[]).map(id => (
+          <button
+            key={id}
+            disabled={isLattice}
+            onClick={() => update({ generator: id })}
+            className={`
+              py-1.5 rounded border text-xs font-bold tracking-widest transition-all disabled:opacity-40 disabled:cursor-not-allowed
+              ${settings.generator === id && !isLattice
+                ? 'bg-cyan-600 border-cyan-400 text-white shadow-[0_0_10px_rgba(6,182,212,0.4)]'
+                : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500 hover:text-slate-300'}
+            `}
+          >
+            {MAP_GENERATOR_SETTINGS[id].name}
+          </button>
+        ))}
+      </div>
+      <p className="mb-3 text-center text-[10px] text-slate-500 font-mono">
+        {isLattice ? '蜂巢模式固定使用六边形晶格布局。' : MAP_GENERATOR_SETTINGS[settings.generator].description}
+      </p>
+      <div className="flex flex-col gap-2">
+        <SliderRow
+          label="菌落数量"
+          value={settings.nodeCount}
+          min={nodeCount.min}
+          max={nodeCount.max}
+          onChange={(value) => update({ nodeCount: value })}
+        />
+        <SliderRow
+          label="AI 对手"
+          value={settings.opponentCount}
+          min={opponentCount.min}
+          max={opponentCount.max}
+          onChange={(value) => update({ opponentCount: value })}
+        />
+        <SliderRow
+          label="初始兵力"
+          value={settings.startingCount}
+          min={startingCount.min}
+          max={startingCount.max}
+          onChange={(value) => update({ startingCount: value })}
+        />
+        {/* Dragging one end of the neutral range past the other pushes it along */}
+        <SliderRow
+          label="中立下限"
+          value={settings.neutralCountMin}
+          min={neutralCount.min}
+          max={neutralCount.max}
+          onChange={(value) => update({ neutralCountMin: value, neutralCountMax: Math.max(value, settings.neutralCountMax) })}
+        />
+        <SliderRow
+          label="中立上限"
+          value={settings.neutralCountMax}
+          min={neutralCount.min}
+          max={neutralCount.max}
+          onChange={(value) => update({ neutralCountMax: value, neutralCountMin: Math.min(value, settings.neutralCountMin) })}
+        />
+      </div>
+      <OpponentLineup
+        colors={getOpponentColors(playerColor, settings.opponentCount)}
+        opponents={settings.opponents}
+        setOpponents={(opponents) => update({ opponents })}
+        matchDifficulty={difficulty}
+      />
+      <div className="mt-3 flex justify-between items-center">
+        <p className="text-[10px] text-slate-500 font-mono">
+          {settings.opponentCount + 1} 方混战 · {settings.nodeCount} 个菌落
+        </p>
+        <button
+          onClick={() => setSettings(DEFAULT_CUSTOM_GAME)}
+          className="text-[10px] text-slate-500 hover:text-slate-300 underline"
+        >
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomGameSetup;
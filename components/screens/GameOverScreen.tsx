@@ -1,15 +1,20 @@
 
 import React, { useMemo } from 'react';
-import { RotateCcw, Award, Skull, Activity, Dna, Cpu } from 'lucide-react';
+import { RotateCcw, Award, Skull, Activity, Dna, Cpu, Film, Download, Star } from 'lucide-react';
 import { GameWorld, PlayerColor, GameState, DifficultyLevel } from '../../types';
-import { DIFFICULTY_SETTINGS } from '../../constants';
+import { DIFFICULTY_SETTINGS, DIFFICULTY_LEVELS } from '../../constants';
+import { MAX_MISSION_STARS } from '../../services/campaignProgress';
 
 interface GameOverScreenProps {
   gameState: GameState;
   world: GameWorld;
   playerColor: PlayerColor;
   difficulty: DifficultyLevel;
+  seed: number;
   resetGame: () => void;
+  onWatchReplay?: () => void;
+  onExportReplay?: () => void;
+  missionStars?: number | null; // Stars earned, when a campaign mission was won
 }
 
 const GameOverScreen: React.FC<GameOverScreenProps> = ({
@@ -17,7 +22,11 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
   world,
   playerColor,
   difficulty,
-  resetGame
+  seed,
+  resetGame,
+  onWatchReplay,
+  onExportReplay,
+  missionStars = null
 }) => {
   // Calculate stats
   const gameStats = useMemo(() => {
@@ -33,9 +42,10 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
     return {
       dominance: Math.round(dominance),
       biomass: Math.floor(nodeUnits + payloadUnits),
-      simId: `SIM-${Math.floor(Math.random()*9000)+1000}-${String.fromCharCode(65+Math.random()*26)}${String.fromCharCode(65+Math.random()*26)}`
+      // The match seed doubles as the simulation ID so a run can be reproduced from a bug report
+      simId: `SIM-${seed.toString(16).toUpperCase().padStart(8, '0')}`
     };
-  }, [gameState, world, playerColor]);
+  }, [gameState, world, playerColor, seed]);
 
   if (!gameStats) return null;
 
@@ -74,6 +84,15 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
               </div>
            </div>
 
+           {/* Mission Rating */}
+           {missionStars !== null && (
+              <div className="flex justify-center gap-2 mb-6">
+                 {Array.from({ length: MAX_MISSION_STARS }).map((_, i) => (
+                    <Star key={i} size={32} className={i < missionStars ? 'text-yellow-400 fill-yellow-400 drop-shadow-[0_0_8px_rgba(250,204,21,0.6)]' : 'text-slate-700'} />
+                 ))}
+              </div>
+           )}
+
            {/* Stats Grid */}
            <div className="grid grid-cols-2 gap-4 mb-8">
               {/* Dominance */}
@@ -107,7 +126,7 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
                        {difficulty ? DIFFICULTY_SETTINGS[difficulty].name : 'TUTORIAL PROTOCOL'}
                     </span>
                     <div className="flex gap-1">
-                       {[1,2,3,4,5,6].map(i => (
+                       {DIFFICULTY_LEVELS.map(i => (
                           <div key={i} className={`w-1.5 h-3 rounded-sm ${difficulty >= i ? (gameState === 'VICTORY' ? 'bg-yellow-500' : 'bg-red-500') : 'bg-slate-800'}`}></div>
                        ))}
                     </div>
@@ -140,6 +159,28 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({
                  <RotateCcw size={18} /> 重启模拟
               </span>
            </button>
+
+           {/* Replay Actions */}
+           {(onWatchReplay || onExportReplay) && (
+              <div className="flex gap-3 mt-3">
+                 {onWatchReplay && (
+                    <button
+                       onClick={onWatchReplay}
+                       className="flex-1 py-2 rounded border border-slate-700 bg-slate-900/50 text-slate-300 hover:text-white hover:border-slate-500 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all"
+                    >
+                       <Film size={14} /> 观看回放
+                    </button>
+                 )}
+                 {onExportReplay && (
+                    <button
+                       onClick={onExportReplay}
+                       className="flex-1 py-2 rounded border border-slate-700 bg-slate-900/50 text-slate-300 hover:text-white hover:border-slate-500 text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 transition-all"
+                    >
+                       <Download size={14} /> 导出录像
+                    </button>
+                 )}
+              </div>
+           )}
          </div>
        </div>
     </div>
@@ -1,17 +1,31 @@
 
-import React from 'react';
-import { Activity, Cpu, Globe } from 'lucide-react';
-import { PlayerColor, DifficultyLevel } from '../../types';
-import { COLOR_MAP, PLAYABLE_COLORS, DIFFICULTY_SETTINGS } from '../../constants';
+import React, { useRef, useState } from 'react';
+import { Activity, Cpu, Globe, History, Hexagon, Flag } from 'lucide-react';
+import { PlayerColor, DifficultyLevel, GameMode, CustomGameSettings } from '../../types';
+import { COLOR_MAP, PLAYABLE_COLORS, DIFFICULTY_SETTINGS, DIFFICULTY_LEVELS, GAME_MODE_SETTINGS } from '../../constants';
 import MicrobioLogo from '../ui/MicrobioLogo';
+import CustomGameSetup from './CustomGameSetup';
+import ChapterSelect from './ChapterSelect';
+import { TUTORIAL_SCENARIO } from '../../data/scenarios';
 
 interface MainMenuProps {
   playerColor: PlayerColor;
   setPlayerColor: (color: PlayerColor) => void;
   difficulty: DifficultyLevel;
   setDifficulty: (level: DifficultyLevel) => void;
-  startGame: (forceTutorial?: boolean) => void;
+  gameMode: GameMode;
+  setGameMode: (mode: GameMode) => void;
+  customGame: CustomGameSettings;
+  setCustomGame: (settings: CustomGameSettings) => void;
+  startGame: (chapterId?: string | null, matchSeed?: number, settings?: CustomGameSettings) => void;
   hasCompletedTutorial: boolean;
+  completedChapters: string[];
+  hasSavedGame: boolean;
+  continueGame: () => void;
+  loadReplay: (text: string) => void;
+  importMap: (text: string) => void;
+  openEditor: () => void;
+  openCampaign: () => void;
 }
 
 const MainMenu: React.FC<MainMenuProps> = ({
@@ -19,9 +33,39 @@ const MainMenu: React.FC<MainMenuProps> = ({
   setPlayerColor,
   difficulty,
   setDifficulty,
+  gameMode,
+  setGameMode,
+  customGame,
+  setCustomGame,
   startGame,
-  hasCompletedTutorial
+  hasCompletedTutorial,
+  completedChapters,
+  hasSavedGame,
+  continueGame,
+  loadReplay,
+  importMap,
+  openEditor,
+  openCampaign
 }) => {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const mapInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [showCustomGame, setShowCustomGame] = useState(false);
+  const [showChapters, setShowChapters] = useState(false);
+
+  // Both loaders throw a readable message for files they can't use
+  const readFileInto = (load: (text: string) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      load(await file.text());
+      setFileError(null);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
   return (
     <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm">
       <div className="max-w-xl w-full p-1 bg-slate-900/60 backdrop-blur-xl rounded-xl border border-slate-700 shadow-2xl relative group">
@@ -69,13 +113,51 @@ const MainMenu: React.FC<MainMenuProps> = ({
                </div>
              </div>
 
+             {/* Mode Selection */}
+             <div className="w-full bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-4">
+               <label className="block text-[10px] font-bold text-emerald-400 uppercase tracking-widest mb-3 flex items-center gap-2">
+                 <Hexagon size={12}/> 地形模式
+               </label>
+               <div className="grid grid-cols-2 gap-2">
+                 {(Object.keys(GAME_MODE_SETTINGS) as GameMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setGameMode(mode)}
+                      className={`
+                        py-2 rounded border text-sm font-bold tracking-widest transition-all
+                        ${gameMode === mode
+                          ? 'bg-emerald-600 border-emerald-400 text-white shadow-[0_0_10px_rgba(16,185,129,0.4)]'
+                          : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500 hover:text-slate-300'}
+                      `}
+                    >
+                      {GAME_MODE_SETTINGS[mode].name}
+                    </button>
+                 ))}
+               </div>
+               <p className="mt-3 text-center text-[10px] text-slate-500 font-mono">{GAME_MODE_SETTINGS[gameMode].description}</p>
+             </div>
+
+             {/* Custom Game Setup */}
+             {showCustomGame && (
+               <CustomGameSetup
+                 settings={customGame}
+                 setSettings={setCustomGame}
+                 gameMode={gameMode}
+                 playerColor={playerColor}
+                 difficulty={difficulty}
+               />
+             )}
+             {showChapters && (
+               <ChapterSelect completedChapters={completedChapters} startChapter={startGame} />
+             )}
+
              {/* Difficulty Selection */}
              <div className="w-full bg-slate-900/50 p-4 rounded-lg border border-slate-800 mb-6">
                <label className="block text-[10px] font-bold text-purple-400 uppercase tracking-widest mb-3 flex items-center gap-2">
                  <Cpu size={12}/> 难度
                </label>
-               <div className="grid grid-cols-6 gap-2">
-                 {([1, 2, 3, 4, 5, 6] as DifficultyLevel[]).map((level) => (
+               <div className="grid grid-cols-7 gap-2">
+                 {DIFFICULTY_LEVELS.map((level) => (
                     <button
                       key={level}
                       onClick={() => setDifficulty(level)}
@@ -98,9 +180,27 @@ const MainMenu: React.FC<MainMenuProps> = ({
              </div>
 
              <div className="flex gap-4 w-full">
+                {/* Continue Saved Match */}
+                {hasSavedGame && (
+                  <button
+                    onClick={continueGame}
+                    className="px-6 py-4 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold text-sm tracking-widest uppercase transition-all border border-slate-600 hover:border-slate-400 flex items-center justify-center gap-2"
+                  >
+                    <History size={18} />
+                    继续
+                  </button>
+                )}
+                {/* Campaign */}
+                <button
+                  onClick={openCampaign}
+                  className="px-6 py-4 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg font-bold text-sm tracking-widest uppercase transition-all border border-slate-600 hover:border-yellow-500/60 flex items-center justify-center gap-2"
+                >
+                  <Flag size={18} className="text-yellow-500" />
+                  战役
+                </button>
                 {/* Unified Start Button */}
                 <button
-                  onClick={() => startGame(!hasCompletedTutorial)}
+                  onClick={() => startGame(hasCompletedTutorial ? null : TUTORIAL_SCENARIO.id, undefined, customGame)}
                   className={`
                     flex-1 py-4 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-lg tracking-widest uppercase transition-all shadow-[0_0_20px_rgba(37,99,235,0.3)] hover:shadow-[0_0_30px_rgba(37,99,235,0.5)] border border-blue-400/50 flex items-center justify-center gap-3 group-hover:gap-4
                   `}
@@ -110,10 +210,27 @@ const MainMenu: React.FC<MainMenuProps> = ({
                 </button>
              </div>
              
-             {hasCompletedTutorial && (
-                <button onClick={() => startGame(true)} className="mt-4 text-xs text-slate-500 hover:text-slate-300 underline">
-                    重玩教程
+             <div className="flex gap-6 mt-4">
+                <button onClick={() => setShowChapters(!showChapters)} className="text-xs text-slate-500 hover:text-slate-300 underline">
+                    {showChapters ? '收起教程' : '教程章节'}
+                </button>
+                <button onClick={() => setShowCustomGame(!showCustomGame)} className="text-xs text-slate-500 hover:text-slate-300 underline">
+                    {showCustomGame ? '收起自定义' : '自定义对局'}
+                </button>
+                <button onClick={() => replayInputRef.current?.click()} className="text-xs text-slate-500 hover:text-slate-300 underline">
+                    载入录像
                 </button>
+                <input ref={replayInputRef} type="file" accept=".json,application/json" className="hidden" onChange={readFileInto(loadReplay)} />
+                <button onClick={() => mapInputRef.current?.click()} className="text-xs text-slate-500 hover:text-slate-300 underline">
+                    载入地图
+                </button>
+                <input ref={mapInputRef} type="file" accept=".json,application/json" className="hidden" onChange={readFileInto(importMap)} />
+                <button onClick={openEditor} className="text-xs text-slate-500 hover:text-slate-300 underline">
+                    地图编辑器
+                </button>
+             </div>
+             {fileError && (
+                <p className="mt-2 text-[10px] text-red-400 font-mono">{fileError}</p>
              )}
            </div>
         </div>
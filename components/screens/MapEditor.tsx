@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MousePointer2, CirclePlus, Spline, Flag, Trash2, Play, Download, Upload, FilePlus, ArrowLeft, TriangleAlert, CircleCheck } from 'lucide-react';
+import { MapDefinition, NodeType, EdgeType, PlayerColor } from '../../types';
+import { COLOR_MAP, PLAYABLE_COLORS } from '../../constants';
+import { decodeMap, encodeMap, mapPreviewWorld } from '../../services/mapFile';
+import { addNode, moveNode, updateNode, removeNode, toggleEdge, toggleStartSlot, checkMap, createBlankMap } from '../../services/mapEditor';
+import { downloadTextFile } from '../../services/files';
+import GameMap from '../game/GameMap';
+
+interface MapEditorProps {
+  map: MapDefinition;
+  setMap: (map: MapDefinition) => void;
+  onPlaytest: (map: MapDefinition) => void;
+  onExit: () => void;
+}
+
+type EditorTool = 'SELECT' | 'ADD' | 'LINK';
+
+const TOOLS: { id: EditorTool, name: string, icon: React.ReactNode, hint: string }[] = [
+  { id: 'SELECT', name: '选择', icon: <MousePointer2 size={14} />, hint: '点击选中菌落, 拖动以移动。Delete 键删除。' },
+  { id: 'ADD', name: '放置', icon: <CirclePlus size={14} />, hint: '点击空白水域放置新菌落。' },
+  { id: 'LINK', name: '连接', icon: <Spline size={14} />, hint: '依次点击两个菌落来连接; 再连一次同类型连接即删除。' }
+];
+
+const NODE_TYPE_NAMES: Record<NodeType, string> = { DEFAULT: '普通', FORTRESS: '要塞', HIVE: '虫巢' };
+const EDGE_TYPE_NAMES: Record<EdgeType, string> = { PERMANENT: '永久', RANDOM: '随机' };
+const OWNERS = [PlayerColor.GRAY, ...PLAYABLE_COLORS];
+
+const toggleClass = (active: boolean) => `
+  flex-1 py-1.5 rounded border text-xs font-bold tracking-widest transition-all flex items-center justify-center gap-1
+  ${active
+    ? 'bg-cyan-600 border-cyan-400 text-white shadow-[0_0_10px_rgba(6,182,212,0.4)]'
+    : 'bg-slate-800 border-slate-700 text-slate-500 hover:border-slate-500 hover:text-slate-300'}
+`;
+
+const MapEditor: React.FC<MapEditorProps> = ({ map, setMap, onPlaytest, onExit }) => {
+  const [tool, setTool] = useState<EditorTool>('SELECT');
+  const [edgeType, setEdgeType] = useState<EdgeType>('PERMANENT');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [linkFromId, setLinkFromId] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const world = useMemo(() => mapPreviewWorld(map), [map]);
+  const check = useMemo(() => checkMap(map), [map]);
+  const selected = map.nodes.find(n => n.id === selectedId);
+
+  const chooseTool = (next: EditorTool) => {
+    setTool(next);
+    setLinkFromId(null);
+  };
+
+  // Delete removes the selected node, unless the user is typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!selectedId || (e.key !== 'Delete' && e.key !== 'Backspace')) return;
+      if (e.target instanceof HTMLInputElement) return;
+      setMap(removeNode(map, selectedId));
+      setSelectedId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [map, selectedId, setMap]);
+
+  const handleCanvasClick = (x: number, y: number) => {
+    if (tool === 'ADD') {
+      const added = addNode(map, x, y);
+      setMap(added.map);
+      setSelectedId(added.id);
+    } else {
+      setSelectedId(null);
+      setLinkFromId(null);
+    }
+  };
+
+  const handleNodePress = (id: string) => {
+    setSelectedId(id);
+    if (tool !== 'LINK') return;
+    if (linkFromId && linkFromId !== id) {
+      setMap(toggleEdge(map, linkFromId, id, edgeType));
+      setLinkFromId(null);
+    } else {
+      setLinkFromId(id);
+    }
+  };
+
+  const handleNodeMove = (id: string, x: number, y: number) => {
+    if (tool === 'SELECT') setMap(moveNode(map, id, x, y));
+  };
+
+  const handleSave = () => {
+    const fileName = map.name.trim().replace(/[\\/:*?"<>|\s]+/g, '-') || 'map';
+    downloadTextFile(`microbio-map-${fileName}.json`, encodeMap(map));
+  };
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setMap(decodeMap(await file.text()));
+      setSelectedId(null);
+      setLinkFromId(null);
+      setFileError(null);
+    } catch (err) {
+      setFileError((err as Error).message);
+    }
+  };
+
+  const handleClear = () => {
+    setMap(createBlankMap());
+    setSelectedId(null);
+    setLinkFromId(null);
+  };
+
+  const rules = map.oceanCurrents ?? { enabled: true, mode: 'CLASSIC' };
+
+  return (
+    <div className="absolute inset-0 z-40 flex bg-[#050b14]">
+      {/* Tool Panel */}
+      <div className="w-72 shrink-0 h-full overflow-y-auto bg-slate-900/80 border-r border-slate-800 p-4 flex flex-col gap-4 text-slate-300">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold tracking-widest text-cyan-400 uppercase">地图编辑器</h2>
+          <button onClick={onExit} className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1">
+            <ArrowLeft size={12} /> 返回
+          </button>
+        </div>
+
+        <input
+          value={map.name}
+          onChange={(e) => setMap({ ...map, name: e.target.value })}
+          className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-cyan-500"
+          placeholder="地图名称"
+        />
+
+        {/* Tools */}
+        <div>
+          <div className="flex gap-1">
+            {TOOLS.map(t => (
+              <button key={t.id} onClick={() => chooseTool(t.id)} className={toggleClass(tool === t.id)}>
+                {t.icon} {t.name}
+              </button>
+            ))}
+          </div>
+          {tool === 'LINK' && (
+            <div className="flex gap-1 mt-1">
+              {(Object.keys(EDGE_TYPE_NAMES) as EdgeType[]).map(type => (
+                <button key={type} onClick={() => setEdgeType(type)} className={toggleClass(edgeType === type)}>
+                  {EDGE_TYPE_NAMES[type]}连接
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="mt-2 text-[10px] text-slate-500 font-mono">{TOOLS.find(t => t.id === tool)!.hint}</p>
+        </div>
+
+        {/* Selected Node */}
+        {selected ? (
+          <div className="bg-slate-900/50 p-3 rounded-lg border border-slate-800 flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold tracking-widest text-slate-400">{selected.id}</span>
+              <button
+                onClick={() => { setMap(removeNode(map, selected.id)); setSelectedId(null); }}
+                className="text-slate-500 hover:text-red-400"
+                title="删除菌落"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+            <div className="flex gap-1">
+              {(Object.keys(NODE_TYPE_NAMES) as NodeType[]).map(type => (
+                <button key={type} onClick={() => setMap(updateNode(map, selected.id, { type }))} className={toggleClass(selected.type === type)}>
+                  {NODE_TYPE_NAMES[type]}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              {OWNERS.map(owner => (
+                <button
+                  key={owner}
+                  onClick={() => setMap(updateNode(map, selected.id, { owner }))}
+                  className={`w-7 h-7 rounded-full border-2 transition-all ${selected.owner === owner ? 'border-white scale-110' : 'border-slate-700 opacity-60 hover:opacity-100'}`}
+                  style={{ backgroundColor: COLOR_MAP[owner] }}
+                  title={owner}
+                />
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="w-12 text-[10px] text-slate-400 font-bold tracking-widest">兵力</span>
+              <input
+                type="range"
+                min={0}
+                max={selected.capacity}
+                value={selected.count}
+                onChange={(e) => setMap(updateNode(map, selected.id, { count: Number(e.target.value) }))}
+                className="flex-1 accent-cyan-500"
+              />
+              <span className="w-8 text-right text-xs font-mono text-slate-200">{selected.count}</span>
+            </div>
+            <button onClick={() => setMap(toggleStartSlot(map, selected.id))} className={toggleClass(map.startSlots.includes(selected.id))}>
+              <Flag size={12} />
+              {map.startSlots.includes(selected.id) ? `出生点 ${map.startSlots.indexOf(selected.id) + 1}` : '设为出生点'}
+            </button>
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-500 font-mono">未选中菌落。出生点按顺序入座: 玩家坐 S1, AI 依次坐其余出生点。</p>
+        )}
+
+        {/* Map Rules */}
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="checkbox"
+            checked={rules.enabled}
+            onChange={(e) => setMap({ ...map, oceanCurrents: { ...rules, enabled: e.target.checked } })}
+            className="accent-cyan-500"
+          />
+          启用洋流 (每个周期重排随机连接)
+        </label>
+
+        {/* Checks */}
+        <div className="flex flex-col gap-1 text-[10px] font-mono">
+          {check.error && (
+            <p className="text-red-400 flex items-start gap-1"><TriangleAlert size={12} className="shrink-0" /> {check.error}</p>
+          )}
+          {check.warnings.map(warning => (
+            <p key={warning} className="text-amber-400 flex items-start gap-1"><TriangleAlert size={12} className="shrink-0" /> {warning}</p>
+          ))}
+          {!check.error && check.warnings.length === 0 && (
+            <p className="text-emerald-400 flex items-center gap-1"><CircleCheck size={12} /> 地图可用</p>
+          )}
+          <p className="text-slate-500">{map.nodes.length} 个菌落 · {map.edges.length} 条连接 · {map.startSlots.length} 个出生点</p>
+        </div>
+
+        {/* Actions */}
+        <div className="mt-auto flex flex-col gap-2">
+          <button
+            onClick={() => onPlaytest(map)}
+            disabled={!!check.error}
+            className="py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded font-bold text-sm tracking-widest flex items-center justify-center gap-2"
+          >
+            <Play size={14} /> 试玩
+          </button>
+          <div className="flex gap-1">
+            <button onClick={handleSave} disabled={!!check.error} className={`${toggleClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}>
+              <Download size={12} /> 保存
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={toggleClass(false)}>
+              <Upload size={12} /> 载入
+            </button>
+            <button onClick={handleClear} className={toggleClass(false)}>
+              <FilePlus size={12} /> 新建
+            </button>
+          </div>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLoad} />
+          {fileError && <p className="text-[10px] text-red-400 font-mono">{fileError}</p>}
+        </div>
+      </div>
+
+      {/* Canvas */}
+      <div className="flex-1 relative">
+        <GameMap
+          world={world}
+          playerColor={PlayerColor.GRAY}
+          onAttack={() => {}}
+          currentTimeLeft={0}
+          isAutoPilot={false}
+          onToggleAutoPilot={() => {}}
+          gameSpeed={1}
+          onSetGameSpeed={() => {}}
+          isPaused={false}
+          onTogglePause={() => {}}
+          editor={{
+            highlightedIds: [selectedId, linkFromId].filter((id): id is string => id !== null),
+            startSlots: map.startSlots,
+            onCanvasClick: handleCanvasClick,
+            onNodePress: handleNodePress,
+            onNodeMove: handleNodeMove
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { PlayerColor, DifficultyLevel, AIPersonality, OpponentSetup } from '../../types';
+import { COLOR_MAP, DIFFICULTY_SETTINGS, DIFFICULTY_LEVELS, AI_PERSONALITY_SETTINGS } from '../../constants';
+
+interface OpponentLineupProps {
+  colors: PlayerColor[];
+  opponents: Partial<Record<PlayerColor, OpponentSetup>>;
+  setOpponents: (opponents: Partial<Record<PlayerColor, OpponentSetup>>) => void;
+  matchDifficulty: DifficultyLevel;
+}
+
+// undefined leads each cycle: the match difficulty, or a personality drawn from the seed
+const DIFFICULTY_CYCLE: (DifficultyLevel | undefined)[] = [undefined, ...DIFFICULTY_LEVELS];
+const PERSONALITY_CYCLE: (AIPersonality | undefined)[] = [undefined, ...(Object.keys(AI_PERSONALITY_SETTINGS) as AIPersonality[])];
+
+const nextIn = <T,>(cycle: T[], current: T): T => cycle[(cycle.indexOf(current) + 1) % cycle.length];
+
+// Click a chip to step through its options
+const OpponentLineup: React.FC<OpponentLineupProps> = ({ colors, opponents, setOpponents, matchDifficulty }) => {
+  const update = (color: PlayerColor, patch: OpponentSetup) =>
+    setOpponents({ ...opponents, [color]: { ...opponents[color], ...patch } });
+
+  return (
+    <div className="mt-3 pt-3 border-t border-slate-800">
+      <p className="text-[10px] text-slate-400 font-bold tracking-widest mb-2 flex items-center gap-2">
+        <Users size={12}/> 对手配置
+      </p>
+      <div className="flex flex-col gap-1">
+        {colors.map(color => {
+          const { difficulty, personality } = opponents[color] ?? {};
+          const level = difficulty ?? matchDifficulty;
+          return (
+            <div key={color} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: COLOR_MAP[color] }} />
+              <button
+                onClick={() => update(color, { difficulty: nextIn(DIFFICULTY_CYCLE, difficulty) })}
+                title={DIFFICULTY_SETTINGS[level].description}
+                className={`flex-1 py-1 rounded border text-[10px] font-mono tracking-wide transition-all
+                  ${difficulty ? 'bg-purple-900/40 border-purple-500/60 text-purple-200' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              >
+                {difficulty ? DIFFICULTY_SETTINGS[difficulty].name : `跟随难度 (${level})`}
+              </button>
+              <button
+                onClick={() => update(color, { personality: nextIn(PERSONALITY_CYCLE, personality) })}
+                title={personality ? AI_PERSONALITY_SETTINGS[personality].description : '开局时随机抽取性格'}
+                className={`w-24 py-1 rounded border text-[10px] font-bold tracking-widest transition-all
+                  ${personality ? 'bg-cyan-900/40 border-cyan-500/60 text-cyan-200' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              >
+                {personality ? AI_PERSONALITY_SETTINGS[personality].name : '随机性格'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default OpponentLineup;
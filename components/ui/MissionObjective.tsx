@@ -0,0 +1,25 @@
+import React from 'react';
+import { Crosshair } from 'lucide-react';
+import { TutorialStep } from '../../types';
+import RichTypewriter from './RichTypewriter';
+
+interface MissionObjectiveProps {
+  missionName: string;
+  step: TutorialStep;
+}
+
+// The current campaign objective, under the ocean-current timer
+const MissionObjective: React.FC<MissionObjectiveProps> = ({ missionName, step }) => (
+  <div className="absolute top-14 left-1/2 -translate-x-1/2 z-30 pointer-events-none max-w-md w-full px-4">
+    <div className="bg-slate-900/70 backdrop-blur-sm px-4 py-2 rounded-lg border border-yellow-500/20 shadow-lg">
+      <div className="flex items-center gap-2 text-[10px] text-yellow-500 font-bold uppercase tracking-widest">
+        <Crosshair size={10} /> {missionName}
+      </div>
+      <div className="mt-1 text-sm text-slate-200">
+        <RichTypewriter text={step.text} />
+      </div>
+    </div>
+  </div>
+);
+
+export default MissionObjective;
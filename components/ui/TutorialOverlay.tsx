@@ -6,17 +6,21 @@ import RichTypewriter from './RichTypewriter';
 
 interface TutorialOverlayProps {
   step: TutorialStep;
+  stepCount: number;
+  chapterName: string;
   nextStep: () => void;
   skipTutorial: () => void;
 }
 
 const TutorialOverlay: React.FC<TutorialOverlayProps> = ({
   step,
+  stepCount,
+  chapterName,
   nextStep,
   skipTutorial
 }) => {
   const handleOverlayClick = () => {
-    if (step.requiredAction === 'NEXT' || (step.requiredAction === 'SELECT' && step.id === 0)) {
+    if (step.completeWhen.type === 'CONFIRM') {
         nextStep();
     }
   };
@@ -59,7 +63,7 @@ const TutorialOverlay: React.FC<TutorialOverlayProps> = ({
                          Step {String(step.id + 1).padStart(2, '0')}
                        </span>
                        <h3 className="text-slate-400 font-mono-lab text-xs uppercase tracking-[0.2em]">
-                         战术指导协议 // Alpha
+                         战术指导协议 // {chapterName}
                        </h3>
                     </div>
                     
@@ -98,7 +102,7 @@ const TutorialOverlay: React.FC<TutorialOverlayProps> = ({
             
             {/* Bottom: Segmented Progress Bar */}
             <div className="absolute bottom-0 left-0 w-full h-1.5 flex gap-0.5 bg-slate-900/50 px-6 pb-6 box-content">
-                {Array.from({ length: 9 }).map((_, idx) => (
+                {Array.from({ length: stepCount }).map((_, idx) => (
                   <div 
                     key={idx} 
                     className={`
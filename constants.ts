@@ -1,5 +1,5 @@
 
-import { PlayerColor, DifficultyLevel } from './types';
+import { PlayerColor, DifficultyLevel, AIPersonality, GameMode, SpecialNodeOptions, StartingForces, CustomGameSettings, MapGeneratorId } from './types';
 
 // Visual Colors
 export const COLOR_MAP: Record<PlayerColor, string> = {
@@ -28,6 +28,8 @@ export const GAME_HEIGHT = 800;
 export const NODE_RADIUS_BASE = 19; // All nodes start at this size
 
 export const TICK_RATE_MS = 50; // 20 ticks per second
+export const MAX_FRAME_CATCH_UP_MS = 250; // Longer frames (background tabs, hitches) drop the excess instead of fast-forwarding
+export const GAME_SPEEDS = [0.5, 1, 2, 4]; // Simulation clock multipliers offered in the HUD and replay viewer
 export const GROWTH_INTERVAL_MS = 1000; // Units grow every second
 
 // Movement & Combat Constants
@@ -43,10 +45,20 @@ export const OCEAN_CURRENT_INTERVAL_MS = 60000; // 60 Seconds
 
 export const AI_ACTION_INTERVAL_BASE = 1000; // Default base, overridden by difficulty
 
+export const AUTOSAVE_INTERVAL_MS = 10000; // Real time between localStorage snapshots of a running match
+
 // Initial Setup
+export const DEFAULT_NODE_COUNT = 24;
 export const INITIAL_NEUTRAL_COUNT = 10; // Neutrals are easier to take initially
+export const INITIAL_NEUTRAL_COUNT_MAX = 30;
 export const INITIAL_PLAYER_COUNT = 20;
 export const MAX_CAPACITY_BASE = 300; // Increased to 300 to allow new scaling to shine
+export const MAX_OVERFLOW_HOPS = 3; // A unit turned away this many times dissipates
+export const DEFAULT_SPECIAL_NODES: SpecialNodeOptions = {
+  fortressCount: 2,
+  hiveCount: 2,
+  fairness: 'BALANCED'
+};
 
 export const PLAYABLE_COLORS = [
   PlayerColor.RED,
@@ -56,56 +68,170 @@ export const PLAYABLE_COLORS = [
   PlayerColor.ORANGE
 ];
 
+export const DEFAULT_STARTING_FORCES: StartingForces = {
+  opponentCount: PLAYABLE_COLORS.length - 1, // Everyone else plays
+  startingCount: INITIAL_PLAYER_COUNT,
+  neutralCountMin: INITIAL_NEUTRAL_COUNT,
+  neutralCountMax: INITIAL_NEUTRAL_COUNT_MAX
+};
+
+export const DEFAULT_CUSTOM_GAME: CustomGameSettings = {
+  nodeCount: DEFAULT_NODE_COUNT,
+  generator: 'SCATTER',
+  ...DEFAULT_STARTING_FORCES,
+  opponents: {}
+};
+
+// Inclusive bounds offered by the custom-game setup screen
+export const CUSTOM_GAME_LIMITS = {
+  nodeCount: { min: 8, max: 200 },
+  opponentCount: { min: 1, max: PLAYABLE_COLORS.length - 1 },
+  startingCount: { min: 1, max: 100 },
+  neutralCount: { min: 0, max: 100 }
+};
+
+// Game Modes
+export const GAME_MODE_SETTINGS: Record<GameMode, { name: string, description: string }> = {
+  CLASSIC: {
+    name: "经典",
+    description: "自由分布的菌落,洋流可在任意邻近菌落间架桥。"
+  },
+  HONEYCOMB: {
+    name: "蜂巢",
+    description: "菌落排布在六边形晶格上,洋流只沿晶格相邻格重连。"
+  }
+};
+
+// Map Generators
+export const MAP_GENERATOR_SETTINGS: Record<MapGeneratorId, { name: string, description: string }> = {
+  SCATTER: {
+    name: "散布",
+    description: "随机撒布后自然舒展的菌落群。"
+  },
+  RINGS: {
+    name: "环带",
+    description: "同心环带由径向通道相连,各方从最外环出发。"
+  },
+  ISLANDS: {
+    name: "群岛",
+    description: "各自成团的岛屿仅靠少数桥梁相连,每方独占一座岛。"
+  },
+  SYMMETRIC: {
+    name: "对称",
+    description: "每方领地完全相同的镜像/旋转对称竞技图。菌落数会向下取整以保持对称。"
+  },
+  GRID: {
+    name: "网格",
+    description: "方形晶格上的迷宫式通道,各方从角落出发。"
+  }
+};
+
 // AI Difficulty Configuration
-interface DifficultyConfig {
+export interface DifficultyConfig {
   name: string;
   description: string;
   actionInterval: number; // How often AI thinks (ms)
   maxActionsPerTick: number; // How many nodes can attack simultaneously
   hesitationChance: number; // Chance (0-1) to skip an action even if good
+  plansAhead: boolean; // Plans the whole faction (services/aiPlanner) instead of each node on its own
+  lookaheadMs: number; // Simulated time each candidate plan is played forward (services/aiLookahead); 0 trusts the plan as is
 }
 
+// Node-ticks (nodes on the board × ticks played) one AI step may spend on play-outs, split
+// evenly between the factions due to look ahead. Counted rather than timed, so every host
+// decides alike: two play-outs each for five experts on a default map, while a single
+// play-out on the largest maps already costs 12k and is never tried.
+export const LOOKAHEAD_BUDGET = 15_000;
+
 export const DIFFICULTY_SETTINGS: Record<DifficultyLevel, DifficultyConfig> = {
   1: {
     name: "等级 1: 单核",
     description: "注意力极度有限。一次只能管理一个输出。",
     actionInterval: 2000,
     maxActionsPerTick: 1,
-    hesitationChance: 0.5
+    hesitationChance: 0.5,
+    plansAhead: false,
+    lookaheadMs: 0
   },
   2: {
     name: "等级 2: 双核",
     description: "反应速度慢。只能勉强应付两条战线。",
     actionInterval: 1800,
     maxActionsPerTick: 2,
-    hesitationChance: 0.4
+    hesitationChance: 0.4,
+    plansAhead: false,
+    lookaheadMs: 0
   },
   3: {
     name: "等级 3: 四核",
     description: "标准处理能力。有效管理小分队。",
     actionInterval: 1500,
     maxActionsPerTick: 4,
-    hesitationChance: 0.3
+    hesitationChance: 0.3,
+    plansAhead: false,
+    lookaheadMs: 0
   },
   4: {
     name: "等级 4: 八核",
     description: "高性能。能够进行多线作战。",
     actionInterval: 1200,
     maxActionsPerTick: 8,
-    hesitationChance: 0.2
+    hesitationChance: 0.2,
+    plansAhead: false,
+    lookaheadMs: 0
   },
   5: {
     name: "等级 5: 数据中心",
     description: "精英级处理能力。极少错失良机。",
     actionInterval: 1000,
     maxActionsPerTick: 16,
-    hesitationChance: 0.1
+    hesitationChance: 0.1,
+    plansAhead: true,
+    lookaheadMs: 0
   },
   6: {
     name: "等级 6: 蜂巢思维",
     description: "神一般的多任务处理能力。瞬间的全局指挥。",
     actionInterval: 1000,
     maxActionsPerTick: Infinity,
-    hesitationChance: 0.0
+    hesitationChance: 0.0,
+    plansAhead: true,
+    lookaheadMs: 0
+  },
+  7: {
+    name: "等级 7: 专家",
+    description: "在沙盒中推演每个候选方案,只执行结局最好的那一个。",
+    actionInterval: 1000,
+    maxActionsPerTick: Infinity,
+    hesitationChance: 0.0,
+    plansAhead: true,
+    lookaheadMs: 3000
+  }
+};
+
+// Every level the menus offer, easiest first
+export const DIFFICULTY_LEVELS = Object.keys(DIFFICULTY_SETTINGS).map(Number) as DifficultyLevel[];
+
+// AI Personalities
+export const AI_PERSONALITY_SETTINGS: Record<AIPersonality, { name: string, description: string }> = {
+  BALANCED: {
+    name: "均衡",
+    description: "扩张、进攻与增援兼顾的常规打法。"
+  },
+  RUSHER: {
+    name: "突袭者",
+    description: "兵力稍有积累就发起进攻,敢打势均力敌的硬仗,很少回头增援。"
+  },
+  TURTLE: {
+    name: "龟缩者",
+    description: "抢占并加固要塞,囤积重兵,只在占据压倒性优势时出击。"
+  },
+  ECONOMIST: {
+    name: "经济学家",
+    description: "优先吞并中立菌落与蜂巢,尽量避免早期冲突,靠产能取胜。"
+  },
+  OPPORTUNIST: {
+    name: "机会主义者",
+    description: "盯住正在遭受攻击、刚易手或兵力空虚的菌落趁虚而入。"
   }
 };
@@ -0,0 +1,405 @@
+import { CampaignMission, MapDefinition, MapNodeDefinition, Edge, NodeType, PlayerColor, ScriptCondition, ScriptedAI, DifficultyLevel } from '../types';
+import { MAX_CAPACITY_BASE } from '../constants';
+import { MAP_VERSION, mapToWorld } from '../services/mapFile';
+
+// --- Campaign Missions ---
+// Maps are written in the map file format with the player as BLUE on slot 0;
+// mapToWorld reseats every faction around the color the player picked.
+
+const P = PlayerColor.BLUE;
+const E = PlayerColor.RED;
+const E2 = PlayerColor.GREEN;
+const E3 = PlayerColor.PURPLE;
+const N = PlayerColor.GRAY;
+
+const node = (id: string, x: number, y: number, owner: PlayerColor, count: number, type: NodeType = 'DEFAULT'): MapNodeDefinition =>
+  ({ id, x, y, type, owner, count, capacity: MAX_CAPACITY_BASE });
+
+// 'a-b' is a permanent link, 'a~b' one the ocean currents may redraw
+const links = (...specs: string[]): Edge[] => specs.map(spec => {
+  const [source, target] = spec.split(/[-~]/);
+  return { source, target, type: spec.includes('~') ? 'RANDOM' : 'PERMANENT' };
+});
+
+const missionMap = (name: string, nodes: MapNodeDefinition[], edges: Edge[], startSlots: string[]): MapDefinition => ({
+  version: MAP_VERSION,
+  name,
+  nodes,
+  edges,
+  startSlots,
+  oceanCurrents: { enabled: true, mode: 'CLASSIC' }
+});
+
+const fight = (difficulty: DifficultyLevel): ScriptedAI => ({ type: 'FREE', difficulty });
+
+const ELIMINATE_ALL: ScriptCondition = { type: 'FACTION_ELIMINATED', faction: 'OPPONENT' };
+
+// Every mission is lost with the player's last node
+const mission = (def: Omit<CampaignMission, 'buildMap'>): CampaignMission => ({
+  defeatWhen: { type: 'FACTION_ELIMINATED', faction: 'PLAYER' },
+  ...def,
+  buildMap: playerColor => mapToWorld(def.map, playerColor, 1)
+});
+
+export const CAMPAIGN_MISSIONS: CampaignMission[] = [
+  mission({
+    id: 'm01',
+    name: '初次感染',
+    description: '消灭红色菌株。',
+    briefing: "指挥官，培养皿 Beta 出现了一株 **红色菌株**。它还很弱小，但繁殖很快。\n先吞并周围的中立群落，再一举将其根除。",
+    map: missionMap('初次感染', [
+      node('home', 200, 400, P, 30),
+      node('a', 420, 250, N, 10),
+      node('b', 420, 550, N, 10),
+      node('c', 650, 400, N, 15),
+      node('d', 800, 200, N, 10),
+      node('e', 950, 400, E, 20)
+    ], links('home-a', 'home-b', 'a-c', 'b-c', 'c-e', 'a-d', 'd-e', 'b~e'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "占领中立群落壮大兵力，然后 **消灭红色菌株**。", ai: fight(1), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '150 秒内获胜', when: { type: 'WITHIN', seconds: 150 } },
+      { text: '获胜时占有全部 6 个菌落', when: { type: 'NODE_COUNT', atLeast: 6 } }
+    ]
+  }),
+  mission({
+    id: 'm02',
+    name: '桥头堡',
+    description: '占领中央的桥头堡并坚守 60 秒。',
+    briefing: "两片菌群之间只有一处 **桥头堡**。谁控制它，谁就控制了整条前线。\n夺下它，并顶住敌军的反扑。",
+    map: missionMap('桥头堡', [
+      node('home', 180, 400, P, 40),
+      node('n1', 380, 220, N, 10),
+      node('n2', 380, 580, N, 10),
+      node('bridge', 600, 400, N, 30),
+      node('e1', 850, 250, E, 30),
+      node('e2', 850, 550, E, 30),
+      node('eh', 1050, 400, E, 40)
+    ], links('home-n1', 'home-n2', 'n1-bridge', 'n2-bridge', 'bridge-e1', 'bridge-e2', 'e1-eh', 'e2-eh', 'n1~e1', 'n2~e2'), ['home', 'eh']),
+    steps: [
+      { id: 0, text: "占领中央的 **桥头堡**，并坚守 **60 秒**。", targetNodeId: 'bridge', ai: fight(2), completeWhen: { type: 'NODE_HELD', nodeId: 'bridge', seconds: 60 } }
+    ],
+    bonuses: [
+      { text: '120 秒内完成', when: { type: 'WITHIN', seconds: 120 } },
+      { text: '完成时占有至少 5 个菌落', when: { type: 'NODE_COUNT', atLeast: 5 } }
+    ]
+  }),
+  mission({
+    id: 'm03',
+    name: '虫巢之争',
+    description: '占领全部三座虫巢。',
+    briefing: "侦测到三座无主的 **虫巢**。虫巢的分裂速度远超普通菌落。\n抢在红色菌株之前把它们全部收入囊中。",
+    map: missionMap('虫巢之争', [
+      node('home', 200, 400, P, 40),
+      node('h1', 450, 180, N, 20, 'HIVE'),
+      node('h2', 450, 620, N, 20, 'HIVE'),
+      node('mid', 600, 400, N, 15),
+      node('n1', 750, 180, N, 10),
+      node('n2', 750, 620, N, 10),
+      node('h3', 800, 400, N, 25, 'HIVE'),
+      node('e', 1000, 400, E, 40)
+    ], links('home-h1', 'home-h2', 'home-mid', 'h1-mid', 'h2-mid', 'mid-h3', 'h1-n1', 'n1-h3', 'h2-n2', 'n2-h3', 'h3-e', 'n1-e', 'n2-e'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "占领地图上的 **全部三座虫巢**。", ai: fight(2), completeWhen: { type: 'TYPE_OWNED', nodeType: 'HIVE' } }
+    ],
+    bonuses: [
+      { text: '180 秒内完成', when: { type: 'WITHIN', seconds: 180 } },
+      { text: '同时攻占敌方母体', when: { type: 'NODE_OWNED', nodeId: 'e' } }
+    ]
+  }),
+  mission({
+    id: 'm04',
+    name: '最后防线',
+    description: '依托要塞坚守 5 分钟。',
+    briefing: "红色菌株的主力正向我方推进，兵力是我们的数倍。\n两座 **要塞** 是唯一的屏障：攻入要塞的孢子只能造成一半伤害。**坚守 5 分钟**。",
+    map: missionMap('最后防线', [
+      node('core', 250, 400, P, 50),
+      node('f1', 450, 250, P, 40, 'FORTRESS'),
+      node('f2', 450, 550, P, 40, 'FORTRESS'),
+      node('n1', 650, 150, N, 15),
+      node('n2', 650, 650, N, 15),
+      node('n3', 700, 400, N, 20),
+      node('e1', 950, 200, E, 60),
+      node('e2', 950, 600, E, 60),
+      node('eh', 1080, 400, E, 80)
+    ], links('core-f1', 'core-f2', 'f1-f2', 'f1-n1', 'f1-n3', 'f2-n2', 'f2-n3', 'n1-e1', 'n3-e1', 'n3-e2', 'n2-e2', 'e1-eh', 'e2-eh'), ['core', 'eh']),
+    steps: [
+      { id: 0, text: "敌军主力压境。依托要塞，**坚守 5 分钟**。", ai: fight(3), completeWhen: { type: 'ANY', conditions: [{ type: 'TIME_ELAPSED', seconds: 300 }, ELIMINATE_ALL] } }
+    ],
+    bonuses: [
+      { text: '母体群落最终仍在手中', when: { type: 'NODE_OWNED', nodeId: 'core' } },
+      { text: '完成时占有至少 5 个菌落', when: { type: 'NODE_COUNT', atLeast: 5 } }
+    ]
+  }),
+  mission({
+    id: 'm05',
+    name: '要塞防线',
+    description: '攻破敌军的三座要塞。',
+    briefing: "敌军在培养皿中部筑起了一道 **要塞防线**。\n攻打要塞需要 **两倍兵力**：先在后方积蓄力量，再集中突破。",
+    map: missionMap('要塞防线', [
+      node('home', 150, 400, P, 60),
+      node('h', 200, 650, N, 20, 'HIVE'),
+      node('n1', 350, 200, N, 10),
+      node('n2', 350, 600, N, 10),
+      node('n3', 450, 400, N, 15),
+      node('f1', 700, 180, E, 30, 'FORTRESS'),
+      node('f2', 700, 400, E, 30, 'FORTRESS'),
+      node('f3', 700, 620, E, 30, 'FORTRESS'),
+      node('e', 1000, 400, E, 40)
+    ], links('home-n1', 'home-n2', 'home-n3', 'home-h', 'h-n2', 'n1-n3', 'n2-n3', 'n1-f1', 'n3-f2', 'n2-f3', 'f1-f2', 'f2-f3', 'f1-e', 'f2-e', 'f3-e'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "攻破敌军的 **三座要塞**。攻打要塞需要 **两倍兵力**。", ai: fight(3), completeWhen: { type: 'TYPE_OWNED', nodeType: 'FORTRESS' } }
+    ],
+    bonuses: [
+      { text: '240 秒内完成', when: { type: 'WITHIN', seconds: 240 } },
+      { text: '同时攻占敌方母体', when: { type: 'NODE_OWNED', nodeId: 'e' } }
+    ]
+  }),
+  mission({
+    id: 'm06',
+    name: '洋流群岛',
+    description: '穿越群岛，消灭敌军。',
+    briefing: "这片培养皿被洋流分割成 **三座群岛**，之间只有一条 **永久航道**。\n洋流会不断开辟又冲断临时连接，抓住时机。",
+    map: missionMap('洋流群岛', [
+      node('home', 160, 250, P, 40),
+      node('l1', 160, 550, N, 10),
+      node('l2', 360, 400, N, 15),
+      node('m1', 600, 200, N, 20),
+      node('m2', 600, 600, N, 20),
+      node('m3', 600, 400, N, 25, 'HIVE'),
+      node('r1', 1040, 250, N, 10),
+      node('r2', 840, 400, N, 15),
+      node('e', 1040, 550, E, 40)
+    ], links('home-l1', 'home-l2', 'l1-l2', 'l2-m3', 'm1-m3', 'm2-m3', 'm3-r2', 'r2-r1', 'r2-e', 'r1-e', 'l2~m1', 'l2~m2', 'm1~r2', 'm2~r2', 'home~m1'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "利用洋流开辟的临时连接穿越群岛，**消灭敌军**。", ai: fight(3), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '获胜时控制中央虫巢', when: { type: 'TYPE_OWNED', nodeType: 'HIVE' } },
+      { text: '240 秒内获胜', when: { type: 'WITHIN', seconds: 240 } }
+    ]
+  }),
+  mission({
+    id: 'm07',
+    name: '双线作战',
+    description: '同时面对两支菌株，消灭所有敌军。',
+    briefing: "红色与 **绿色菌株** 同时出现在我方两翼。\n它们彼此也是敌人：不要同时与两者开战。",
+    map: missionMap('双线作战', [
+      node('home', 600, 650, P, 50),
+      node('a', 400, 500, N, 10),
+      node('b', 800, 500, N, 10),
+      node('c', 600, 400, N, 20),
+      node('top', 600, 150, N, 25, 'HIVE'),
+      node('r1', 300, 350, N, 10),
+      node('r', 200, 200, E, 40),
+      node('g1', 900, 350, N, 10),
+      node('g', 1000, 200, E2, 40)
+    ], links('home-a', 'home-b', 'home-c', 'a-c', 'b-c', 'a-r1', 'r1-r', 'b-g1', 'g1-g', 'c-top', 'r-top', 'g-top', 'r1~c', 'g1~c'), ['home', 'r', 'g']),
+    steps: [
+      { id: 0, text: "两支敌对菌株从左右两翼夹击。**消灭所有敌军**。", ai: fight(3), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '300 秒内获胜', when: { type: 'WITHIN', seconds: 300 } },
+      { text: '获胜时占有至少 7 个菌落', when: { type: 'NODE_COUNT', atLeast: 7 } }
+    ]
+  }),
+  mission({
+    id: 'm08',
+    name: '斩首行动',
+    description: '攻占敌军指挥中枢。',
+    briefing: "敌军的 **指挥中枢** 藏在防线后方的右上角。\n不必全歼敌军：拿下中枢，整条防线就会瓦解。",
+    map: missionMap('斩首行动', [
+      node('home', 150, 650, P, 60),
+      node('n1', 350, 550, N, 10),
+      node('n2', 250, 400, N, 10),
+      node('g1', 550, 450, E, 30),
+      node('g2', 450, 250, E, 30),
+      node('f', 750, 350, E, 40, 'FORTRESS'),
+      node('o1', 900, 500, E, 25),
+      node('o2', 700, 150, E, 25),
+      node('cap', 1000, 150, E, 80)
+    ], links('home-n1', 'home-n2', 'n1-n2', 'n1-g1', 'n2-g2', 'g1-g2', 'g1-f', 'g2-o2', 'f-o2', 'f-o1', 'f-cap', 'o2-cap', 'o1-cap', 'g1~o1'), ['home', 'cap']),
+    steps: [
+      { id: 0, text: "敌军指挥中枢位于右上角。**攻占敌方母体**。", targetNodeId: 'cap', ai: fight(4), completeWhen: { type: 'NODE_OWNED', nodeId: 'cap' } }
+    ],
+    bonuses: [
+      { text: '180 秒内完成', when: { type: 'WITHIN', seconds: 180 } },
+      { text: '同时攻占中路要塞', when: { type: 'NODE_OWNED', nodeId: 'f' } }
+    ]
+  }),
+  mission({
+    id: 'm09',
+    name: '中枢争夺',
+    description: '夺取中枢要塞并坚守 90 秒。',
+    briefing: "培养皿中央的 **中枢要塞** 连通每一条通道，三方都对它虎视眈眈。\n夺下它，然后在两面夹击中坚持下去。",
+    map: missionMap('中枢争夺', [
+      node('nexus', 600, 400, N, 40, 'FORTRESS'),
+      node('home', 200, 650, P, 40),
+      node('p1', 380, 560, N, 10),
+      node('h2', 600, 680, N, 20, 'HIVE'),
+      node('r', 200, 150, E, 40),
+      node('r1', 380, 240, N, 10),
+      node('h1', 600, 120, N, 20, 'HIVE'),
+      node('g1', 820, 400, N, 10),
+      node('g', 1000, 400, E2, 40)
+    ], links('home-p1', 'p1-nexus', 'p1-h2', 'h2-g1', 'r-r1', 'r1-nexus', 'r1-h1', 'h1-g1', 'g-g1', 'g1-nexus'), ['home', 'r', 'g']),
+    steps: [
+      { id: 0, text: "夺下中央的 **中枢要塞**，并坚守 **90 秒**。", targetNodeId: 'nexus', ai: fight(3), completeWhen: { type: 'NODE_HELD', nodeId: 'nexus', seconds: 90 } }
+    ],
+    bonuses: [
+      { text: '240 秒内完成', when: { type: 'WITHIN', seconds: 240 } },
+      { text: '完成时控制全部虫巢', when: { type: 'TYPE_OWNED', nodeType: 'HIVE' } }
+    ]
+  }),
+  mission({
+    id: 'm10',
+    name: '虫巢风暴',
+    description: '夺取敌军的三座虫巢，再消灭残余敌军。',
+    briefing: "红色菌株占据了三座 **虫巢**，兵力源源不断。\n正面硬拼毫无胜算：先切断它的兵源。",
+    map: missionMap('虫巢风暴', [
+      node('home', 150, 400, P, 50),
+      node('n1', 330, 230, N, 10),
+      node('n2', 330, 570, N, 10),
+      node('f', 420, 400, P, 30, 'FORTRESS'),
+      node('h1', 650, 200, E, 30, 'HIVE'),
+      node('h2', 650, 600, E, 30, 'HIVE'),
+      node('h3', 850, 400, E, 30, 'HIVE'),
+      node('e', 1050, 400, E, 40)
+    ], links('home-n1', 'home-n2', 'home-f', 'n1-f', 'n2-f', 'n1-h1', 'f-h1', 'f-h2', 'n2-h2', 'h1-h3', 'h2-h3', 'h3-e', 'h1-e', 'h2-e'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "敌军的兵力来自 **三座虫巢**。逐一夺取它们。", ai: fight(4), completeWhen: { type: 'TYPE_OWNED', nodeType: 'HIVE' } },
+      { id: 1, text: "兵源已断。**消灭残余敌军**。", ai: fight(4), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '300 秒内获胜', when: { type: 'WITHIN', seconds: 300 } },
+      { text: '获胜时前线要塞仍在手中', when: { type: 'NODE_OWNED', nodeId: 'f' } }
+    ]
+  }),
+  mission({
+    id: 'm11',
+    name: '潮汐',
+    description: '在剧烈的洋流中坚守 3 分钟。',
+    briefing: "剧烈的 **潮汐** 正在撕裂培养基，大部分连接随时可能断开。\n只有外围的永久通道可靠。**坚守 3 分钟**，等待援军。",
+    map: missionMap('潮汐', [
+      node('home', 200, 400, P, 40),
+      node('a', 400, 200, P, 20),
+      node('b', 400, 600, P, 20),
+      node('x', 600, 120, N, 10),
+      node('c', 600, 400, N, 15),
+      node('y', 600, 680, N, 10),
+      node('r1', 800, 200, E, 30),
+      node('r2', 800, 600, E, 30),
+      node('e', 1000, 400, E, 60)
+    ], links('home-a', 'home-b', 'a-x', 'x-r1', 'c-x', 'b-y', 'y-r2', 'r1-e', 'r2-e', 'home~c', 'a~c', 'b~c', 'c~r1', 'c~r2', 'c~e'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "潮汐正在撕裂培养基。**坚守 3 分钟**。", ai: fight(4), completeWhen: { type: 'ANY', conditions: [{ type: 'TIME_ELAPSED', seconds: 180 }, ELIMINATE_ALL] } }
+    ],
+    bonuses: [
+      { text: '完成时占有至少 4 个菌落', when: { type: 'NODE_COUNT', atLeast: 4 } },
+      { text: '母体群落最终仍在手中', when: { type: 'NODE_OWNED', nodeId: 'home' } }
+    ]
+  }),
+  mission({
+    id: 'm12',
+    name: '围城',
+    description: '突破四座要塞，消灭敌军。',
+    briefing: "敌军龟缩在 **四座要塞** 围成的堡垒中。\n围而不攻只会让它越来越强：集中兵力，从一点打开缺口。",
+    map: missionMap('围城', [
+      node('home', 150, 400, P, 60),
+      node('h', 150, 700, N, 20, 'HIVE'),
+      node('n1', 300, 200, N, 15),
+      node('n2', 300, 600, N, 15),
+      node('f1', 700, 200, E, 40, 'FORTRESS'),
+      node('f2', 900, 400, E, 40, 'FORTRESS'),
+      node('f3', 700, 600, E, 40, 'FORTRESS'),
+      node('f4', 500, 400, E, 40, 'FORTRESS'),
+      node('e', 700, 400, E, 80),
+      node('o', 1050, 150, N, 20)
+    ], links('home-n1', 'home-n2', 'home-h', 'n1-f4', 'n2-f4', 'n1-f1', 'n2-f3', 'f4-e', 'f1-e', 'f2-e', 'f3-e', 'f1-f2', 'f2-f3', 'f3-f4', 'f4-f1', 'f2-o', 'f1-o'), ['home', 'e']),
+    steps: [
+      { id: 0, text: "敌军龟缩在 **四座要塞** 之后。打开缺口，**消灭敌军**。", ai: fight(4), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '360 秒内获胜', when: { type: 'WITHIN', seconds: 360 } },
+      { text: '获胜时占有全部 10 个菌落', when: { type: 'NODE_COUNT', atLeast: 10 } }
+    ]
+  }),
+  mission({
+    id: 'm13',
+    name: '三方混战',
+    description: '四株菌群同处一皿，消灭所有敌军。',
+    briefing: "红、绿、紫三株敌对菌群与我们同处一皿，各据一角。\n中央的 **虫巢** 是所有人的目标。让敌人先互相消耗。",
+    map: missionMap('三方混战', [
+      node('home', 150, 650, P, 50),
+      node('r', 150, 150, E, 50),
+      node('g', 1050, 150, E2, 50),
+      node('pu', 1050, 650, E3, 50),
+      node('c', 600, 400, N, 30, 'HIVE'),
+      node('a', 400, 520, N, 15),
+      node('b', 400, 280, N, 15),
+      node('d', 800, 280, N, 15),
+      node('f', 800, 520, N, 15)
+    ], links('home-a', 'r-b', 'g-d', 'pu-f', 'a-c', 'b-c', 'd-c', 'f-c', 'a-b', 'b-d', 'd-f', 'f-a'), ['home', 'r', 'g', 'pu']),
+    steps: [
+      { id: 0, text: "只有一株菌群能够存活。**消灭所有敌军**。", ai: fight(4), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '获胜时控制中央虫巢', when: { type: 'TYPE_OWNED', nodeType: 'HIVE' } },
+      { text: '420 秒内获胜', when: { type: 'WITHIN', seconds: 420 } }
+    ]
+  }),
+  mission({
+    id: 'm14',
+    name: '反攻',
+    description: '坚守要塞，夺回母巢，消灭敌军。',
+    briefing: "我们的 **母巢** 已经失陷，残部退守西侧的要塞。\n先稳住阵脚，再发起反攻。",
+    map: missionMap('反攻', [
+      node('refuge', 150, 400, P, 30, 'FORTRESS'),
+      node('p1', 300, 250, P, 15),
+      node('h', 300, 650, N, 20, 'HIVE'),
+      node('n1', 450, 200, N, 10),
+      node('old', 500, 550, E, 60),
+      node('n2', 700, 250, N, 10),
+      node('n3', 750, 550, N, 15),
+      node('e', 1000, 400, E, 50)
+    ], links('refuge-p1', 'refuge-h', 'p1-n1', 'p1-old', 'h-old', 'n1-n2', 'old-n3', 'n2-n3', 'n2-e', 'n3-e', 'refuge~old'), ['refuge', 'e']),
+    steps: [
+      { id: 0, text: "依托要塞 **坚守 60 秒**，积蓄力量。", ai: fight(3), completeWhen: { type: 'TIME_ELAPSED', seconds: 60 } },
+      { id: 1, text: "反攻时刻！**夺回失陷的母巢**。", targetNodeId: 'old', ai: fight(4), completeWhen: { type: 'NODE_OWNED', nodeId: 'old' } },
+      { id: 2, text: "乘胜追击，**消灭敌军**。", ai: fight(4), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '300 秒内获胜', when: { type: 'WITHIN', seconds: 300 } },
+      { text: '夺回的母巢坚守至少 60 秒', when: { type: 'NODE_HELD', nodeId: 'old', seconds: 60 } }
+    ]
+  }),
+  mission({
+    id: 'm15',
+    name: '最终菌株',
+    description: '夺取全部虫巢，消灭三支敌军。',
+    briefing: "三支最强的敌对菌株联手占据了培养皿的北方。\n这是最后一战：先夺取 **全部四座虫巢**，再把它们彻底根除。",
+    map: missionMap('最终菌株', [
+      node('home', 600, 720, P, 60),
+      node('a', 400, 600, N, 15),
+      node('b', 800, 600, N, 15),
+      node('hc', 600, 400, N, 30, 'HIVE'),
+      node('r1', 300, 400, N, 15),
+      node('r', 150, 250, E, 60),
+      node('rh', 300, 120, E, 30, 'HIVE'),
+      node('g1', 900, 400, N, 15),
+      node('g', 1050, 250, E2, 60),
+      node('gh', 900, 120, E2, 30, 'HIVE'),
+      node('pf', 600, 230, E3, 40, 'FORTRESS'),
+      node('pu', 600, 80, E3, 60)
+    ], links('home-a', 'home-b', 'a-hc', 'b-hc', 'a-r1', 'b-g1', 'r1-r', 'r1-hc', 'g1-g', 'g1-hc', 'r-rh', 'g-gh', 'rh-pu', 'gh-pu', 'pu-pf', 'pf-hc', 'pf-rh', 'pf-gh'), ['home', 'r', 'g', 'pu']),
+    steps: [
+      { id: 0, text: "夺取培养皿上的 **全部四座虫巢**。", ai: fight(5), completeWhen: { type: 'TYPE_OWNED', nodeType: 'HIVE' } },
+      { id: 1, text: "敌军已是强弩之末。**消灭所有敌军**。", ai: fight(5), completeWhen: ELIMINATE_ALL }
+    ],
+    bonuses: [
+      { text: '600 秒内获胜', when: { type: 'WITHIN', seconds: 600 } },
+      { text: '获胜时占有全部 12 个菌落', when: { type: 'NODE_COUNT', atLeast: 12 } }
+    ]
+  })
+];
@@ -0,0 +1,29 @@
+import { ScenarioScript } from '../types';
+import { generateTutorialMap } from '../services/gameLogic';
+import { TUTORIAL_STEPS } from './tutorialSteps';
+import { FORTRESS_CHAPTER, HIVE_CHAPTER, COLLISION_CHAPTER, CURRENTS_CHAPTER } from './tutorialChapters';
+import { CAMPAIGN_MISSIONS } from './campaign';
+
+export const TUTORIAL_SCENARIO: ScenarioScript = {
+  id: 'basics',
+  name: '基础训练',
+  description: '选择、派遣、占领与持续输送。指挥官的第一课。',
+  buildMap: generateTutorialMap,
+  steps: TUTORIAL_STEPS
+};
+
+// In the order the chapter select lists them
+export const TUTORIAL_CHAPTERS: ScenarioScript[] = [
+  TUTORIAL_SCENARIO,
+  FORTRESS_CHAPTER,
+  HIVE_CHAPTER,
+  COLLISION_CHAPTER,
+  CURRENTS_CHAPTER
+];
+
+// Looked up by id, so the worker can be told which script to run
+export const SCENARIOS: Record<string, ScenarioScript> = Object.fromEntries(
+  [...TUTORIAL_CHAPTERS, ...CAMPAIGN_MISSIONS].map(script => [script.id, script])
+);
+
+export const isTutorialChapter = (id: string): boolean => TUTORIAL_CHAPTERS.some(chapter => chapter.id === id);
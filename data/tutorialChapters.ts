@@ -0,0 +1,157 @@
+import { ScenarioScript } from '../types';
+import { buildFortressChapterMap, buildHiveChapterMap, buildCollisionChapterMap, buildCurrentsChapterMap } from '../services/tutorialMaps';
+
+// Advanced chapters, played after the basic tutorial. Each opens with an idle
+// opponent and finishes against the regular AI at its gentlest setting.
+
+export const FORTRESS_CHAPTER: ScenarioScript = {
+  id: 'fortress',
+  name: '要塞攻防',
+  description: '要塞只承受一半伤害。学会守住它, 再学会攻破它。',
+  buildMap: buildFortressChapterMap,
+  defeatWhen: { type: 'FACTION_ELIMINATED', faction: 'PLAYER' },
+  steps: [
+    {
+      id: 0,
+      text: "【要塞】八角形的菌落是 **要塞**。攻入要塞的孢子只能造成 **一半伤害**。",
+      requiredAction: 'NEXT',
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 1,
+      text: "侦测到敌军冲击！观察你的 **要塞** 承受攻击时兵力下降得有多慢。",
+      targetNodeId: 'fortress-player-keep',
+      ai: { type: 'ORDERS', orders: [{ from: 'fortress-enemy', to: 'fortress-player-keep' }] },
+      completeWhen: { type: 'TIME_ELAPSED', seconds: 6 },
+      lockOrders: true
+    },
+    {
+      id: 2,
+      text: "轮到你了。攻破敌方要塞需要 **两倍兵力**。从母体群落持续派兵，**夺取敌方要塞**。",
+      requiredAction: 'CAPTURE',
+      targetNodeId: 'fortress-enemy-keep',
+      completeWhen: { type: 'NODE_OWNED', nodeId: 'fortress-enemy-keep' }
+    },
+    {
+      id: 3,
+      text: "敌军开始自主行动。依托两座要塞稳住阵线，**彻底根除敌军**。",
+      requiredAction: 'WIN',
+      targetNodeId: 'fortress-enemy',
+      ai: { type: 'FREE', difficulty: 1 },
+      completeWhen: { type: 'FACTION_ELIMINATED', faction: 'OPPONENT' }
+    }
+  ]
+};
+
+export const HIVE_CHAPTER: ScenarioScript = {
+  id: 'hive',
+  name: '虫巢增殖',
+  description: '虫巢的分裂速度远超普通菌落。抢下它, 让它为你源源不断地产兵。',
+  buildMap: buildHiveChapterMap,
+  defeatWhen: { type: 'FACTION_ELIMINATED', faction: 'PLAYER' },
+  steps: [
+    {
+      id: 0,
+      text: "【虫巢】三爪形的菌落是 **虫巢**。它的细胞分裂速度比普通菌落快 **60%**。",
+      requiredAction: 'NEXT',
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 1,
+      text: "抢在敌军之前，**占领上方的虫巢**。",
+      requiredAction: 'CAPTURE',
+      targetNodeId: 'hive-neutral',
+      completeWhen: { type: 'NODE_OWNED', nodeId: 'hive-neutral' }
+    },
+    {
+      id: 2,
+      text: "对比虫巢与普通菌落的增长速度。把虫巢留在后方，作为你的 **兵工厂**。",
+      targetNodeId: 'hive-neutral',
+      completeWhen: { type: 'TIME_ELAPSED', seconds: 8 }
+    },
+    {
+      id: 3,
+      text: "敌军察觉到了威胁。用虫巢的兵力持续输送到前线，**彻底根除敌军**。",
+      requiredAction: 'WIN',
+      targetNodeId: 'hive-enemy',
+      ai: { type: 'FREE', difficulty: 1 },
+      completeWhen: { type: 'FACTION_ELIMINATED', faction: 'OPPONENT' }
+    }
+  ]
+};
+
+export const COLLISION_CHAPTER: ScenarioScript = {
+  id: 'collisions',
+  name: '孢子对撞',
+  description: '同一条连接上相向而行的孢子会同归于尽。用反击拦截来袭的敌军。',
+  buildMap: buildCollisionChapterMap,
+  defeatWhen: { type: 'FACTION_ELIMINATED', faction: 'PLAYER' },
+  steps: [
+    {
+      id: 0,
+      text: "【对撞】同一条连接上 **相向而行** 的敌我孢子会在途中相遇并 **同归于尽**。",
+      requiredAction: 'NEXT',
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 1,
+      text: "敌军正沿直线向你进攻！立即 **向敌方母体反击**，让双方孢子在半路相撞。",
+      requiredAction: 'ATTACK',
+      targetNodeId: 'collision-enemy',
+      ai: { type: 'ORDERS', orders: [{ from: 'collision-enemy', to: 'collision-player' }], repeatSeconds: 6 },
+      completeWhen: { type: 'EVENT_SEEN', event: 'ANNIHILATION' }
+    },
+    {
+      id: 2,
+      text: "对撞让双方的兵力同时抵消。拦截来袭的孢子流，往往比硬扛冲击更划算。",
+      requiredAction: 'NEXT',
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 3,
+      text: "敌军即将全面进攻。利用对撞化解攻势，**彻底根除敌军**。",
+      requiredAction: 'WIN',
+      targetNodeId: 'collision-enemy',
+      ai: { type: 'FREE', difficulty: 1 },
+      completeWhen: { type: 'FACTION_ELIMINATED', faction: 'OPPONENT' }
+    }
+  ]
+};
+
+export const CURRENTS_CHAPTER: ScenarioScript = {
+  id: 'currents',
+  name: '洋流求生',
+  description: '洋流会冲断虚线连接。体验一次洋流，学会把补给线建在实线上。',
+  buildMap: buildCurrentsChapterMap,
+  defeatWhen: { type: 'FACTION_ELIMINATED', faction: 'PLAYER' },
+  steps: [
+    {
+      id: 0,
+      text: "【洋流】**虚线连接** 会随洋流重新排列，**实线连接** 永久存在。这一次，洋流就要来了。",
+      requiredAction: 'NEXT',
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 1,
+      text: "沿 **虚线** 向右上方的中立群落建立 **持续输送流** ([Ctrl] + 点击)。",
+      requiredAction: 'STREAM',
+      targetNodeId: 'currents-outpost',
+      completeWhen: { type: 'STREAM_ACTIVE', from: 'currents-player', to: 'currents-outpost' }
+    },
+    {
+      id: 2,
+      text: "洋流来袭！虚线被冲断，你的输送流也随之 **中断**。关键的补给线一定要走 **实线**。",
+      requiredAction: 'NEXT',
+      shiftCurrents: true,
+      completeWhen: { type: 'CONFIRM' }
+    },
+    {
+      id: 3,
+      text: "敌军开始行动。沿永久连接推进，**彻底根除敌军**。",
+      requiredAction: 'WIN',
+      targetNodeId: 'currents-enemy',
+      ai: { type: 'FREE', difficulty: 1 },
+      completeWhen: { type: 'FACTION_ELIMINATED', faction: 'OPPONENT' }
+    }
+  ]
+};
@@ -1,290 +1,404 @@
-
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { GameState, GameWorld, PlayerColor, ActiveTransfer, DifficultyLevel } from '../types';
-import { generateMap, generateTutorialMap } from '../services/gameLogic';
-import { advanceGameState, checkWinCondition } from '../services/gamePhysics';
-import { TICK_RATE_MS, OCEAN_CURRENT_INTERVAL_MS } from '../constants';
-import { TUTORIAL_STEPS } from '../data/tutorialSteps';
+import { GameState, GameWorld, PlayerColor, DifficultyLevel, MatchReplay, GameMode, CustomGameSettings, MapDefinition } from '../types';
+import { generateMap } from '../services/gameLogic';
+import { OCEAN_CURRENT_INTERVAL_MS, AUTOSAVE_INTERVAL_MS, GAME_SPEEDS, DEFAULT_CUSTOM_GAME, DEFAULT_SPECIAL_NODES, PLAYABLE_COLORS } from '../constants';
+import { SCENARIOS, TUTORIAL_SCENARIO, isTutorialChapter } from '../data/scenarios';
+import { createSeed } from '../services/random';
+import { lineUpOpponents } from '../services/aiStrategies';
+import { tickToTime } from '../services/simulationClock';
+import { readSaveGame, writeSaveGame, clearSaveGame } from '../services/saveGame';
+import { readCompletedChapters, markChapterCompleted } from '../services/tutorialProgress';
+import { readCampaignStars, recordMissionStars, missionStars, CampaignStars } from '../services/campaignProgress';
+import { decodeReplay, encodeReplay } from '../services/replay';
+import { decodeMap, encodeMap, mapToWorld, worldToMap } from '../services/mapFile';
+import { createBlankMap } from '../services/mapEditor';
+import { applyWorldDiff } from '../services/worldDiff';
+import { createEventBus } from '../services/gameEvents';
+import { SimulationCommand, SimulationMessage, ReplayStatus } from '../services/simulationProtocol';
 
 export const useGameEngine = () => {
   const [gameState, setGameState] = useState<GameState>('MENU');
   const [playerColor, setPlayerColor] = useState<PlayerColor>(PlayerColor.BLUE);
   const [difficulty, setDifficulty] = useState<DifficultyLevel>(3);
+  const [gameMode, setGameMode] = useState<GameMode>('CLASSIC');
+  const [customGame, setCustomGame] = useState<CustomGameSettings>(DEFAULT_CUSTOM_GAME);
   const [winner, setWinner] = useState<PlayerColor | null>(null);
   const [isPlayerAutoPilot, setIsPlayerAutoPilot] = useState(false);
+  const [seed, setSeed] = useState<number>(0);
+  const [gameSpeed, setGameSpeed] = useState<number>(1);
   
-  // Tutorial State
+  // Tutorial State: the worker runs the script and reports which step is showing.
+  // Campaign missions are scripts too, played outside the tutorial overlay.
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const scenarioIdRef = useRef<string | null>(null);
   const [tutorialStep, setTutorialStep] = useState<number>(0);
-  const [hasCompletedTutorial, setHasCompletedTutorial] = useState<boolean>(false);
+  const [isTutorialStepShown, setIsTutorialStepShown] = useState<boolean>(false);
+  const [completedChapters, setCompletedChapters] = useState<string[]>([]);
+
+  // Campaign State: best stars per mission, and what the last mission earned
+  const [campaignStars, setCampaignStars] = useState<CampaignStars>({});
+  const [lastMissionStars, setLastMissionStars] = useState<number | null>(null);
 
-  const worldRef = useRef<GameWorld>({ nodes: [], edges: [], payloads: [], transfers: [], latestEvents: [] });
+  // Mirror of the worker's world, patched by every diff it posts
+  const worldRef = useRef<GameWorld>({ nodes: [], edges: [], payloads: [], transfers: [], latestEvents: [], rngState: 0, mode: 'CLASSIC' });
   const [renderWorld, setRenderWorld] = useState<GameWorld>(worldRef.current);
   
-  // Timing Refs
-  const lastTickTimeRef = useRef<number>(0);
-  const lastAITimeRef = useRef<number>(0);
+  // Simulation time as last reported by the worker
+  const tickRef = useRef<number>(0);
   const nextEventTimeRef = useRef<number>(0);
-  const pauseStartTimeRef = useRef<number>(0); // Track when pause started
   const requestRef = useRef<number>(0);
 
-  const [nextCurrentTime, setNextCurrentTime] = useState<number>(0);
+  const [currentTimeLeft, setCurrentTimeLeft] = useState<number>(0);
+
+  // Replay State: the last finished match, and the viewer when watching one
+  const [lastReplay, setLastReplay] = useState<MatchReplay | null>(null);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus | null>(null);
+
+  // Save Game State
+  const [hasSavedGame, setHasSavedGame] = useState<boolean>(false);
+
+  // Map Editor State: the map being edited outlives playtests of it
+  const [editorMap, setEditorMap] = useState<MapDefinition>(createBlankMap);
+  const isPlaytestRef = useRef(false);
 
   // Load persistence
   useEffect(() => {
-    const done = localStorage.getItem('microbio_tutorial_completed');
-    if (done === 'true') setHasCompletedTutorial(true);
+    setCompletedChapters(readCompletedChapters());
+    setCampaignStars(readCampaignStars());
+    setHasSavedGame(readSaveGame() !== null);
+  }, []);
+
+  // --- Simulation Worker ---
+
+  const workerRef = useRef<Worker | null>(null);
+  // Events from every message since the last render, so no impact is dropped
+  const pendingEventsRef = useRef<GameWorld['latestEvents']>([]);
+  // Subscribers hear about events as soon as the worker reports them, not on the next render
+  const eventBusRef = useRef(createEventBus());
+
+  const send = useCallback((command: SimulationCommand) => {
+    workerRef.current?.postMessage(command);
   }, []);
 
-  const startGame = useCallback((forceTutorial = false) => {
-    const shouldRunTutorial = forceTutorial;
+  // Messages can arrive faster than the screen refreshes; render at most once per frame
+  const scheduleRender = useCallback(() => {
+    if (requestRef.current) return;
+    requestRef.current = requestAnimationFrame(() => {
+      requestRef.current = 0;
+      setRenderWorld({ ...worldRef.current, latestEvents: pendingEventsRef.current });
+      pendingEventsRef.current = [];
+      setCurrentTimeLeft(Math.max(0, Math.ceil((nextEventTimeRef.current - tickToTime(tickRef.current)) / 1000)));
+    });
+  }, []);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/simulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+      const message = e.data;
+      switch (message.type) {
+        case 'RESET':
+          worldRef.current = message.world;
+          pendingEventsRef.current = [];
+          tickRef.current = message.tick;
+          nextEventTimeRef.current = message.nextEventTime;
+          scheduleRender();
+          break;
+        case 'FRAME':
+          worldRef.current = applyWorldDiff(worldRef.current, message.diff);
+          pendingEventsRef.current.push(...message.diff.events);
+          eventBusRef.current.emit(message.diff.events);
+          tickRef.current = message.tick;
+          nextEventTimeRef.current = message.nextEventTime;
+          scheduleRender();
+          break;
+        case 'GAME_OVER':
+          setGameState(message.winner ? 'VICTORY' : 'DEFEAT');
+          setWinner(message.winner);
+          setLastReplay(message.replay);
+          if (scenarioIdRef.current) {
+            // Scripted matches are never saved, so any save belongs to another match
+            const id = scenarioIdRef.current;
+            if (message.winner && isTutorialChapter(id)) {
+              setCompletedChapters(markChapterCompleted(id));
+            } else if (message.winner) {
+              const stars = missionStars(message.bonusesMet);
+              setLastMissionStars(stars);
+              setCampaignStars(recordMissionStars(id, stars));
+            }
+            break;
+          }
+          // A finished match can't be continued
+          clearSaveGame();
+          setHasSavedGame(false);
+          break;
+        case 'SAVE':
+          // A failed write leaves the previous save in place, if there was one
+          if (writeSaveGame(message.save)) setHasSavedGame(true);
+          break;
+        case 'REPLAY_STATUS':
+          setReplayStatus(message.status);
+          break;
+        case 'SCENARIO_PROGRESS':
+          setTutorialStep(message.stepIndex);
+          setIsTutorialStepShown(message.isStepShown);
+          break;
+      }
+    };
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      cancelAnimationFrame(requestRef.current);
+      requestRef.current = 0;
+    };
+  }, [scheduleRender]);
+
+  // The worker's clock only advances while a match is actually being played
+  useEffect(() => {
+    send({ type: 'SET_RUNNING', running: gameState === 'PLAYING' || gameState === 'TUTORIAL' });
+  }, [gameState, send]);
+
+  useEffect(() => {
+    send({ type: 'SET_OPTIONS', speed: gameSpeed, isPlayerAutoPilot });
+  }, [gameSpeed, isPlayerAutoPilot, send]);
+
+  // `scriptId` runs a tutorial chapter or campaign mission; `map` plays an imported layout instead of generating one from `settings`
+  const startGame = useCallback((scriptId: string | null = null, matchSeed: number = createSeed(), settings: CustomGameSettings = customGame, map?: MapDefinition) => {
+    const script = scriptId ? SCENARIOS[scriptId] : null;
+    const shouldRunTutorial = !!script && isTutorialChapter(script.id);
+    setSeed(matchSeed);
+    isPlaytestRef.current = false;
+    scenarioIdRef.current = script ? script.id : null;
+    setScenarioId(scenarioIdRef.current);
+    setTutorialStep(0);
+    setIsTutorialStepShown(false);
+    setLastMissionStars(null);
 
     let initialWorld;
-    if (shouldRunTutorial) {
+    if (script && !shouldRunTutorial) {
+        setGameState('PLAYING');
+        const { nodes, edges, oceanCurrents } = script.buildMap(playerColor);
+        initialWorld = { nodes, edges, payloads: [], transfers: [], latestEvents: [], rngState: matchSeed, mode: 'CLASSIC', oceanCurrents };
+    } else if (script) {
         setGameState('TUTORIAL');
-        setTutorialStep(0);
         // Force Player Blue in Tutorial for simplicity with text
         setPlayerColor(PlayerColor.BLUE); 
-        const { nodes, edges } = generateTutorialMap(PlayerColor.BLUE);
-        initialWorld = { nodes, edges, payloads: [], transfers: [], latestEvents: [] };
+        const { nodes, edges } = script.buildMap(PlayerColor.BLUE);
+        initialWorld = { nodes, edges, payloads: [], transfers: [], latestEvents: [], rngState: matchSeed, mode: 'CLASSIC' };
+    } else if (map) {
+        setGameState('PLAYING');
+        initialWorld = mapToWorld(map, playerColor, matchSeed);
     } else {
         setGameState('PLAYING');
-        const generated = generateMap(playerColor);
-        initialWorld = { nodes: generated.nodes, edges: generated.edges, payloads: [], transfers: [], latestEvents: [] };
+        const { nodeCount, generator, ...forces } = settings;
+        const generated = generateMap(playerColor, matchSeed, nodeCount, gameMode, DEFAULT_SPECIAL_NODES, forces, generator);
+        initialWorld = {
+          nodes: generated.nodes, edges: generated.edges, payloads: [], transfers: [], latestEvents: [], rngState: generated.rngState, mode: gameMode,
+          ...(generated.currentLinks && { currentLinks: generated.currentLinks })
+        };
     }
-    
-    worldRef.current = initialWorld;
-    setRenderWorld(initialWorld);
+    if (!script) {
+      // Skirmish opponents play as set up; scripted matches keep the balanced AI they were written for
+      const opponents = PLAYABLE_COLORS.filter(c => c !== playerColor && initialWorld.nodes.some(n => n.owner === c));
+      initialWorld = { ...initialWorld, ...lineUpOpponents(opponents, settings.opponents, matchSeed) };
+      clearSaveGame();
+      setHasSavedGame(false);
+    }
+    setLastReplay(null);
+    setReplayStatus(null);
+
+    send({
+      type: 'START_MATCH',
+      setup: {
+        world: initialWorld,
+        seed: matchSeed,
+        playerColor: shouldRunTutorial ? PlayerColor.BLUE : playerColor,
+        difficulty,
+        isTutorial: shouldRunTutorial,
+        scenarioId: scenarioIdRef.current
+      }
+    });
     setWinner(null);
     setIsPlayerAutoPilot(false);
-    
-    const now = Date.now();
-    lastTickTimeRef.current = now;
-    lastAITimeRef.current = now;
-    
-    nextEventTimeRef.current = now + OCEAN_CURRENT_INTERVAL_MS;
-    setNextCurrentTime(nextEventTimeRef.current);
-  }, [playerColor, hasCompletedTutorial]);
+    setGameSpeed(1);
+    setCurrentTimeLeft(Math.ceil(OCEAN_CURRENT_INTERVAL_MS / 1000));
+  }, [playerColor, difficulty, gameMode, customGame, send]);
 
+  // Playtests (and replays of them) return to the editor, missions to the campaign
   const resetGame = useCallback(() => {
-    setGameState('MENU');
-  }, []);
+    send({ type: 'STOP' });
+    setReplayStatus(null);
+    const id = scenarioIdRef.current;
+    if (isPlaytestRef.current) setGameState('EDITOR');
+    else if (id && !isTutorialChapter(id)) setGameState('CAMPAIGN');
+    else setGameState('MENU');
+  }, [send]);
+
+  // --- Save & Resume ---
+
+  const continueGame = useCallback(() => {
+    const save = readSaveGame();
+    if (!save) {
+      setHasSavedGame(false);
+      return;
+    }
 
-  // New function to skip tutorial
-  const skipTutorial = useCallback(() => {
-    localStorage.setItem('microbio_tutorial_completed', 'true');
-    setHasCompletedTutorial(true);
+    send({ type: 'LOAD_SAVE', save });
+    scenarioIdRef.current = null;
+    setScenarioId(null);
+    setSeed(save.seed);
+    setPlayerColor(save.playerColor);
+    setDifficulty(save.difficulty);
+    setGameMode(save.world.mode);
+    setIsPlayerAutoPilot(save.isPlayerAutoPilot);
+    setLastReplay(null);
+    setReplayStatus(null);
+    setWinner(null);
+
+    // Resume paused so the player can get their bearings first
+    setGameState('PAUSED');
+  }, [send]);
+
+  // Autosave while a match is running (or paused); the worker answers with a SAVE message
+  useEffect(() => {
+    if (gameState !== 'PLAYING' && gameState !== 'PAUSED') return;
+
+    const interval = setInterval(() => send({ type: 'REQUEST_SAVE' }), AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [gameState, send]);
+
+  // --- Map Files ---
+
+  // Throws with a readable message if the file is not a playable map
+  const importMap = useCallback((text: string) => {
+    startGame(null, createSeed(), customGame, decodeMap(text));
+  }, [startGame, customGame]);
+
+  // Throws with a readable message if the match no longer makes a playable map
+  const exportMap = useCallback((): string | null => {
+    if (worldRef.current.nodes.length === 0) return null;
+    return encodeMap(worldToMap(worldRef.current, `microbio-${seed.toString(16).toUpperCase()}`, playerColor));
+  }, [seed, playerColor]);
+
+  // --- Map Editor ---
+
+  const openEditor = useCallback(() => {
+    send({ type: 'STOP' });
+    setGameState('EDITOR');
+  }, [send]);
+
+  const closeEditor = useCallback(() => {
+    isPlaytestRef.current = false;
     setGameState('MENU');
   }, []);
 
-  const toggleAutoPilot = useCallback(() => {
-    setIsPlayerAutoPilot(prev => !prev);
-  }, []);
+  // The editor only offers this for maps that pass decodeMap
+  const playtestMap = useCallback((map: MapDefinition) => {
+    startGame(null, createSeed(), customGame, map);
+    isPlaytestRef.current = true;
+  }, [startGame, customGame]);
 
-  const togglePause = useCallback(() => {
-    if (gameState === 'PLAYING') {
-      setGameState('PAUSED');
-      pauseStartTimeRef.current = Date.now();
-    } else if (gameState === 'PAUSED') {
-      const now = Date.now();
-      const duration = now - pauseStartTimeRef.current;
-      
-      // Shift all time-based references forward by the duration of the pause
-      lastTickTimeRef.current += duration;
-      lastAITimeRef.current += duration;
-      nextEventTimeRef.current += duration;
-      
-      // Update the exposed state for the timer UI
-      setNextCurrentTime(nextEventTimeRef.current);
-
-      // Shift individual transfer timers so they don't dump all units at once
-      const newTransfers = worldRef.current.transfers.map(t => ({
-        ...t,
-        lastSpawnTime: t.lastSpawnTime + duration
-      }));
-      
-      worldRef.current = {
-        ...worldRef.current,
-        transfers: newTransfers
-      };
-      
-      // Sync render state
-      setRenderWorld(worldRef.current);
+  // --- Campaign ---
 
-      setGameState('PLAYING');
-    }
-  }, [gameState]);
+  const openCampaign = useCallback(() => {
+    setGameState('CAMPAIGN');
+  }, []);
 
-  const handleAttack = useCallback((fromId: string, toId: string, isContinuous: boolean) => {
-    if (gameState !== 'PLAYING' && gameState !== 'TUTORIAL') return;
+  const closeCampaign = useCallback(() => {
+    setGameState('MENU');
+  }, []);
 
-    // Tutorial checks
-    if (gameState === 'TUTORIAL') {
-        const currentTask = TUTORIAL_STEPS[tutorialStep];
-        
-        // Block actions if selecting wrong things (optional, but good for guiding)
-        if (currentTask.requiredAction === 'SELECT' && fromId !== 'tutorial-player') return;
-        
-        // Advance step logic for Attack/Stream actions
-        if (currentTask.id === 2 && fromId === 'tutorial-player' && toId === 'tutorial-neutral') {
-             setTutorialStep(3);
-        }
-        if (currentTask.id === 7 && isContinuous) {
-             setTutorialStep(8);
-        }
-    }
+  // --- Replay Viewer ---
 
-    const world = worldRef.current;
-    const source = world.nodes.find(n => n.id === fromId);
-    const target = world.nodes.find(n => n.id === toId);
+  const startReplay = useCallback((replay: MatchReplay) => {
+    send({ type: 'START_REPLAY', replay });
+    scenarioIdRef.current = null;
+    setScenarioId(null);
+    setSeed(replay.seed);
+    setGameState('REPLAY');
+  }, [send]);
 
-    if (!source || !target) return;
-    if (source.owner !== playerColor) return;
+  // Throws with a readable message if the file is not a valid replay
+  const loadReplay = useCallback((text: string) => {
+    startReplay(decodeReplay(text));
+  }, [startReplay]);
 
-    const amountToSend = isContinuous ? Infinity : Math.floor(source.count / 2);
-    if (amountToSend < 1) return;
+  const exportReplay = useCallback((): string | null => {
+    return lastReplay ? encodeReplay(lastReplay) : null;
+  }, [lastReplay]);
 
-    // Check if a transfer already exists
-    const existingTransferIndex = world.transfers.findIndex(t => 
-      t.sourceId === fromId && t.targetId === toId
-    );
+  const toggleReplayPlaying = useCallback(() => {
+    send({ type: 'TOGGLE_REPLAY_PLAYING' });
+  }, [send]);
 
-    let newTransfers = [...world.transfers];
+  const seekReplay = useCallback((tick: number) => {
+    send({ type: 'SEEK_REPLAY', tick });
+  }, [send]);
 
-    if (existingTransferIndex !== -1) {
-      const existing = newTransfers[existingTransferIndex];
-      let newTotalToSend = existing.totalToSend;
+  const setReplaySpeed = useCallback((speed: number) => {
+    send({ type: 'SET_REPLAY_SPEED', speed });
+  }, [send]);
 
-      if (isContinuous) {
-        newTotalToSend = Infinity;
-      } else {
-        if (existing.totalToSend !== Infinity) {
-          newTotalToSend = existing.totalToSend + amountToSend;
-        }
-      }
+  // Skipping the basics counts as done, so the menu stops sending new players there;
+  // skipping an advanced chapter just leaves it
+  const skipTutorial = useCallback(() => {
+    if (scenarioIdRef.current === TUTORIAL_SCENARIO.id) setCompletedChapters(markChapterCompleted(TUTORIAL_SCENARIO.id));
+    setGameState('MENU');
+  }, []);
 
-      newTransfers[existingTransferIndex] = {
-        ...existing,
-        totalToSend: newTotalToSend
-      };
+  const toggleAutoPilot = useCallback(() => {
+    setIsPlayerAutoPilot(prev => !prev);
+  }, []);
 
-    } else {
-      const newTransfer: ActiveTransfer = {
-        id: `trans-${Date.now()}-${Math.random()}`,
-        sourceId: source.id,
-        targetId: target.id,
-        owner: source.owner,
-        totalToSend: amountToSend,
-        sentCount: 0,
-        lastSpawnTime: 0,
-        startX: source.x,
-        startY: source.y,
-        endX: target.x,
-        endY: target.y
-      };
-      newTransfers.push(newTransfer);
-    }
+  // Step through GAME_SPEEDS (-1 slower, +1 faster), clamped at both ends
+  const shiftGameSpeed = useCallback((direction: 1 | -1) => {
+    setGameSpeed(prev => {
+      const index = GAME_SPEEDS.indexOf(prev) + direction;
+      return GAME_SPEEDS[Math.max(0, Math.min(GAME_SPEEDS.length - 1, index))];
+    });
+  }, []);
 
-    worldRef.current = {
-      ...world,
-      transfers: newTransfers
-    };
-  }, [gameState, playerColor, tutorialStep]);
+  // Speed hotkeys: '-' slower, '+' / '=' faster
+  useEffect(() => {
+    if (gameState !== 'PLAYING' && gameState !== 'PAUSED') return;
 
-  // Special function to advance simple click-through tutorial steps
-  const nextTutorialStep = useCallback(() => {
-     if (gameState === 'TUTORIAL') {
-        const current = TUTORIAL_STEPS[tutorialStep];
-        if (current.requiredAction === 'NEXT' || current.requiredAction === 'SELECT') {
-           if (tutorialStep < TUTORIAL_STEPS.length - 1) {
-              setTutorialStep(prev => prev + 1);
-           }
-        }
-     }
-  }, [gameState, tutorialStep]);
-
-  // Check passive tutorial conditions
-  const checkTutorialConditions = (world: GameWorld) => {
-      if (gameState !== 'TUTORIAL') return;
-      
-      const currentTask = TUTORIAL_STEPS[tutorialStep];
-      
-      // Step 3: Capture Neutral
-      if (currentTask.id === 3) {
-          const neutral = world.nodes.find(n => n.id === 'tutorial-neutral');
-          if (neutral && neutral.owner === PlayerColor.BLUE) {
-              setTutorialStep(4);
-          }
-      }
-      
-      // Step 8: Win (Capture Enemy)
-      if (currentTask.id === 8) {
-          const enemy = world.nodes.find(n => n.id === 'tutorial-enemy');
-          if (enemy && enemy.owner === PlayerColor.BLUE) {
-              // Tutorial Complete
-              localStorage.setItem('microbio_tutorial_completed', 'true');
-              setHasCompletedTutorial(true);
-              setWinner(PlayerColor.BLUE);
-              setGameState('VICTORY');
-          }
-      }
-  };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.key === '-' || e.key === '_') shiftGameSpeed(-1);
+      if (e.key === '=' || e.key === '+') shiftGameSpeed(1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState, shiftGameSpeed]);
 
-  const gameLoop = useCallback(() => {
-    requestRef.current = requestAnimationFrame(gameLoop);
+  // The clock only advances while the worker is told to run, so pausing needs no time bookkeeping
+  const togglePause = useCallback(() => {
+    if (gameState === 'PLAYING') {
+      setGameState('PAUSED');
+    } else if (gameState === 'PAUSED') {
+      setGameState('PLAYING');
+    }
+  }, [gameState]);
 
+  const handleAttack = useCallback((fromId: string, toId: string, isContinuous: boolean) => {
     if (gameState !== 'PLAYING' && gameState !== 'TUTORIAL') return;
 
-    const now = Date.now();
-    if (now - lastTickTimeRef.current < TICK_RATE_MS) return;
-
-    // Physics Update
-    const { world, lastAITime, nextEventTime, hasChanges } = advanceGameState(
-      worldRef.current,
-      {
-        now,
-        lastTickTime: lastTickTimeRef.current,
-        lastAITime: lastAITimeRef.current,
-        nextEventTime: nextEventTimeRef.current,
-        playerColor: playerColor,
-        gameState,
-        difficulty,
-        isPlayerAutoPilot,
-        tutorialStep: tutorialStep // Pass step ID for AI control logic
-      }
-    );
-
-    // Tutorial Specific Checks
-    if (gameState === 'TUTORIAL') {
-        checkTutorialConditions(world);
-    } 
-    // Normal Win Check (Only if not in tutorial, or let tutorial logic handle victory)
-    else {
-        const status = checkWinCondition(world, playerColor);
-        if (status.isGameOver) {
-            setGameState(status.winner ? 'VICTORY' : 'DEFEAT');
-            setWinner(status.winner);
-        }
-    }
+    // The worker validates the order, records it for the replay and shows it to any script
+    send({ type: 'ATTACK', command: { from: fromId, to: toId, isContinuous } });
+  }, [gameState, send]);
 
-    worldRef.current = world;
-    lastTickTimeRef.current = now;
-    lastAITimeRef.current = lastAITime;
-    
-    if (nextEventTime !== nextEventTimeRef.current) {
-        nextEventTimeRef.current = nextEventTime;
-        setNextCurrentTime(nextEventTime);
-    }
-
-    if (hasChanges) {
-      setRenderWorld(world);
-    }
+  // --- Tutorial Input ---
+  // Selections and click-throughs never reach the world, so the script is told about them directly
 
-  }, [gameState, playerColor, difficulty, isPlayerAutoPilot, tutorialStep]); 
+  const nextTutorialStep = useCallback(() => {
+    if (gameState === 'TUTORIAL') send({ type: 'SCRIPT_INPUT', input: { type: 'CONFIRM' } });
+  }, [gameState, send]);
 
-  useEffect(() => {
-    requestRef.current = requestAnimationFrame(gameLoop);
-    return () => cancelAnimationFrame(requestRef.current);
-  }, [gameLoop]);
+  const selectTutorialNode = useCallback((nodeId: string) => {
+    if (gameState === 'TUTORIAL') send({ type: 'SCRIPT_INPUT', input: { type: 'SELECT', nodeId } });
+  }, [gameState, send]);
 
   return {
     gameState,
@@ -294,8 +408,15 @@ export const useGameEngine = () => {
     setPlayerColor,
     difficulty,
     setDifficulty,
+    gameMode,
+    setGameMode,
+    customGame,
+    setCustomGame,
     winner,
-    nextCurrentTime,
+    seed,
+    gameSpeed,
+    setGameSpeed,
+    currentTimeLeft,
     startGame,
     resetGame,
     handleAttack,
@@ -303,8 +424,37 @@ export const useGameEngine = () => {
     toggleAutoPilot,
     togglePause,
     skipTutorial, // Export updated function
-    tutorialStep: gameState === 'TUTORIAL' ? TUTORIAL_STEPS[tutorialStep] : null,
+    tutorialStep: gameState === 'TUTORIAL' && scenarioId && isTutorialStepShown ? SCENARIOS[scenarioId].steps[tutorialStep] : null,
+    tutorialStepCount: scenarioId ? SCENARIOS[scenarioId].steps.length : 0,
     nextTutorialStep,
-    hasCompletedTutorial
+    selectTutorialNode,
+    hasCompletedTutorial: completedChapters.includes(TUTORIAL_SCENARIO.id),
+    completedChapters,
+    tutorialName: scenarioId ? SCENARIOS[scenarioId].name : null,
+    missionObjective: (gameState === 'PLAYING' || gameState === 'PAUSED') && scenarioId && !isTutorialChapter(scenarioId) && isTutorialStepShown
+      ? SCENARIOS[scenarioId].steps[tutorialStep]
+      : null,
+    campaignStars,
+    lastMissionStars,
+    openCampaign,
+    closeCampaign,
+    hasSavedGame,
+    continueGame,
+    lastReplay,
+    replayStatus,
+    startReplay,
+    loadReplay,
+    exportReplay,
+    importMap,
+    exportMap,
+    editorMap,
+    setEditorMap,
+    openEditor,
+    closeEditor,
+    playtestMap,
+    toggleReplayPlaying,
+    seekReplay,
+    setReplaySpeed,
+    subscribeToEvents: eventBusRef.current.subscribe
   };
 };
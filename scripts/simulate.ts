@@ -0,0 +1,114 @@
+import { parseArgs } from 'node:util';
+import { DifficultyLevel, PlayerColor, GameMode, MapGeneratorId } from '../types';
+import { runHeadlessMatch, HeadlessMatchReport } from '../services/headlessMatch';
+import { createSeed } from '../services/random';
+import { DEFAULT_NODE_COUNT, DEFAULT_SPECIAL_NODES, DEFAULT_STARTING_FORCES, CUSTOM_GAME_LIMITS, MAP_GENERATOR_SETTINGS, DIFFICULTY_LEVELS } from '../constants';
+
+// Usage: npm run simulate -- [--seed N] [--difficulty 1-7] [--nodes N] [--opponents 1-4] [--mode classic|honeycomb]
+//                            [--generator scatter|rings|islands|symmetric|grid] [--fortresses N] [--hives N] [--games N] [--max-minutes N]
+// Prints one JSON document with every match report plus a win summary.
+
+const MIN_DIFFICULTY = DIFFICULTY_LEVELS[0];
+const MAX_DIFFICULTY = DIFFICULTY_LEVELS[DIFFICULTY_LEVELS.length - 1];
+
+const USAGE = `Usage: npm run simulate -- [--seed N] [--difficulty ${MIN_DIFFICULTY}-${MAX_DIFFICULTY}] [--nodes N] [--opponents 1-4] [--mode classic|honeycomb] [--generator scatter|rings|islands|symmetric|grid] [--fortresses N] [--hives N] [--games N] [--max-minutes N]`;
+
+const parseInteger = (name: string, raw: string | undefined, fallback: number, min: number, max: number): number => {
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`--${name} must be an integer between ${min} and ${max}, got "${raw}"`);
+  }
+  return value;
+};
+
+const parseMode = (raw: string | undefined): GameMode => {
+  if (raw === undefined) return 'CLASSIC';
+  const mode = raw.toUpperCase();
+  if (mode !== 'CLASSIC' && mode !== 'HONEYCOMB') {
+    throw new Error(`--mode must be classic or honeycomb, got "${raw}"`);
+  }
+  return mode;
+};
+
+const parseGenerator = (raw: string | undefined): MapGeneratorId => {
+  if (raw === undefined) return 'SCATTER';
+  const generator = raw.toUpperCase();
+  if (!(generator in MAP_GENERATOR_SETTINGS)) {
+    throw new Error(`--generator must be one of ${Object.keys(MAP_GENERATOR_SETTINGS).join(', ').toLowerCase()}, got "${raw}"`);
+  }
+  return generator as MapGeneratorId;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string' },
+      difficulty: { type: 'string' },
+      nodes: { type: 'string' },
+      opponents: { type: 'string' },
+      mode: { type: 'string' },
+      generator: { type: 'string' },
+      fortresses: { type: 'string' },
+      hives: { type: 'string' },
+      games: { type: 'string' },
+      'max-minutes': { type: 'string' }
+    }
+  });
+
+  const baseSeed = parseInteger('seed', values.seed, createSeed(), 0, 0xFFFFFFFF);
+  const difficulty = parseInteger('difficulty', values.difficulty, 3, MIN_DIFFICULTY, MAX_DIFFICULTY) as DifficultyLevel;
+  const nodeCount = parseInteger('nodes', values.nodes, DEFAULT_NODE_COUNT, CUSTOM_GAME_LIMITS.nodeCount.min, CUSTOM_GAME_LIMITS.nodeCount.max);
+  const forces = {
+    ...DEFAULT_STARTING_FORCES,
+    opponentCount: parseInteger('opponents', values.opponents, DEFAULT_STARTING_FORCES.opponentCount, CUSTOM_GAME_LIMITS.opponentCount.min, CUSTOM_GAME_LIMITS.opponentCount.max)
+  };
+  const mode = parseMode(values.mode);
+  const generator = parseGenerator(values.generator);
+  const specialNodes = {
+    ...DEFAULT_SPECIAL_NODES,
+    fortressCount: parseInteger('fortresses', values.fortresses, DEFAULT_SPECIAL_NODES.fortressCount, 0, 200),
+    hiveCount: parseInteger('hives', values.hives, DEFAULT_SPECIAL_NODES.hiveCount, 0, 200)
+  };
+  const games = parseInteger('games', values.games, 1, 1, 10000);
+  const maxMinutes = parseInteger('max-minutes', values['max-minutes'], 30, 1, 600);
+
+  const reports: HeadlessMatchReport[] = [];
+  for (let i = 0; i < games; i++) {
+    // Consecutive seeds keep a batch reproducible from its first seed alone
+    reports.push(runHeadlessMatch({
+      seed: (baseSeed + i) >>> 0,
+      difficulty,
+      nodeCount,
+      mode,
+      generator,
+      specialNodes,
+      forces,
+      maxDurationMs: maxMinutes * 60 * 1000
+    }));
+  }
+
+  const wins: Partial<Record<PlayerColor, number>> = {};
+  let draws = 0;
+  reports.forEach(r => {
+    if (r.winner) wins[r.winner] = (wins[r.winner] || 0) + 1;
+    else draws++;
+  });
+
+  const summary = {
+    games,
+    wins,
+    draws,
+    averageDurationMs: Math.round(reports.reduce((acc, r) => acc + r.durationMs, 0) / games)
+  };
+
+  console.log(JSON.stringify({ summary, matches: reports }, null, 2));
+};
+
+try {
+  main();
+} catch (err) {
+  console.error((err as Error).message);
+  console.error(USAGE);
+  process.exit(1);
+}
@@ -0,0 +1,135 @@
+import { Node, GameWorld, PlayerColor, AIMove } from '../types';
+import { DifficultyConfig, PLAYABLE_COLORS, TICK_RATE_MS } from '../constants';
+import { Rng } from './random';
+import { getNeighborIds, findNode } from './graphIndex';
+import { Temperament, planMoves, surveyBattlefield, captureCost, damageTaken } from './aiPlanner';
+
+// --- AI Lookahead ---
+// The expert tier checks its plans against the simulation itself. Every
+// candidate is played forward on a copy of the world and the one that leaves
+// the faction best placed is carried out. A play-out costs its ticks times the
+// nodes on the board, and candidates are tried best guess first for as long as
+// the faction's share of the step's budget lasts, so the long shots are the
+// ones left out, and every host leaves out the same ones.
+
+// Plays moves forward on a private copy of the world. The physics step hands
+// one to the AI, so this module never imports the simulation it is part of.
+export interface Sandbox {
+  // Never touches `world` itself; null once the clock passes `deadline`
+  playOut: (world: GameWorld, moves: AIMove[], durationMs: number, deadline?: number) => GameWorld | null;
+  budget: number; // Node-ticks of play-out this faction may spend (LOOKAHEAD_BUDGET for the whole AI step)
+  clock?: () => number; // Wall-clock ms, only for the safety net below
+}
+
+const MAX_CANDIDATES = 8;
+// Only a host far too slow for the node-tick budget ever reaches this; it keeps the best candidate so far
+const SAFETY_NET_MS = 100;
+const NODE_WORTH = 30; // Roughly what a node grows in half a minute, on top of its garrison
+
+// --- Evaluation ---
+
+const nodeWorth = (node: Node): number => NODE_WORTH * (node.type === 'HIVE' ? 1.6 : 1);
+
+// Units a faction has on the board and in flight, plus the worth of the nodes it holds.
+// Units a transfer has yet to launch are still counted at their source.
+export const positionStrength = (world: GameWorld, faction: PlayerColor): number => {
+  let strength = 0;
+  world.nodes.forEach(n => {
+    if (n.owner === faction) strength += n.count + nodeWorth(n);
+  });
+  world.payloads.forEach(p => {
+    if (p.owner === faction) strength += p.count;
+  });
+  return strength;
+};
+
+// How far a faction stands ahead of its strongest rival once the captures it
+// already has enough units heading for go through. A short look ahead would
+// otherwise see every unfinished attack as units thrown away.
+export const evaluatePosition = (world: GameWorld, faction: PlayerColor): number => {
+  const strength = new Map(PLAYABLE_COLORS.map(color => [color, positionStrength(world, color)]));
+  const field = surveyBattlefield(world);
+  world.nodes.forEach(n => {
+    if (n.owner === faction || captureCost(n, field, faction) > 0) return;
+    strength.set(faction, strength.get(faction)! + nodeWorth(n) - n.count / damageTaken(n));
+    if (n.owner !== PlayerColor.GRAY) strength.set(n.owner, strength.get(n.owner)! - nodeWorth(n) - n.count);
+  });
+  const rivals = PLAYABLE_COLORS.filter(color => color !== faction).map(color => strength.get(color)!);
+  return strength.get(faction)! - Math.max(0, ...rivals);
+};
+
+// --- Candidates ---
+
+// The planner's own plan first, then standing still, then the plan plus each
+// capture an idle node could make (most tempting first), then the plan less each of its moves
+const candidatePlans = (
+  world: GameWorld,
+  faction: PlayerColor,
+  settings: DifficultyConfig,
+  rng: Rng,
+  temperament: Temperament
+): AIMove[][] => {
+  const plan = planMoves(world, faction, settings, rng, temperament);
+  const field = surveyBattlefield(world);
+  const busy = new Set(plan.map(m => m.from));
+
+  const extras: { move: AIMove; score: number }[] = [];
+  world.nodes.forEach(source => {
+    if (source.owner !== faction || busy.has(source.id) || source.count < temperament.minSourceCount) return;
+    getNeighborIds(field.graph, source.id).forEach(id => {
+      const target = findNode(field.graph, world.nodes, id)!;
+      if (target.owner === faction) return;
+      const cost = captureCost(target, field, faction);
+      if (cost <= 0 || cost >= source.count) return;
+      extras.push({ move: { from: source.id, to: target.id, amount: cost }, score: temperament.scoreTarget(source, target, field) });
+    });
+  });
+  extras.sort((a, b) => b.score - a.score);
+
+  const candidates = [
+    plan,
+    [],
+    ...extras.map(({ move }) => [...plan, move]),
+    ...plan.map((_, i) => plan.filter((_, j) => j !== i))
+  ];
+  const seen = new Set<string>();
+  return candidates
+    .filter(moves => {
+      const key = JSON.stringify(moves);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_CANDIDATES);
+};
+
+// --- Decision ---
+
+export const lookAhead = (
+  world: GameWorld,
+  faction: PlayerColor,
+  settings: DifficultyConfig,
+  rng: Rng,
+  temperament: Temperament,
+  sandbox: Sandbox
+): AIMove[] => {
+  const playOutCost = Math.ceil(settings.lookaheadMs / TICK_RATE_MS) * world.nodes.length;
+  const affordable = Math.floor(sandbox.budget / playOutCost);
+  const candidates = candidatePlans(world, faction, settings, rng, temperament).slice(0, Math.max(1, affordable));
+  if (candidates.length === 1) return candidates[0];
+
+  const deadline = sandbox.clock && sandbox.clock() + SAFETY_NET_MS;
+  let best = candidates[0];
+  let bestValue = -Infinity;
+  for (const moves of candidates) {
+    const outcome = sandbox.playOut(world, moves, settings.lookaheadMs, deadline);
+    if (!outcome) break;
+    const value = evaluatePosition(outcome, faction);
+    // Ties go to the earlier candidate, so the plan stands unless something beats it
+    if (value > bestValue) {
+      best = moves;
+      bestValue = value;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,259 @@
+import { Node, GameWorld, PlayerColor, AIMove, ActiveTransfer } from '../types';
+import { DifficultyConfig, TICK_RATE_MS, TRAVEL_SPEED_PIXELS, GROWTH_INTERVAL_MS } from '../constants';
+import { Rng, shuffleInPlace } from './random';
+import { GraphIndex, getGraphIndex, getNeighborIds, findNode } from './graphIndex';
+import { calculateGrowthIncrement, calculateSpawnInterval, calculateUnitSpeed } from './gameLogic';
+
+// --- AI Planner ---
+// The top difficulties plan a whole faction at once instead of letting every
+// node grab its best-looking neighbour. The planner reads everything in flight,
+// holds threatened nodes, sizes each attack to what the capture takes, strikes
+// from several sides at once when no single node can afford a target, and walks
+// spare units from the interior out to the frontier.
+
+// A personality as the planners see it: who may attack and what is worth attacking
+export interface Temperament {
+  minSourceCount: number; // Smaller nodes sit still
+  scoreTarget: (source: Node, target: Node, field: Battlefield) => number; // Before the random jitter
+}
+
+// --- Battlefield ---
+
+export interface Battlefield {
+  graph: GraphIndex;
+  inbound: Map<string, Map<PlayerColor, number>>; // Units in flight or still queued toward each node, by owner
+}
+
+const KEEP_HOME = 3; // Units a node never sends away, so a stray spore can't take it
+const ECONOMY_RESERVE = 40; // Growth is at half its bonus here; interior nodes keep this much to stay productive
+const GROWTH_MARGIN = 0.1; // Owned targets grow while our units travel
+
+// Units a transfer has yet to launch; a stream runs for as long as its source holds out
+const unsent = (t: ActiveTransfer, source: Node | undefined): number =>
+  t.totalToSend === Infinity ? Math.floor(source?.count ?? 0) : t.totalToSend - t.sentCount;
+
+const addInbound = (field: Battlefield, nodeId: string, owner: PlayerColor, count: number) => {
+  if (!field.inbound.has(nodeId)) field.inbound.set(nodeId, new Map());
+  const byOwner = field.inbound.get(nodeId)!;
+  byOwner.set(owner, (byOwner.get(owner) ?? 0) + count);
+};
+
+export const surveyBattlefield = (world: GameWorld): Battlefield => {
+  const field: Battlefield = { graph: getGraphIndex(world.nodes, world.edges), inbound: new Map() };
+  world.payloads.forEach(p => addInbound(field, p.targetId, p.owner, p.count));
+  world.transfers.forEach(t => addInbound(field, t.targetId, t.owner, unsent(t, findNode(field.graph, world.nodes, t.sourceId))));
+  return field;
+};
+
+export const inboundFrom = (field: Battlefield, nodeId: string, owner: PlayerColor): number =>
+  field.inbound.get(nodeId)?.get(owner) ?? 0;
+
+// Everything heading for `node` that its owner didn't send
+export const hostileInbound = (field: Battlefield, node: Node): number => {
+  let total = 0;
+  field.inbound.get(node.id)?.forEach((count, owner) => {
+    if (owner !== node.owner) total += count;
+  });
+  return total;
+};
+
+// FORTRESS nodes take half damage
+export const damageTaken = (node: Node): number => (node.type === 'FORTRESS' ? 0.5 : 1);
+
+// Units that still have to land on `target` for `faction` to take it; zero or less once enough are on the way
+export const captureCost = (target: Node, field: Battlefield, faction: PlayerColor): number => {
+  if (target.owner === PlayerColor.GRAY) return Math.ceil(target.count + 1) - inboundFrom(field, target.id, faction);
+  const defenders = target.count + inboundFrom(field, target.id, target.owner);
+  const margin = Math.ceil(defenders * GROWTH_MARGIN) + 2;
+  return Math.ceil((defenders + margin) / damageTaken(target)) - inboundFrom(field, target.id, faction);
+};
+
+// How far `node` falls short of surviving what is heading its way
+const shortfall = (node: Node, field: Battlefield): number =>
+  Math.ceil(hostileInbound(field, node) * damageTaken(node) - node.count - inboundFrom(field, node.id, node.owner));
+
+// Own-territory hops from each of `faction`'s nodes to the nearest frontier node
+const frontierDepth = (nodes: Node[], frontier: Node[], field: Battlefield, faction: PlayerColor): Map<string, number> => {
+  const depth = new Map(frontier.map(n => [n.id, 0]));
+  const queue = frontier.map(n => n.id);
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    getNeighborIds(field.graph, id).forEach(next => {
+      if (depth.has(next) || findNode(field.graph, nodes, next)?.owner !== faction) return;
+      depth.set(next, depth.get(id)! + 1);
+      queue.push(next);
+    });
+  }
+  return depth;
+};
+
+// Milliseconds from the first launch until the last of `amount` units from `source` lands on `target`.
+// Units launch on whole ticks and the source thins out as it sends, so its middle count sets both rates.
+export const landingTime = (source: Node, target: Node, amount: number): number => {
+  const count = Math.max(1, source.count - amount / 2);
+  const gap = (Math.floor(calculateSpawnInterval(count) / TICK_RATE_MS) + 1) * TICK_RATE_MS;
+  const travelTicks = Math.ceil(Math.hypot(target.x - source.x, target.y - source.y) / calculateUnitSpeed(count, TRAVEL_SPEED_PIXELS));
+  return gap * (amount - 1) + travelTicks * TICK_RATE_MS;
+};
+
+// Units an owned `target` grows over `ms`; neutrals never grow
+const growthDuring = (target: Node, ms: number): number => {
+  if (target.owner === PlayerColor.GRAY) return 0;
+  const perTick = calculateGrowthIncrement(target.count, TICK_RATE_MS / GROWTH_INTERVAL_MS) * (target.type === 'HIVE' ? 1.6 : 1);
+  return Math.min(target.capacity - target.count, perTick * ms / TICK_RATE_MS);
+};
+
+// --- Planning ---
+
+export const planMoves = (
+  world: GameWorld,
+  faction: PlayerColor,
+  settings: DifficultyConfig,
+  rng: Rng,
+  { minSourceCount, scoreTarget }: Temperament
+): AIMove[] => {
+  const moves: AIMove[] = [];
+  const { nodes } = world;
+  const field = surveyBattlefield(world);
+  const neighboursOf = (node: Node) => Array.from(getNeighborIds(field.graph, node.id), id => findNode(field.graph, nodes, id)!);
+  const ownNodes = nodes.filter(n => n.owner === faction);
+
+  // What each node can still commit: its units, less what it is already sending
+  // and what it needs to come through the attacks heading its way
+  const outgoing = new Map<string, number>();
+  world.transfers.forEach(t => {
+    if (t.owner !== faction) return;
+    outgoing.set(t.sourceId, (outgoing.get(t.sourceId) ?? 0) + unsent(t, findNode(field.graph, nodes, t.sourceId)));
+  });
+  const spare = new Map(ownNodes.map(n => {
+    const reserve = Math.max(KEEP_HOME, Math.ceil(hostileInbound(field, n) * damageTaken(n)) + 1);
+    return [n.id, Math.floor(n.count - (outgoing.get(n.id) ?? 0)) - reserve];
+  }));
+
+  const hasSent = new Set<string>();
+  const isFull = () => moves.length >= settings.maxActionsPerTick;
+  const hesitates = () => rng.next() < settings.hesitationChance;
+  const send = (from: Node, to: Node, amount: number, delayMs = 0) => {
+    moves.push(delayMs > 0 ? { from: from.id, to: to.id, amount, delayMs } : { from: from.id, to: to.id, amount });
+    hasSent.add(from.id);
+    spare.set(from.id, spare.get(from.id)! - amount);
+    addInbound(field, to.id, faction, amount);
+  };
+
+  // 1. Defence: neighbours chip in until a threatened node will hold, cheapest rescue first.
+  // A node that can't be saved isn't fed.
+  const threatened = ownNodes
+    .map(node => ({ node, missing: shortfall(node, field) + 1 }))
+    .filter(t => t.missing > 0)
+    .sort((a, b) => a.missing - b.missing);
+  for (const { node, missing } of threatened) {
+    const helpers = neighboursOf(node)
+      .filter(n => n.owner === faction && spare.get(n.id)! > 0)
+      .sort((a, b) => spare.get(b.id)! - spare.get(a.id)!);
+    if (helpers.reduce((sum, h) => sum + spare.get(h.id)!, 0) < missing) continue;
+    let needed = missing;
+    for (const helper of helpers) {
+      if (needed <= 0 || isFull()) break;
+      if (hesitates()) continue;
+      const amount = Math.min(spare.get(helper.id)!, needed);
+      send(helper, node, amount);
+      needed -= amount;
+    }
+  }
+
+  // 2. Attack: each frontier node takes the best target it can capture on its own, sending just enough
+  const frontier = ownNodes.filter(n => neighboursOf(n).some(t => t.owner !== faction));
+  for (const source of shuffleInPlace([...frontier], rng)) {
+    if (isFull()) break;
+    if (source.count < minSourceCount || hesitates()) continue;
+
+    const budget = spare.get(source.id)!;
+    let bestTarget: Node | null = null;
+    let bestScore = -Infinity;
+    let bestCost = 0;
+    neighboursOf(source).forEach(target => {
+      if (target.owner === faction) return;
+      const cost = captureCost(target, field, faction);
+      if (cost <= 0 || cost > budget) return;
+      const score = scoreTarget(source, target, field) + rng.next() * 20;
+      if (score > bestScore) {
+        bestScore = score;
+        bestTarget = target;
+        bestCost = cost;
+      }
+    });
+
+    const threshold = source.count / source.capacity > 0.9 ? 10 : 30;
+    if (bestTarget && bestScore > threshold) {
+      send(source, bestTarget, bestCost);
+    }
+  }
+
+  // 3. Converge: a target no single node can afford is struck from several sides at once.
+  // The quicker sources hold back so that every payload lands together.
+  const canStrike = (n: Node) =>
+    n.owner === faction && !hasSent.has(n.id) && n.count >= minSourceCount && spare.get(n.id)! > 0;
+  const strikeTargets = nodes.filter(t => t.owner !== faction && neighboursOf(t).filter(canStrike).length >= 2);
+  for (const target of shuffleInPlace(strikeTargets, rng)) {
+    if (isFull()) break;
+    const cost = captureCost(target, field, faction);
+    if (cost <= 0) continue;
+
+    const sources = neighboursOf(target)
+      .filter(canStrike)
+      .sort((a, b) => spare.get(b.id)! - spare.get(a.id)!);
+    // The largest sources first, until `total` is covered; null if they can't cover it
+    const gather = (total: number) => {
+      const picked: { source: Node; amount: number; landing: number }[] = [];
+      let needed = total;
+      for (const source of sources) {
+        if (needed <= 0) break;
+        const amount = Math.min(spare.get(source.id)!, needed);
+        picked.push({ source, amount, landing: landingTime(source, target, amount) });
+        needed -= amount;
+      }
+      return needed > 0 ? null : picked;
+    };
+    const lastLanding = (picked: { landing: number }[]) => Math.max(...picked.map(p => p.landing));
+
+    // A strike takes a while to land, and an owned target keeps growing until it does
+    const firstDraft = gather(cost);
+    const strike = firstDraft && gather(cost + Math.ceil(growthDuring(target, lastLanding(firstDraft)) / damageTaken(target)));
+    if (!strike || strike.length < 2 || moves.length + strike.length > settings.maxActionsPerTick) continue;
+
+    // Judged as if one node held everything the strike brings
+    const combined = { ...strike[0].source, count: strike.reduce((sum, { source }) => sum + source.count, 0) };
+    if (scoreTarget(combined, target, field) + rng.next() * 20 <= 30 || hesitates()) continue;
+
+    const arrival = lastLanding(strike);
+    strike.forEach(({ source, amount, landing }) => send(source, target, amount, Math.round(arrival - landing)));
+  }
+
+  // 4. Logistics: interior nodes pass their surplus one hop closer to the frontier,
+  // and frontier nodes about to fill up share with the emptiest friend
+  const depth = frontierDepth(nodes, frontier, field, faction);
+  for (const node of ownNodes) {
+    if (isFull()) break;
+    if (hasSent.has(node.id)) continue;
+    const nodeDepth = depth.get(node.id);
+
+    if (nodeDepth) {
+      const surplus = Math.min(spare.get(node.id)!, Math.floor(node.count) - ECONOMY_RESERVE);
+      if (surplus < minSourceCount || hesitates()) continue;
+      const nextHop = neighboursOf(node)
+        .filter(n => depth.get(n.id) === nodeDepth - 1)
+        .sort((a, b) => a.count - b.count)[0];
+      send(node, nextHop, surplus);
+    } else if (nodeDepth === 0 && node.count / node.capacity > 0.9) {
+      const roomOf = (n: Node) => n.capacity - n.count - inboundFrom(field, n.id, faction);
+      const roomiest = neighboursOf(node)
+        .filter(n => n.owner === faction && roomOf(n) > 0)
+        .sort((a, b) => roomOf(b) - roomOf(a))[0];
+      const amount = roomiest ? Math.floor(Math.min(spare.get(node.id)! / 2, roomOf(roomiest))) : 0;
+      if (amount < 1 || hesitates()) continue;
+      send(node, roomiest, amount);
+    }
+  }
+
+  return moves;
+};
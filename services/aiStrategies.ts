@@ -0,0 +1,231 @@
+import { Node, GameWorld, PlayerColor, AIMove, AIPersonality, OpponentSetup, DifficultyLevel } from '../types';
+import { DifficultyConfig, DIFFICULTY_SETTINGS, PLAYABLE_COLORS } from '../constants';
+import { Rng, forkRng, shuffleInPlace } from './random';
+import { getNeighborIds, findNode } from './graphIndex';
+import { Temperament, surveyBattlefield, hostileInbound, damageTaken, planMoves } from './aiPlanner';
+import { Sandbox, lookAhead } from './aiLookahead';
+
+// --- AI Strategies ---
+// A strategy plans one faction's moves for one AI step. Difficulty is shared by
+// every strategy (how many nodes may act, how often they hesitate, whether the
+// faction is planned as a whole and whether the plans are played forward first);
+// the personality decides what is worth sending units to.
+
+export interface AIStrategyConfig {
+  settings: DifficultyConfig;
+  rng: Rng;
+  sandbox?: Sandbox; // Without one the expert tier trusts its plan as is
+}
+
+export type AIStrategy = (world: GameWorld, faction: PlayerColor, config: AIStrategyConfig) => AIMove[];
+
+// --- Scoring ---
+
+// The original heuristic: grab cheap neutrals, hit weaker enemies, top up small friends
+const balancedScore = (source: Node, target: Node): number => {
+  const saturation = source.count / source.capacity;
+
+  if (target.owner === PlayerColor.GRAY) {
+    let score = 100 - target.count;
+    if (saturation > 0.8) score += 50;
+    // Prefer Hive or Fortress nodes slightly
+    if (target.type === 'HIVE') score += 40;
+    if (target.type === 'FORTRESS') score += 30;
+    return score;
+  }
+
+  if (target.owner !== source.owner) {
+    const diff = source.count - target.count;
+    // Fear Fortresses if not overwhelming: effective HP is double
+    if (target.type === 'FORTRESS') {
+      const effectiveDiff = source.count - target.count * 2;
+      return effectiveDiff > 0 ? 30 + effectiveDiff : -500;
+    }
+    if (saturation > 0.9) return 100 + diff * 0.1;
+    if (diff > 0) return 50 + diff;
+    return diff > -10 ? -20 : -1000;
+  }
+
+  let score: number;
+  if (target.count < 15) score = 50 + (15 - target.count);
+  else if (target.count < target.capacity * 0.5) score = 10;
+  else score = -50;
+  if (saturation > 0.8 && target.count / target.capacity > 0.8) score = -200;
+  return score;
+};
+
+// --- Strategy Factory ---
+
+// Every acting node on its own sends half its units to its best-scoring neighbour
+const greedyMoves = (world: GameWorld, faction: PlayerColor, { settings, rng }: AIStrategyConfig, { minSourceCount, scoreTarget }: Temperament): AIMove[] => {
+  const moves: AIMove[] = [];
+  const { nodes } = world;
+  const field = surveyBattlefield(world);
+  const { graph } = field;
+
+  const ownNodes = shuffleInPlace(nodes.filter(n => n.owner === faction), rng);
+  const actingNodes = ownNodes.slice(0, settings.maxActionsPerTick === Infinity ? ownNodes.length : settings.maxActionsPerTick);
+
+  actingNodes.forEach(source => {
+    if (rng.next() < settings.hesitationChance) return;
+    if (source.count < minSourceCount) return;
+
+    let bestTarget: Node | null = null;
+    let bestScore = -Infinity;
+    getNeighborIds(graph, source.id).forEach(id => {
+      const target = findNode(graph, nodes, id)!;
+      const score = scoreTarget(source, target, field) + rng.next() * 20;
+      if (score > bestScore) {
+        bestScore = score;
+        bestTarget = target;
+      }
+    });
+
+    const threshold = source.count / source.capacity > 0.9 ? 10 : 30;
+    if (bestTarget && bestScore > threshold) {
+      if (bestScore > 50 || rng.next() > 0.3) {
+        moves.push({ from: source.id, to: (bestTarget as Node).id });
+      }
+    }
+  });
+
+  return moves;
+};
+
+const temperamentStrategy = (temperament: Temperament): AIStrategy => (world, faction, config) => {
+  const { settings, rng, sandbox } = config;
+  if (settings.lookaheadMs > 0 && sandbox) return lookAhead(world, faction, settings, rng, temperament, sandbox);
+  return settings.plansAhead
+    ? planMoves(world, faction, settings, rng, temperament)
+    : greedyMoves(world, faction, config, temperament);
+};
+
+// --- Personalities ---
+
+const balanced = temperamentStrategy({ minSourceCount: 10, scoreTarget: balancedScore });
+
+// Attacks as soon as it has anything to attack with and rarely looks back
+const rusher = temperamentStrategy({
+  minSourceCount: 6,
+  scoreTarget: (source, target) => {
+    const score = balancedScore(source, target);
+    if (target.owner === source.owner) return score - 40;
+    if (target.owner === PlayerColor.GRAY) return score - 20;
+    if (target.type === 'FORTRESS') return score;
+    const diff = source.count - target.count;
+    if (diff > 0) return Math.max(score, 70 + diff);
+    return diff > -5 ? Math.max(score, 45) : score;
+  }
+});
+
+// Takes fortresses, keeps them stocked and only strikes with overwhelming odds
+const turtle = temperamentStrategy({
+  minSourceCount: 20,
+  scoreTarget: (source, target) => {
+    const score = balancedScore(source, target);
+    if (target.owner === source.owner) {
+      return target.type === 'FORTRESS' && target.count < target.capacity * 0.8 ? Math.max(score, 60) : score;
+    }
+    if (target.owner === PlayerColor.GRAY) return target.type === 'FORTRESS' ? score + 60 : score;
+    // A node about to overflow still has to spend its units somewhere
+    const defence = target.type === 'FORTRESS' ? target.count * 2 : target.count;
+    return source.count / source.capacity > 0.9 || source.count >= defence * 2 ? score : -200;
+  }
+});
+
+// Expands into neutrals and hives first and treats war as a last resort
+const economist = temperamentStrategy({
+  minSourceCount: 10,
+  scoreTarget: (source, target) => {
+    const score = balancedScore(source, target);
+    if (target.owner === PlayerColor.GRAY) return score + (target.type === 'HIVE' ? 80 : 20);
+    if (target.owner === source.owner) {
+      return target.type === 'HIVE' && target.count < target.capacity * 0.5 ? score + 20 : score;
+    }
+    return target.type === 'HIVE' ? score + 40 : score - 30;
+  }
+});
+
+// Strikes nodes that are already under fire, freshly taken or left thin
+const opportunist = temperamentStrategy({
+  minSourceCount: 8,
+  scoreTarget: (source, target, field) => {
+    const score = balancedScore(source, target);
+    if (target.owner === PlayerColor.GRAY || target.owner === source.owner) return score;
+    // Units already on their way in will have thinned the defence by the time ours land
+    const needed = (target.count - hostileInbound(field, target) * damageTaken(target)) / damageTaken(target);
+    const diff = source.count - Math.max(0, needed);
+    if (diff <= 0) return score;
+    const freshlyTaken = target.captureProgress < 1 ? 30 : 0;
+    return Math.max(score, 70 + diff + freshlyTaken);
+  }
+});
+
+export const AI_STRATEGIES: Record<AIPersonality, AIStrategy> = {
+  BALANCED: balanced,
+  RUSHER: rusher,
+  TURTLE: turtle,
+  ECONOMIST: economist,
+  OPPORTUNIST: opportunist
+};
+
+// --- Factions ---
+
+// Factions the AI plays for: everyone still on the board except the player,
+// unless the player has handed over to the autopilot
+export const getAIFactions = (nodes: Node[], playerColor: PlayerColor, isPlayerAutoPilot: boolean): PlayerColor[] =>
+  PLAYABLE_COLORS.filter(color =>
+    (isPlayerAutoPilot || color !== playerColor) && nodes.some(n => n.owner === color)
+  );
+
+// A faction's own difficulty from the setup screen, or the match difficulty
+export const getFactionDifficulty = (world: GameWorld, faction: PlayerColor, matchDifficulty: DifficultyLevel): DifficultyLevel =>
+  world.aiDifficulties?.[faction] ?? matchDifficulty;
+
+// Every faction plays its own personality at its own difficulty, in the given
+// order so the shared rng stream (and therefore the match) stays reproducible.
+// The factions that look ahead split the sandbox's budget evenly.
+export const calculateAIMoves = (
+  world: GameWorld, 
+  factions: PlayerColor[], 
+  matchDifficulty: DifficultyLevel,
+  rng: Rng,
+  sandbox?: Sandbox
+): AIMove[] => {
+  const settingsOf = (faction: PlayerColor) => DIFFICULTY_SETTINGS[getFactionDifficulty(world, faction, matchDifficulty)];
+  const lookers = factions.filter(faction => settingsOf(faction).lookaheadMs > 0).length;
+  const share = sandbox && lookers > 0 ? { ...sandbox, budget: sandbox.budget / lookers } : sandbox;
+  return factions.flatMap(faction => {
+    const strategy = AI_STRATEGIES[world.aiPersonalities?.[faction] ?? 'BALANCED'];
+    return strategy(world, faction, { settings: settingsOf(faction), rng, sandbox: share });
+  });
+};
+
+// --- Assignment ---
+
+const OPPONENT_PERSONALITIES: AIPersonality[] = ['RUSHER', 'TURTLE', 'ECONOMIST', 'OPPORTUNIST'];
+const PERSONALITY_SALT = 0x5EED;
+
+// Hands each opponent a different character (cycling once all are taken), fixed by the match seed
+export const pickPersonalities = (factions: PlayerColor[], seed: number): Partial<Record<PlayerColor, AIPersonality>> => {
+  const pool = shuffleInPlace([...OPPONENT_PERSONALITIES], forkRng(seed, PERSONALITY_SALT));
+  return Object.fromEntries(factions.map((faction, i) => [faction, pool[i % pool.length]]));
+};
+
+// The setup screen's picks for the opponents on the board. Unset personalities
+// come from the seed; unset difficulties are left to the match difficulty.
+export const lineUpOpponents = (
+  factions: PlayerColor[],
+  setups: Partial<Record<PlayerColor, OpponentSetup>>,
+  seed: number
+): Pick<GameWorld, 'aiPersonalities' | 'aiDifficulties'> => {
+  const drawn = pickPersonalities(factions, seed);
+  const aiPersonalities: Partial<Record<PlayerColor, AIPersonality>> = {};
+  const aiDifficulties: Partial<Record<PlayerColor, DifficultyLevel>> = {};
+  factions.forEach(faction => {
+    aiPersonalities[faction] = setups[faction]?.personality ?? drawn[faction];
+    const difficulty = setups[faction]?.difficulty;
+    if (difficulty) aiDifficulties[faction] = difficulty;
+  });
+  return { aiPersonalities, aiDifficulties };
+};
@@ -0,0 +1,42 @@
+import { CampaignMission } from '../types';
+
+// --- Campaign Progress ---
+// The best star rating earned on each mission, kept in localStorage. A mission
+// with no entry has never been won.
+
+export const CAMPAIGN_PROGRESS_KEY = 'microbio_campaign';
+
+export type CampaignStars = Record<string, number>;
+
+export const MAX_MISSION_STARS = 3;
+
+// One for the win, one per bonus met
+export const missionStars = (bonusesMet: boolean[]): number =>
+  Math.min(MAX_MISSION_STARS, 1 + bonusesMet.filter(Boolean).length);
+
+// Missions open in order: each needs the one before it won
+export const isMissionUnlocked = (missions: CampaignMission[], index: number, stars: CampaignStars): boolean =>
+  index === 0 || (stars[missions[index - 1].id] ?? 0) > 0;
+
+export const readCampaignStars = (): CampaignStars => {
+  const text = localStorage.getItem(CAMPAIGN_PROGRESS_KEY);
+  if (!text) return {};
+  try {
+    const raw = JSON.parse(text);
+    if (!raw || typeof raw !== 'object') return {};
+    return Object.fromEntries(Object.entries(raw).filter((entry): entry is [string, number] =>
+      Number.isInteger(entry[1]) && (entry[1] as number) > 0 && (entry[1] as number) <= MAX_MISSION_STARS
+    ));
+  } catch {
+    return {};
+  }
+};
+
+// Keeps the best rating, so replaying a mission never costs stars
+export const recordMissionStars = (id: string, stars: number): CampaignStars => {
+  const current = readCampaignStars();
+  if ((current[id] ?? 0) >= stars) return current;
+  const next = { ...current, [id]: stars };
+  localStorage.setItem(CAMPAIGN_PROGRESS_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,21 @@
+// --- Disjoint Set ---
+// Union-find over array positions, used to build spanning trees (Kruskal).
+
+export class DisjointSet {
+  parent: number[];
+  constructor(n: number) {
+    this.parent = Array.from({ length: n }, (_, i) => i);
+  }
+  find(i: number): number {
+    if (this.parent[i] === i) return i;
+    return this.parent[i] = this.find(this.parent[i]);
+  }
+  union(i: number, j: number) {
+    const rootI = this.find(i);
+    const rootJ = this.find(j);
+    if (rootI !== rootJ) this.parent[rootI] = rootJ;
+  }
+  connected(i: number, j: number) {
+    return this.find(i) === this.find(j);
+  }
+}
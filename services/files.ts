@@ -0,0 +1,11 @@
+// --- Browser File Helpers ---
+// Replays, saves and maps are exported as plain JSON text files.
+
+export const downloadTextFile = (filename: string, text: string, mimeType: string = 'application/json') => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
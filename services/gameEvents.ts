@@ -0,0 +1,51 @@
+import { GameEvent, GameEventType, GameEventOf } from '../types';
+
+// --- Game Event Bus ---
+// A single source for everything that reacts to the simulation (visuals, audio,
+// stats, achievements). Events are delivered in tick order as they are reported.
+
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>) => void;
+
+export type Unsubscribe = () => void;
+
+export interface GameEventBus {
+  // Listen to the given event types, or to everything when `types` is omitted
+  subscribe: <T extends GameEventType = GameEventType>(listener: GameEventListener<T>, types?: T[]) => Unsubscribe;
+  emit: (events: GameEvent[]) => void;
+}
+
+interface Subscription {
+  listener: (event: GameEvent) => void;
+  types: Set<GameEventType> | null;
+}
+
+export const createEventBus = (): GameEventBus => {
+  const subscriptions = new Set<Subscription>();
+
+  const subscribe = <T extends GameEventType = GameEventType>(listener: GameEventListener<T>, types?: T[]): Unsubscribe => {
+    const subscription: Subscription = {
+      listener: listener as (event: GameEvent) => void,
+      types: types ? new Set<GameEventType>(types) : null
+    };
+    subscriptions.add(subscription);
+    return () => {
+      subscriptions.delete(subscription);
+    };
+  };
+
+  const emit = (events: GameEvent[]) => {
+    events.forEach(event => {
+      subscriptions.forEach(({ listener, types }) => {
+        if (types && !types.has(event.type)) return;
+        // One broken listener must not starve the others
+        try {
+          listener(event);
+        } catch (err) {
+          console.error(err);
+        }
+      });
+    });
+  };
+
+  return { subscribe, emit };
+};
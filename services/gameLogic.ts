@@ -1,89 +1,122 @@
 
-import { forceSimulation, forceManyBody, forceCollide, forceX, forceY, SimulationNodeDatum } from 'd3-force';
-import { Node, Edge, PlayerColor, GameWorld, DifficultyLevel, NodeType } from '../types';
-import { GAME_WIDTH, GAME_HEIGHT, INITIAL_PLAYER_COUNT, NODE_RADIUS_BASE, PLAYABLE_COLORS, MAX_CAPACITY_BASE, BASE_SPAWN_INTERVAL_MS, DIFFICULTY_SETTINGS } from '../constants';
+import { Node, Edge, NodeLink, PlayerColor, NodeType, GameMode, SpecialNodeOptions, StartingForces, MapGeneratorId } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, DEFAULT_NODE_COUNT, NODE_RADIUS_BASE, PLAYABLE_COLORS, MAX_CAPACITY_BASE, BASE_SPAWN_INTERVAL_MS, DEFAULT_SPECIAL_NODES, DEFAULT_STARTING_FORCES } from '../constants';
+import { Rng, createRng, shuffleInPlace } from './random';
+import { edgeKey, getGraphIndex, getNeighborIds, buildGraphIndex, hopDistances } from './graphIndex';
+import { DisjointSet } from './disjointSet';
+import { MAP_GENERATORS, MapLayout, honeycombGenerator } from './mapGenerators';
 
 // --- Map Generation ---
 
-interface SimNode extends SimulationNodeDatum {
-  id: string;
-  r: number;
-  x?: number;
-  y?: number;
-}
+// The colors a generated match seats besides the player, in seating order
+export const getOpponentColors = (playerColor: PlayerColor, opponentCount: number): PlayerColor[] =>
+  PLAYABLE_COLORS.filter(c => c !== playerColor).slice(0, opponentCount);
+
+export const generateMap = (
+  playerColor: PlayerColor,
+  seed: number,
+  nodeCount: number = DEFAULT_NODE_COUNT,
+  mode: GameMode = 'CLASSIC',
+  specialNodes: SpecialNodeOptions = DEFAULT_SPECIAL_NODES,
+  forces: StartingForces = DEFAULT_STARTING_FORCES,
+  generatorId: MapGeneratorId = 'SCATTER'
+): { nodes: Node[], edges: Edge[], rngState: number, currentLinks?: NodeLink[][] } => {
+  const rng = createRng(seed);
+  const neutralMin = Math.min(forces.neutralCountMin, forces.neutralCountMax);
+  const neutralMax = Math.max(forces.neutralCountMin, forces.neutralCountMax);
 
-export const generateMap = (playerColor: PlayerColor): { nodes: Node[], edges: Edge[] } => {
-  // Requirement: Fixed 24 nodes
-  const nodeCount = 24;
+  // "Players choose one, others are AI, rest are Gray"
+  // Opponents are taken in PLAYABLE_COLORS order
+  const opponents = getOpponentColors(playerColor, forces.opponentCount);
   
-  // 1. Create Nodes with random initial positions across the canvas
-  // Spread them out initially to avoid center clustering
-  const padding = 50;
-  const simNodes: SimNode[] = Array.from({ length: nodeCount }, (_, i) => ({
-    id: `node-${i}`,
-    r: NODE_RADIUS_BASE, 
-    // Random position within safe bounds
-    x: padding + Math.random() * (GAME_WIDTH - 2 * padding),
-    y: padding + Math.random() * (GAME_HEIGHT - 2 * padding)
-  }));
-
-  // 2. Run D3 Simulation to space them out evenly
-  // Use forceX/forceY instead of forceCenter to better respect the rectangular aspect ratio
-  const simulation = forceSimulation(simNodes)
-    // Strong repulsion to spread them uniformly
-    .force("charge", forceManyBody().strength(-300))
-    // Strict collision detection:
-    // Radius * 2.5 ensures enough space for nodes to grow to max size (approx 2.2x) without overlapping
-    .force("collide", forceCollide().radius((d: any) => d.r * 2.5).strength(1).iterations(3))
-    // Gentle pull to center to keep them on screen, stronger on Y to fit 800px height
-    .force("x", forceX(GAME_WIDTH / 2).strength(0.02))
-    .force("y", forceY(GAME_HEIGHT / 2).strength(0.04))
-    .stop();
-
-  // Run more ticks to ensure a stable, non-overlapping layout
-  for (let i = 0; i < 800; ++i) simulation.tick();
+  // 1-2. Lay out node positions; HONEYCOMB ocean currents need its lattice, whatever the generator
+  const generator = mode === 'HONEYCOMB' ? honeycombGenerator : MAP_GENERATORS[generatorId];
+  const layout = generator.layout(nodeCount, opponents.length + 1, rng);
+  const positions = layout.positions;
 
   // 3. Convert to Game Nodes
-  const nodes: Node[] = simNodes.map(n => ({
-    id: n.id,
-    // Clamp to screen bounds with padding
-    x: Math.max(n.r * 2.5, Math.min(GAME_WIDTH - n.r * 2.5, n.x!)), 
-    y: Math.max(n.r * 2.5, Math.min(GAME_HEIGHT - n.r * 2.5, n.y!)),
+  const nodes: Node[] = positions.map((pos, i) => ({
+    id: `node-${i}`,
+    x: pos.x,
+    y: pos.y,
     owner: PlayerColor.GRAY,
-    // Randomize initial count for neutral nodes between 10 and 30
-    count: Math.floor(Math.random() * (30 - 10 + 1)) + 10,
+    // Randomize initial count for neutral nodes within the configured range
+    count: rng.int(neutralMax - neutralMin + 1) + neutralMin,
     capacity: MAX_CAPACITY_BASE, // Standard capacity for all
-    radius: n.r, // Base radius stored here
+    radius: NODE_RADIUS_BASE, // Base radius stored here
     growthAccumulator: 0, // Init accumulator
     captureProgress: 1, // Start fully settled
     prevOwner: PlayerColor.GRAY,
     type: 'DEFAULT'
   }));
 
-  // 4. Create Edges (MST + Random)
-  const edges = generateEdgesForNodes(nodes);
+  // 4. Create Edges (layout backbone + MST + Random)
+  const edges = generateEdgesForNodes(nodes, mode, layout);
 
   // 5. Assign Starting Positions
-  // "Players choose one, others are AI, rest are Gray"
-  const opponents = PLAYABLE_COLORS.filter(c => c !== playerColor);
-  const activeColors = [playerColor, ...opponents];
+  const activeColors = [playerColor, ...opponents].slice(0, nodes.length);
 
-  // Pick random distinct indices for starting positions
+  // The layout's own start slots first, then random distinct indices
   const indices = Array.from({ length: nodes.length }, (_, i) => i);
-  // Shuffle indices
-  for (let i = indices.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [indices[i], indices[j]] = [indices[j], indices[i]];
-  }
+  shuffleInPlace(indices, rng);
+  const preferred = layout.starts ?? [];
+  const slots = [...preferred, ...indices.filter(i => !preferred.includes(i))];
 
   activeColors.forEach((color, i) => {
-    const nodeIdx = indices[i];
+    const nodeIdx = slots[i];
     nodes[nodeIdx].owner = color;
     nodes[nodeIdx].prevOwner = color;
-    nodes[nodeIdx].count = INITIAL_PLAYER_COUNT;
+    nodes[nodeIdx].count = forces.startingCount;
   });
 
-  return { nodes, edges };
+  // 6. Place FORTRESS and HIVE nodes
+  placeSpecialNodes(nodes, edges, specialNodes, rng);
+
+  // 7. Ocean currents keep to the layout's own candidates, if it has any
+  const groups = layout.currents ?? layout.random?.map(link => [link]);
+  const currentLinks = groups?.map(group => group.map(([s, t]): NodeLink => [nodes[s].id, nodes[t].id]));
+
+  return { nodes, edges, rngState: rng.getState(), ...(currentLinks && { currentLinks }) };
+};
+
+// --- Special Nodes ---
+
+// Turns neutral nodes into FORTRESS/HIVE nodes in place. Starting nodes are never converted.
+export const placeSpecialNodes = (nodes: Node[], edges: Edge[], options: SpecialNodeOptions, rng: Rng) => {
+  const starts = nodes.filter(n => n.owner !== PlayerColor.GRAY);
+  const candidates = shuffleInPlace(nodes.filter(n => n.owner === PlayerColor.GRAY), rng);
+
+  // Spread between the closest and the farthest start; 0 means exactly equidistant.
+  // PERMANENT edges never move, so the distances hold for the whole match.
+  const spread = new Map<string, number>();
+  if (options.fairness === 'BALANCED') {
+    const backbone = buildGraphIndex(nodes, edges.filter(e => e.type === 'PERMANENT'));
+    const fromStarts = starts.map(s => hopDistances(backbone, s.id));
+    candidates.forEach(n => {
+      const hops = fromStarts.map(d => d.get(n.id) ?? Infinity);
+      spread.set(n.id, Math.max(...hops) - Math.min(...hops));
+    });
+  }
+
+  const graph = getGraphIndex(nodes, edges);
+  const chosen = new Set<string>();
+  const types: NodeType[] = [
+    ...Array<NodeType>(Math.max(0, options.fortressCount)).fill('FORTRESS'),
+    ...Array<NodeType>(Math.max(0, options.hiveCount)).fill('HIVE')
+  ];
+
+  types.forEach(type => {
+    // Fairest first; among equals, avoid clumping next to an earlier special node.
+    // Candidates were shuffled, and the sort is stable, so remaining ties are broken by the seed.
+    const remaining = candidates.filter(n => !chosen.has(n.id));
+    if (remaining.length === 0) return;
+    const clumps = (n: Node) => Array.from(getNeighborIds(graph, n.id)).some(id => chosen.has(id)) ? 1 : 0;
+    remaining.sort((a, b) => ((spread.get(a.id) ?? 0) - (spread.get(b.id) ?? 0)) || (clumps(a) - clumps(b)));
+
+    const pick = remaining[0];
+    pick.type = type;
+    chosen.add(pick.id);
+  });
 };
 
 // --- Tutorial Map Generation ---
@@ -211,46 +244,81 @@ export const generateTutorialMap = (playerColor: PlayerColor): { nodes: Node[],
 
 // --- Shared Edge Logic ---
 
-const generateEdgesForNodes = (nodes: Node[]): Edge[] => {
+interface NodePair {
+  s: number;
+  t: number;
+  d: number;
+}
+
+const MAX_RANDOM_EDGE_LENGTH = 400;
+
+// All node pairs, shortest first
+const rankPairs = (nodes: Node[]): NodePair[] => {
   const dist = (a: Node, b: Node) => Math.hypot(a.x - b.x, a.y - b.y);
   
-  const potentialEdges: {s: number, t: number, d: number}[] = [];
+  const pairs: NodePair[] = [];
   for(let i=0; i<nodes.length; i++) {
     for(let j=i+1; j<nodes.length; j++) {
-      potentialEdges.push({ s: i, t: j, d: dist(nodes[i], nodes[j]) });
+      pairs.push({ s: i, t: j, d: dist(nodes[i], nodes[j]) });
     }
   }
-  potentialEdges.sort((a, b) => a.d - b.d);
+  return pairs.sort((a, b) => a.d - b.d);
+};
+
+// Pairs that may ever be linked. CLASSIC links anything (random links only within reach);
+// HONEYCOMB only links neighbouring lattice cells, which all sit at the shortest distance.
+const linkablePairs = (pairs: NodePair[], mode: GameMode): { spanning: NodePair[], random: NodePair[] } => {
+  if (mode === 'HONEYCOMB') {
+    const spacing = pairs.length > 0 ? pairs[0].d : 0;
+    const lattice = pairs.filter(p => p.d <= spacing * 1.01);
+    return { spanning: lattice, random: lattice };
+  }
+  return { spanning: pairs, random: pairs.filter(p => p.d < MAX_RANDOM_EDGE_LENGTH) };
+};
+
+// `layout` is what a map generator pinned down: a permanent backbone and/or its own
+// random-edge candidates. Without one, the shortest pairs are used throughout.
+export const generateEdgesForNodes = (
+  nodes: Node[],
+  mode: GameMode = 'CLASSIC',
+  layout: Pick<MapLayout, 'permanent' | 'random'> = {}
+): Edge[] => {
+  const { spanning, random } = linkablePairs(rankPairs(nodes), mode);
 
   const edges: Edge[] = [];
+  const existing = new Set<string>();
   const ds = new DisjointSet(nodes.length);
+
+  const link = (s: number, t: number, type: Edge['type']): boolean => {
+    const key = edgeKey(nodes[s].id, nodes[t].id);
+    if (s === t || existing.has(key)) return false;
+    edges.push({ source: nodes[s].id, target: nodes[t].id, type });
+    existing.add(key);
+    return true;
+  };
+
+  // A. The layout's own backbone
+  (layout.permanent ?? []).forEach(([s, t]) => {
+    ds.union(s, t);
+    link(s, t, 'PERMANENT');
+  });
   
-  // A. Ensure Single Connected Component (MST)
-  for (const edge of potentialEdges) {
+  // B. Ensure Single Connected Component (MST)
+  for (const edge of spanning) {
     if (!ds.connected(edge.s, edge.t)) {
       ds.union(edge.s, edge.t);
-      edges.push({ source: nodes[edge.s].id, target: nodes[edge.t].id, type: 'PERMANENT' });
+      link(edge.s, edge.t, 'PERMANENT');
     }
   }
 
-  // B. Add 50% Extra Random Connections
+  // C. Add 50% Extra Random Connections
   const extraEdgesNeeded = Math.floor(nodes.length * 0.5);
   let extraAdded = 0;
+  const candidates = layout.random ? layout.random.map(([s, t]) => ({ s, t })) : random;
 
-  for (const edge of potentialEdges) {
+  for (const edge of candidates) {
     if (extraAdded >= extraEdgesNeeded) break;
-    
-    const exists = edges.some(e => 
-      (e.source === nodes[edge.s].id && e.target === nodes[edge.t].id) ||
-      (e.source === nodes[edge.t].id && e.target === nodes[edge.s].id)
-    );
-
-    if (!exists) {
-      if (edge.d < 400) { 
-        edges.push({ source: nodes[edge.s].id, target: nodes[edge.t].id, type: 'RANDOM' });
-        extraAdded++;
-      }
-    }
+    if (link(edge.s, edge.t, 'RANDOM')) extraAdded++;
   }
   return edges;
 }
@@ -258,42 +326,37 @@ const generateEdgesForNodes = (nodes: Node[]): Edge[] => {
 
 // --- Topology Regeneration ---
 
-export const regenerateTopology = (nodes: Node[], currentEdges: Edge[]): Edge[] => {
+// `links` are the groups a map layout allows (see GameWorld.currentLinks); each
+// group is drawn as a whole, so a symmetric map stays symmetric. Without them
+// every pair `mode` allows is a group of its own.
+export const regenerateTopology = (
+  nodes: Node[],
+  currentEdges: Edge[],
+  rng: Rng,
+  mode: GameMode = 'CLASSIC',
+  links?: NodeLink[][]
+): Edge[] => {
   const permanentEdges = currentEdges.filter(e => e.type === 'PERMANENT');
-  
-  const dist = (a: Node, b: Node) => Math.hypot(a.x - b.x, a.y - b.y);
-  
-  const potentialEdges: {s: number, t: number, d: number}[] = [];
-  for(let i=0; i<nodes.length; i++) {
-    for(let j=i+1; j<nodes.length; j++) {
-      potentialEdges.push({ s: i, t: j, d: dist(nodes[i], nodes[j]) });
-    }
-  }
-  potentialEdges.sort((a, b) => a.d - b.d);
+
+  const groups = links ?? linkablePairs(rankPairs(nodes), mode).random.map((p): NodeLink[] => [[nodes[p.s].id, nodes[p.t].id]]);
 
   const newEdges = [...permanentEdges];
+  const existing = new Set(permanentEdges.map(e => edgeKey(e.source, e.target)));
   const extraEdgesNeeded = Math.floor(nodes.length * 0.5);
   let extraAdded = 0;
 
-  const validCandidates = potentialEdges.filter(e => e.d < 400);
-  
-  for (let i = validCandidates.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [validCandidates[i], validCandidates[j]] = [validCandidates[j], validCandidates[i]];
-  }
+  const validCandidates = shuffleInPlace([...groups], rng);
 
-  for (const edge of validCandidates) {
+  for (const group of validCandidates) {
     if (extraAdded >= extraEdgesNeeded) break;
 
-    const exists = newEdges.some(e => 
-      (e.source === nodes[edge.s].id && e.target === nodes[edge.t].id) ||
-      (e.source === nodes[edge.t].id && e.target === nodes[edge.s].id)
-    );
-
-    if (!exists) {
-      newEdges.push({ source: nodes[edge.s].id, target: nodes[edge.t].id, type: 'RANDOM' });
+    group.forEach(([source, target]) => {
+      const key = edgeKey(source, target);
+      if (existing.has(key)) return;
+      newEdges.push({ source, target, type: 'RANDOM' });
+      existing.add(key);
       extraAdded++;
-    }
+    });
   }
 
   return newEdges;
@@ -329,120 +392,3 @@ export const calculateSpawnInterval = (count: number): number => {
   const interval = BASE_SPAWN_INTERVAL_MS / rateMultiplier;
   return Math.max(40, interval);
 };
-
-// --- Helpers ---
-
-class DisjointSet {
-  parent: number[];
-  constructor(n: number) {
-    this.parent = Array.from({ length: n }, (_, i) => i);
-  }
-  find(i: number): number {
-    if (this.parent[i] === i) return i;
-    return this.parent[i] = this.find(this.parent[i]);
-  }
-  union(i: number, j: number) {
-    const rootI = this.find(i);
-    const rootJ = this.find(j);
-    if (rootI !== rootJ) this.parent[rootI] = rootJ;
-  }
-  connected(i: number, j: number) {
-    return this.find(i) === this.find(j);
-  }
-}
-
-// --- AI Logic ---
-
-export const calculateAIMoves = (
-  world: GameWorld, 
-  playerColor: PlayerColor, 
-  difficulty: DifficultyLevel,
-  isPlayerAutoPilot: boolean = false
-): { from: string, to: string }[] => {
-  const moves: { from: string, to: string }[] = [];
-  const { nodes, edges } = world;
-  const config = DIFFICULTY_SETTINGS[difficulty];
-
-  const aiNodes = nodes.filter(n => 
-    n.owner !== PlayerColor.GRAY && 
-    (isPlayerAutoPilot || n.owner !== playerColor) && 
-    PLAYABLE_COLORS.includes(n.owner)
-  );
-  
-  const shuffledAiNodes = aiNodes.sort(() => 0.5 - Math.random());
-  const actingNodes = shuffledAiNodes.slice(0, config.maxActionsPerTick === Infinity ? shuffledAiNodes.length : config.maxActionsPerTick);
-
-  actingNodes.forEach(source => {
-    if (Math.random() < config.hesitationChance) return;
-    if (source.count < 10) return;
-
-    const connectedIds = new Set<string>();
-    edges.forEach(e => {
-      if (e.source === source.id) connectedIds.add(e.target);
-      if (e.target === source.id) connectedIds.add(e.source);
-    });
-    const neighbors = nodes.filter(n => connectedIds.has(n.id));
-
-    let bestTarget: Node | null = null;
-    let bestScore = -Infinity;
-    const saturation = source.count / source.capacity; 
-
-    neighbors.forEach(target => {
-      let score = -Infinity;
-      const isNeutral = target.owner === PlayerColor.GRAY;
-      const isEnemy = target.owner !== source.owner && !isNeutral; 
-      const isFriendly = target.owner === source.owner;
-
-      if (isNeutral) {
-        score = 100 - target.count; 
-        if (saturation > 0.8) score += 50;
-        
-        // AI Logic: Prefer Hive or Fortress nodes slightly
-        if (target.type === 'HIVE') score += 40;
-        if (target.type === 'FORTRESS') score += 30;
-
-      } else if (isEnemy) {
-        const diff = source.count - target.count;
-        
-        // AI Logic: Fear Fortresses if not overwhelming
-        if (target.type === 'FORTRESS') {
-           // Effective HP is double, so effective difference is worse
-           const effectiveEnemyCount = target.count * 2;
-           const effectiveDiff = source.count - effectiveEnemyCount;
-           if (effectiveDiff > 0) score = 30 + effectiveDiff;
-           else score = -500; // Avoid unless huge advantage
-        } else {
-            if (saturation > 0.9) {
-                score = 100 + (diff * 0.1);
-            } else {
-                if (diff > 0) score = 50 + diff;
-                else score = diff > -10 ? -20 : -1000; 
-            }
-        }
-        
-      } else if (isFriendly) {
-        if (target.count < 15) score = 50 + (15 - target.count);
-        else if (target.count < target.capacity * 0.5) score = 10;
-        else score = -50;
-        
-        if (saturation > 0.8 && (target.count / target.capacity) > 0.8) score = -200;
-      }
-
-      score += Math.random() * 20;
-
-      if (score > bestScore) {
-        bestScore = score;
-        bestTarget = target;
-      }
-    });
-
-    const threshold = saturation > 0.9 ? 10 : 30;
-    if (bestTarget && bestScore > threshold) {
-       if (bestScore > 50 || Math.random() > 0.3) {
-         moves.push({ from: source.id, to: (bestTarget as Node).id });
-       }
-    }
-  });
-
-  return moves;
-};
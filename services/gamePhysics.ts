@@ -1,24 +1,29 @@
 
-import { GameWorld, PlayerColor, TravelPayload, ActiveTransfer, Node, DifficultyLevel, GameEvent, NodeType } from '../types';
+import { GameWorld, PlayerColor, TravelPayload, ActiveTransfer, Node, DifficultyLevel, GameEvent, NodeType, AttackCommand, AIMove, StreamEndEvent, StreamEndReason, OverflowAction } from '../types';
 import { 
   calculateGrowthIncrement, 
   calculateUnitSpeed, 
-  calculateAIMoves, 
   regenerateTopology,
   calculateSpawnInterval
 } from './gameLogic';
+import { calculateAIMoves, getAIFactions, getFactionDifficulty } from './aiStrategies';
+import { Sandbox } from './aiLookahead';
+import { createRng, forkRng } from './random';
+import { tickToTime } from './simulationClock';
+import { getGraphIndex, areConnected, findNode, findNodeIndex, getNeighborIds, edgeKey } from './graphIndex';
 import { 
   TICK_RATE_MS, 
   GROWTH_INTERVAL_MS, 
   TRAVEL_SPEED_PIXELS, 
   DIFFICULTY_SETTINGS, 
   OCEAN_CURRENT_INTERVAL_MS,
-  PLAYABLE_COLORS
+  PLAYABLE_COLORS,
+  MAX_OVERFLOW_HOPS,
+  LOOKAHEAD_BUDGET
 } from '../constants';
 
-interface PhysicsContext {
-  now: number;
-  lastTickTime: number;
+export interface PhysicsContext {
+  tick: number; // Simulation tick being computed; all times below are simulation ms
   lastAITime: number;
   nextEventTime: number;
   playerColor: PlayerColor;
@@ -26,6 +31,10 @@ interface PhysicsContext {
   difficulty: DifficultyLevel;
   isPlayerAutoPilot: boolean;
   tutorialStep: number;
+  scriptedAIMoves?: AIMove[]; // Replay playback and scripted scenarios: use these instead of thinking
+  isAIEnabled?: boolean; // Defaults to off in tutorials, on everywhere else
+  scriptedOceanCurrent?: boolean; // Scenarios: shift the currents this tick, whatever the countdown says
+  clock?: () => number; // Wall-clock ms, a safety net for the expert AI on hosts too slow for its node-tick budget
 }
 
 interface PhysicsResult {
@@ -33,8 +42,77 @@ interface PhysicsResult {
   lastAITime: number;
   nextEventTime: number;
   hasChanges: boolean;
+  aiMoves: AIMove[]; // Moves the AI issued this tick (for replay recording)
 }
 
+// --- Sandbox ---
+
+// Plays copies of the world on from the tick after `ctx.tick` with nobody thinking:
+// the given moves go out first and everything already under way plays out
+const createSandbox = (ctx: PhysicsContext): Sandbox => ({
+  playOut: (world, moves, durationMs, deadline) => {
+    let current = cloneWorld(world);
+    let nextEventTime = ctx.nextEventTime;
+    for (let i = 0; i < Math.ceil(durationMs / TICK_RATE_MS); i++) {
+      if (deadline !== undefined && ctx.clock && ctx.clock() > deadline) return null;
+      const result = advanceGameState(current, {
+        ...ctx,
+        tick: ctx.tick + 1 + i,
+        nextEventTime,
+        scriptedAIMoves: i === 0 ? moves : [],
+        scriptedOceanCurrent: false
+      });
+      current = result.world;
+      nextEventTime = result.nextEventTime;
+    }
+    return current;
+  },
+  budget: LOOKAHEAD_BUDGET,
+  clock: ctx.clock
+});
+
+// --- Event Helpers ---
+
+const streamEnded = (t: ActiveTransfer, tick: number, reason: StreamEndReason): StreamEndEvent => ({
+  type: 'STREAM_END',
+  tick,
+  transferId: t.id,
+  sourceId: t.sourceId,
+  targetId: t.targetId,
+  owner: t.owner,
+  reason
+});
+
+// A fresh leg for a unit turned away from a full node; the new id keeps world diffs
+// from mistaking it for the payload that just arrived
+const launchOverflow = (p: TravelPayload, from: Node, to: Node, fromCount: number, hops: number): TravelPayload => {
+  const dist = Math.hypot(to.x - from.x, to.y - from.y);
+  const speedPixels = calculateUnitSpeed(fromCount, TRAVEL_SPEED_PIXELS);
+  return {
+    ...p,
+    id: `${p.id}~${hops}`,
+    sourceId: from.id,
+    targetId: to.id,
+    progress: 0,
+    speed: dist > 0 ? speedPixels / dist : 0.2,
+    startX: from.x,
+    startY: from.y,
+    endX: to.x,
+    endY: to.y,
+    overflowHops: hops
+  };
+};
+
+// Same notion of "still in the game" as checkWinCondition: any node, payload or transfer
+const factionsPresent = (nodes: Node[], payloads: TravelPayload[], transfers: ActiveTransfer[]): Set<PlayerColor> => {
+  const present = new Set<PlayerColor>();
+  nodes.forEach(n => present.add(n.owner));
+  payloads.forEach(p => present.add(p.owner));
+  transfers.forEach(t => present.add(t.owner));
+  present.delete(PlayerColor.GRAY);
+  return present;
+};
+
 export const advanceGameState = (
   currentWorld: GameWorld,
   ctx: PhysicsContext
@@ -46,31 +124,53 @@ export const advanceGameState = (
   // We recreate the events array every tick to ensure only new events are processed
   const currentEvents: GameEvent[] = [];
   let hasChanges = false;
+  const rng = createRng(currentWorld.rngState);
+  const now = tickToTime(ctx.tick);
   
   let updatedNextEventTime = ctx.nextEventTime;
   let updatedLastAITime = ctx.lastAITime;
 
   // 1. Ocean Current Event (Topology Change)
-  // DISABLE IN TUTORIAL: Keep map static
-  if (ctx.gameState !== 'TUTORIAL' && ctx.now >= ctx.nextEventTime) {
-    newEdges = regenerateTopology(newNodes, newEdges);
+  // DISABLE IN TUTORIAL: Keep map static unless the script calls for a current
+  const isCurrentDue = ctx.scriptedOceanCurrent || (ctx.gameState !== 'TUTORIAL' && now >= ctx.nextEventTime);
+  if (isCurrentDue && currentWorld.oceanCurrents !== false) {
+    const previousEdges = newEdges;
+    newEdges = regenerateTopology(newNodes, newEdges, rng, currentWorld.mode, currentWorld.currentLinks);
     
     // Helper to check connectivity
-    const isConnected = (sId: string, tId: string) => {
-      return newEdges.some(e => 
-        (e.source === sId && e.target === tId) || 
-        (e.source === tId && e.target === sId)
-      );
-    };
+    const shifted = getGraphIndex(newNodes, newEdges);
+    const isConnected = (sId: string, tId: string) => areConnected(shifted, sId, tId);
 
     // Sever invalid connections
-    newPayloads = newPayloads.filter(p => isConnected(p.sourceId, p.targetId));
-    newTransfers = newTransfers.filter(t => isConnected(t.sourceId, t.targetId));
+    const severedPayloadIds: string[] = [];
+    newPayloads = newPayloads.filter(p => {
+      if (isConnected(p.sourceId, p.targetId)) return true;
+      severedPayloadIds.push(p.id);
+      return false;
+    });
+    newTransfers = newTransfers.filter(t => {
+      if (isConnected(t.sourceId, t.targetId)) return true;
+      currentEvents.push(streamEnded(t, ctx.tick, 'SEVERED'));
+      return false;
+    });
+
+    const before = new Set(previousEdges.map(e => edgeKey(e.source, e.target)));
+    const after = new Set(newEdges.map(e => edgeKey(e.source, e.target)));
+    currentEvents.push({
+      type: 'TOPOLOGY_SHIFT',
+      tick: ctx.tick,
+      addedEdges: newEdges.filter(e => !before.has(edgeKey(e.source, e.target))),
+      removedEdges: previousEdges.filter(e => !after.has(edgeKey(e.source, e.target))),
+      severedPayloadIds
+    });
 
-    updatedNextEventTime = ctx.now + OCEAN_CURRENT_INTERVAL_MS;
+    updatedNextEventTime = now + OCEAN_CURRENT_INTERVAL_MS;
     hasChanges = true;
   }
 
+  // Node order never changes within a tick, so one index serves every lookup below
+  const graph = getGraphIndex(newNodes, newEdges);
+
   // 2. Node Growth & Ink Spreading
   const baseGrowthPerTick = 1 / (GROWTH_INTERVAL_MS / TICK_RATE_MS); 
   const inkSpreadSpeed = 0.05; // 5% per tick, so ~1 second to fill
@@ -87,8 +187,13 @@ export const advanceGameState = (
     }
 
     // B. Biological Growth
-    // Neutrals don't grow
-    if (updatedNode.owner !== PlayerColor.GRAY) {
+    // Neutrals don't grow, and neither do nodes at capacity
+    if (updatedNode.owner !== PlayerColor.GRAY && updatedNode.count >= updatedNode.capacity) {
+      if (updatedNode.growthAccumulator !== 0) {
+        updatedNode.growthAccumulator = 0;
+        nodeChanged = true;
+      }
+    } else if (updatedNode.owner !== PlayerColor.GRAY) {
       let growthIncrement = calculateGrowthIncrement(updatedNode.count, baseGrowthPerTick);
       
       // HIVE BONUS: +60% Growth Efficiency
@@ -100,7 +205,7 @@ export const advanceGameState = (
       
       if (newAccumulator >= 1) {
         const wholeNumberGrowth = Math.floor(newAccumulator);
-        updatedNode.count += wholeNumberGrowth;
+        updatedNode.count = Math.min(updatedNode.capacity, updatedNode.count + wholeNumberGrowth);
         updatedNode.growthAccumulator = newAccumulator - wholeNumberGrowth;
         nodeChanged = true;
         hasChanges = true;
@@ -116,18 +221,21 @@ export const advanceGameState = (
   // 3. Unit Spawning from Active Transfers
   const survivingTransfers: ActiveTransfer[] = [];
   newTransfers.forEach(t => {
-    const sourceNodeIndex = newNodes.findIndex(n => n.id === t.sourceId);
+    const sourceNodeIndex = findNodeIndex(graph, t.sourceId);
     if (sourceNodeIndex === -1) return; 
     
     const sourceNode = newNodes[sourceNodeIndex];
     // Stop transfer if ownership changed
-    if (sourceNode.owner !== t.owner) return; 
+    if (sourceNode.owner !== t.owner) {
+      currentEvents.push(streamEnded(t, ctx.tick, 'SOURCE_LOST'));
+      return;
+    }
 
     // Dynamic Interval Logic
     const dynamicInterval = calculateSpawnInterval(sourceNode.count);
 
     // Time to spawn?
-    if (ctx.now - t.lastSpawnTime > dynamicInterval) {
+    if (now - t.lastSpawnTime > dynamicInterval && now >= (t.holdUntil ?? 0)) {
       // Logic for infinite vs fixed amount
       const canSpawn = (t.totalToSend === Infinity || t.sentCount < t.totalToSend) && sourceNode.count >= 1;
       
@@ -148,7 +256,7 @@ export const advanceGameState = (
         const progressIncrement = dist > 0 ? speedPixels / dist : 0.2;
 
         newPayloads.push({
-          id: `p-${t.id}-${Date.now()}-${Math.random()}`,
+          id: `p-${t.id}-${t.sentCount}`,
           sourceId: t.sourceId,
           targetId: t.targetId,
           owner: t.owner,
@@ -162,7 +270,7 @@ export const advanceGameState = (
         });
 
         t.sentCount++;
-        t.lastSpawnTime = ctx.now;
+        t.lastSpawnTime = now;
         hasChanges = true;
       }
     }
@@ -171,49 +279,77 @@ export const advanceGameState = (
     const stillActive = (t.totalToSend === Infinity || t.sentCount < t.totalToSend) && sourceNode.count >= 0; 
     if (stillActive) {
       survivingTransfers.push(t);
+    } else {
+      currentEvents.push(streamEnded(t, ctx.tick, 'COMPLETED'));
     }
   });
   newTransfers = survivingTransfers;
 
   // 4. AI Logic
-  const aiInterval = DIFFICULTY_SETTINGS[ctx.difficulty].actionInterval;
-  const isAIEnabled = ctx.gameState !== 'TUTORIAL';
-
-  if (isAIEnabled && ctx.now - ctx.lastAITime > aiInterval) {
+  // Each faction thinks at its own difficulty's pace. The AI wakes up for the
+  // quickest of them; slower factions only act on wake-ups that cross one of
+  // their own intervals.
+  const aiFactions = getAIFactions(newNodes, ctx.playerColor, ctx.isPlayerAutoPilot);
+  const intervalOf = (faction: PlayerColor) =>
+    DIFFICULTY_SETTINGS[getFactionDifficulty(currentWorld, faction, ctx.difficulty)].actionInterval;
+  const aiInterval = Math.min(...aiFactions.map(intervalOf));
+  const isAIEnabled = ctx.isAIEnabled ?? ctx.gameState !== 'TUTORIAL';
+  let moves: AIMove[] = [];
+
+  if (ctx.scriptedAIMoves) {
+    moves = ctx.scriptedAIMoves;
+  } else if (isAIEnabled && now - ctx.lastAITime > aiInterval) {
     const tempWorld = { 
       nodes: newNodes, 
       edges: newEdges, 
       payloads: newPayloads, 
       transfers: newTransfers,
-      latestEvents: [] 
+      latestEvents: [],
+      rngState: rng.getState(),
+      mode: currentWorld.mode,
+      oceanCurrents: currentWorld.oceanCurrents,
+      currentLinks: currentWorld.currentLinks,
+      aiPersonalities: currentWorld.aiPersonalities,
+      aiDifficulties: currentWorld.aiDifficulties
     };
+    const dueFactions = aiFactions.filter(faction =>
+      Math.floor(now / intervalOf(faction)) > Math.floor(ctx.lastAITime / intervalOf(faction))
+    );
     
-    const moves = calculateAIMoves(tempWorld, ctx.playerColor, ctx.difficulty, ctx.isPlayerAutoPilot);
-    
-    if (moves.length > 0) {
-      moves.forEach(move => {
-        const source = newNodes.find(n => n.id === move.from);
-        const target = newNodes.find(n => n.id === move.to);
-        if (source && target && source.count > 2) {
-            const amount = Math.floor(source.count / 2);
-            newTransfers.push({
-              id: `ai-${Math.random()}`,
-              sourceId: source.id,
-              targetId: target.id,
-              owner: source.owner,
-              totalToSend: amount,
-              sentCount: 0,
-              lastSpawnTime: 0,
-              startX: source.x,
-              startY: source.y,
-              endX: target.x,
-              endY: target.y
-            });
-        }
-      });
-      hasChanges = true;
-    }
-    updatedLastAITime = ctx.now;
+    // The AI draws from a stream forked off the world state, so its decisions
+    // never shift the sequence that drives topology changes.
+    const aiRng = forkRng(rng.getState(), now);
+    moves = calculateAIMoves(tempWorld, dueFactions, ctx.difficulty, aiRng, createSandbox(ctx));
+    updatedLastAITime = now;
+  }
+
+  if (moves.length > 0) {
+    moves.forEach(move => {
+      const source = findNode(graph, newNodes, move.from);
+      const target = findNode(graph, newNodes, move.to);
+      if (source && target && source.count > 2) {
+          // Planned moves never empty the source
+          const amount = move.amount === undefined
+            ? Math.floor(source.count / 2)
+            : Math.min(move.amount, Math.floor(source.count) - 1);
+          const transfer: ActiveTransfer = {
+            id: `ai-${source.id}-${target.id}-${now}`,
+            sourceId: source.id,
+            targetId: target.id,
+            owner: source.owner,
+            totalToSend: amount,
+            sentCount: 0,
+            lastSpawnTime: 0,
+            startX: source.x,
+            startY: source.y,
+            endX: target.x,
+            endY: target.y
+          };
+          if (move.delayMs) transfer.holdUntil = now + move.delayMs;
+          newTransfers.push(transfer);
+      }
+    });
+    hasChanges = true;
   }
 
   // 5. Physics: Payload Movement & Collision
@@ -266,6 +402,19 @@ export const advanceGameState = (
             payloadsToRemove.add(p1.id);
             payloadsToRemove.add(p2.id);
             hasChanges = true;
+
+            // Meeting point: halfway between the two payloads along p1's direction
+            const meet = (p1Pos + p2Pos) / 2;
+            currentEvents.push({
+              type: 'ANNIHILATION',
+              tick: ctx.tick,
+              payloadIds: [p1.id, p2.id],
+              colors: [p1.owner, p2.owner],
+              sourceId: p1.sourceId,
+              targetId: p1.targetId,
+              x: p1.startX + (p1.endX - p1.startX) * meet,
+              y: p1.startY + (p1.endY - p1.startY) * meet
+            });
           }
         }
       }
@@ -277,7 +426,7 @@ export const advanceGameState = (
   
   const getLatestNodeState = (id: string) => {
     if (nodeUpdates.has(id)) return nodeUpdates.get(id)!;
-    const n = newNodes.find(node => node.id === id)!;
+    const n = findNode(graph, newNodes, id)!;
     return { count: n.count, owner: n.owner, prevOwner: n.prevOwner || n.owner, captureProgress: n.captureProgress, type: n.type };
   };
 
@@ -286,7 +435,7 @@ export const advanceGameState = (
 
     if (p.progress >= 1) {
       hasChanges = true;
-      const target = newNodes.find(n => n.id === p.targetId);
+      const target = findNode(graph, newNodes, p.targetId);
       
       if (target) {
         const currentState = getLatestNodeState(target.id);
@@ -301,7 +450,10 @@ export const advanceGameState = (
 
         currentEvents.push({
             type: 'IMPACT',
+            tick: ctx.tick,
             targetId: target.id,
+            sourceId: p.sourceId,
+            payloadId: p.id,
             angle: angle,
             force: force,
             color: p.owner
@@ -309,7 +461,44 @@ export const advanceGameState = (
 
         // --- GAMEPLAY LOGIC ---
 
-        if (currentState.owner === p.owner) {
+        if (currentState.owner === p.owner && currentState.count + p.count > target.capacity) {
+          // Overflow: spill into the emptiest friendly neighbour, else bounce back
+          const hops = (p.overflowHops || 0) + 1;
+          let destination: Node | undefined;
+          let action: OverflowAction = 'LOST';
+
+          if (hops <= MAX_OVERFLOW_HOPS) {
+            let bestRoom = 0;
+            getNeighborIds(graph, target.id).forEach(id => {
+              if (id === p.sourceId) return;
+              const state = getLatestNodeState(id);
+              const room = findNode(graph, newNodes, id)!.capacity - state.count;
+              if (state.owner === p.owner && room >= p.count && room > bestRoom) {
+                bestRoom = room;
+                destination = findNode(graph, newNodes, id);
+                action = 'SPILL';
+              }
+            });
+            // Only home if home is still ours and a current still runs there
+            if (!destination && getLatestNodeState(p.sourceId).owner === p.owner && areConnected(graph, target.id, p.sourceId)) {
+              destination = findNode(graph, newNodes, p.sourceId);
+              action = 'BOUNCE';
+            }
+          }
+
+          currentEvents.push({
+            type: 'OVERFLOW',
+            tick: ctx.tick,
+            nodeId: target.id,
+            payloadId: p.id,
+            owner: p.owner,
+            action: destination ? action : 'LOST',
+            toId: destination ? destination.id : null
+          });
+          if (destination) {
+            survivedPayloads.push(launchOverflow(p, target, destination, currentState.count, hops));
+          }
+        } else if (currentState.owner === p.owner) {
           // Reinforcement
           nodeUpdates.set(target.id, { 
               ...currentState, 
@@ -328,6 +517,14 @@ export const advanceGameState = (
           
           if (result < 0) {
             // Captured!
+            currentEvents.push({
+              type: 'CAPTURE',
+              tick: ctx.tick,
+              nodeId: target.id,
+              owner: p.owner,
+              prevOwner: currentState.owner,
+              payloadId: p.id
+            });
             nodeUpdates.set(target.id, { 
                 count: Math.abs(result), 
                 owner: p.owner,
@@ -365,6 +562,12 @@ export const advanceGameState = (
     });
   }
 
+  // Factions that still had something at the start of the tick and have nothing now
+  const remaining = factionsPresent(newNodes, survivedPayloads, newTransfers);
+  factionsPresent(currentWorld.nodes, currentWorld.payloads, currentWorld.transfers).forEach(faction => {
+    if (!remaining.has(faction)) currentEvents.push({ type: 'ELIMINATION', tick: ctx.tick, faction });
+  });
+
   const edgesChanged = newEdges !== currentWorld.edges;
 
   return {
@@ -373,14 +576,92 @@ export const advanceGameState = (
       edges: newEdges,
       payloads: survivedPayloads,
       transfers: newTransfers,
-      latestEvents: currentEvents
+      latestEvents: currentEvents,
+      rngState: rng.getState(),
+      mode: currentWorld.mode,
+      oceanCurrents: currentWorld.oceanCurrents,
+      currentLinks: currentWorld.currentLinks,
+      aiPersonalities: currentWorld.aiPersonalities,
+      aiDifficulties: currentWorld.aiDifficulties
     },
     lastAITime: updatedLastAITime,
     nextEventTime: updatedNextEventTime,
-    hasChanges: hasChanges || edgesChanged || currentEvents.length > 0
+    hasChanges: hasChanges || edgesChanged || currentEvents.length > 0,
+    aiMoves: moves
   };
 };
 
+// --- Commands ---
+
+// Apply an attack/stream order to the world. Returns the same world if the order is invalid.
+export const applyAttackCommand = (
+  world: GameWorld,
+  command: AttackCommand,
+  owner: PlayerColor,
+  tick: number
+): GameWorld => {
+  const { from: fromId, to: toId, isContinuous } = command;
+  const graph = getGraphIndex(world.nodes, world.edges);
+  const source = findNode(graph, world.nodes, fromId);
+  const target = findNode(graph, world.nodes, toId);
+
+  if (!source || !target) return world;
+  if (source.owner !== owner) return world;
+
+  const amountToSend = isContinuous ? Infinity : Math.floor(source.count / 2);
+  if (amountToSend < 1) return world;
+
+  // Check if a transfer already exists
+  const existingTransferIndex = world.transfers.findIndex(t => 
+    t.sourceId === fromId && t.targetId === toId
+  );
+
+  let newTransfers = [...world.transfers];
+
+  if (existingTransferIndex !== -1) {
+    const existing = newTransfers[existingTransferIndex];
+    let newTotalToSend = existing.totalToSend;
+
+    if (isContinuous) {
+      newTotalToSend = Infinity;
+    } else {
+      if (existing.totalToSend !== Infinity) {
+        newTotalToSend = existing.totalToSend + amountToSend;
+      }
+    }
+
+    newTransfers[existingTransferIndex] = {
+      ...existing,
+      totalToSend: newTotalToSend
+    };
+
+  } else {
+    const newTransfer: ActiveTransfer = {
+      id: `trans-${fromId}-${toId}-${tick}`,
+      sourceId: source.id,
+      targetId: target.id,
+      owner: source.owner,
+      totalToSend: amountToSend,
+      sentCount: 0,
+      lastSpawnTime: 0,
+      startX: source.x,
+      startY: source.y,
+      endX: target.x,
+      endY: target.y
+    };
+    newTransfers.push(newTransfer);
+  }
+
+  return {
+    ...world,
+    transfers: newTransfers
+  };
+};
+
+// Deep copy for anything that must survive further simulation untouched
+// (advanceGameState advances payloads and transfers in place).
+export const cloneWorld = (world: GameWorld): GameWorld => structuredClone(world);
+
 export const checkWinCondition = (world: GameWorld, playerColor: PlayerColor): { winner: PlayerColor | null, isGameOver: boolean } => {
   const playerNodes = world.nodes.filter(n => n.owner === playerColor).length;
   const enemyNodes = world.nodes.filter(n => n.owner !== playerColor && n.owner !== PlayerColor.GRAY).length;
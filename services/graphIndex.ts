@@ -0,0 +1,76 @@
+import { Node, Edge } from '../types';
+
+// --- Graph Index ---
+// Id-to-node lookup plus adjacency sets for O(1) connectivity checks.
+// The edge list is only replaced on topology changes (ocean currents, map load),
+// so the index is cached per edges array and rebuilt only when that array changes.
+// Node order is stable for a whole match, which lets the index store array positions.
+
+export interface GraphIndex {
+  nodeIndex: Map<string, number>; // id -> position in the nodes array
+  adjacency: Map<string, Set<string>>;
+}
+
+const NO_NEIGHBORS: ReadonlySet<string> = new Set();
+
+// Order-independent key for an undirected connection
+export const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Only ids are read, so map definitions can be indexed too
+export const buildGraphIndex = (nodes: Pick<Node, 'id'>[], edges: Edge[]): GraphIndex => {
+  const nodeIndex = new Map<string, number>();
+  const adjacency = new Map<string, Set<string>>();
+
+  nodes.forEach((n, i) => {
+    nodeIndex.set(n.id, i);
+    adjacency.set(n.id, new Set());
+  });
+
+  edges.forEach(e => {
+    adjacency.get(e.source)?.add(e.target);
+    adjacency.get(e.target)?.add(e.source);
+  });
+
+  return { nodeIndex, adjacency };
+};
+
+const indexCache = new WeakMap<Edge[], GraphIndex>();
+
+export const getGraphIndex = (nodes: Node[], edges: Edge[]): GraphIndex => {
+  const cached = indexCache.get(edges);
+  // The same edge list can outlive a change to the node set (e.g. in the editor)
+  if (cached && cached.nodeIndex.size === nodes.length && nodes.every((n, i) => cached.nodeIndex.get(n.id) === i)) {
+    return cached;
+  }
+  const index = buildGraphIndex(nodes, edges);
+  indexCache.set(edges, index);
+  return index;
+};
+
+export const areConnected = (index: GraphIndex, a: string, b: string): boolean =>
+  index.adjacency.get(a)?.has(b) ?? false;
+
+export const getNeighborIds = (index: GraphIndex, id: string): ReadonlySet<string> =>
+  index.adjacency.get(id) ?? NO_NEIGHBORS;
+
+export const findNodeIndex = (index: GraphIndex, id: string): number => index.nodeIndex.get(id) ?? -1;
+
+export const findNode = (index: GraphIndex, nodes: Node[], id: string): Node | undefined => {
+  const i = index.nodeIndex.get(id);
+  return i === undefined ? undefined : nodes[i];
+};
+
+// Hop distance from `startId` to every node it can reach
+export const hopDistances = (graph: GraphIndex, startId: string): Map<string, number> => {
+  const distances = new Map<string, number>([[startId, 0]]);
+  const queue = [startId];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    getNeighborIds(graph, id).forEach(next => {
+      if (distances.has(next)) return;
+      distances.set(next, distances.get(id)! + 1);
+      queue.push(next);
+    });
+  }
+  return distances;
+};
@@ -0,0 +1,118 @@
+import { GameWorld, PlayerColor, DifficultyLevel, GameMode, SpecialNodeOptions, StartingForces, MapGeneratorId } from '../types';
+import { generateMap } from './gameLogic';
+import { advanceGameState, checkWinCondition } from './gamePhysics';
+import { tickToTime } from './simulationClock';
+import { OCEAN_CURRENT_INTERVAL_MS, PLAYABLE_COLORS, TICK_RATE_MS, DEFAULT_NODE_COUNT, DEFAULT_SPECIAL_NODES, DEFAULT_STARTING_FORCES } from '../constants';
+
+// --- Headless AI-vs-AI Matches ---
+// Runs a full match without React or a browser: every faction is on autopilot
+// and the clock is stepped as fast as the CPU allows.
+
+export interface HeadlessMatchOptions {
+  seed: number;
+  difficulty: DifficultyLevel;
+  nodeCount?: number;
+  mode?: GameMode;
+  generator?: MapGeneratorId;
+  specialNodes?: SpecialNodeOptions;
+  forces?: StartingForces;
+  maxDurationMs?: number; // Matches still running after this are reported as draws
+}
+
+export interface HeadlessMatchReport {
+  seed: number;
+  difficulty: DifficultyLevel;
+  nodeCount: number;
+  mode: GameMode;
+  generator: MapGeneratorId;
+  winner: PlayerColor | null;
+  ticks: number;
+  durationMs: number; // Simulation time, not wall time
+  nodes: Partial<Record<PlayerColor, number>>;
+  units: Partial<Record<PlayerColor, number>>;
+}
+
+const DEFAULT_MAX_DURATION_MS = 30 * 60 * 1000;
+
+const tallyFactions = (world: GameWorld) => {
+  const nodes: Partial<Record<PlayerColor, number>> = {};
+  const units: Partial<Record<PlayerColor, number>> = {};
+
+  world.nodes.forEach(n => {
+    nodes[n.owner] = (nodes[n.owner] || 0) + 1;
+    units[n.owner] = (units[n.owner] || 0) + n.count;
+  });
+  // Units in flight still belong to their faction
+  world.payloads.forEach(p => {
+    units[p.owner] = (units[p.owner] || 0) + p.count;
+  });
+
+  return { nodes, units };
+};
+
+const findWinner = (world: GameWorld): PlayerColor | null => {
+  for (const color of PLAYABLE_COLORS) {
+    const status = checkWinCondition(world, color);
+    if (status.isGameOver && status.winner) return status.winner;
+  }
+  return null;
+};
+
+export const runHeadlessMatch = (options: HeadlessMatchOptions): HeadlessMatchReport => {
+  const nodeCount = options.nodeCount ?? DEFAULT_NODE_COUNT;
+  const mode = options.mode ?? 'CLASSIC';
+  const generator = options.generator ?? 'SCATTER';
+  const maxTicks = Math.ceil((options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS) / TICK_RATE_MS);
+
+  // The "player" is only a seat here; autopilot hands it to the AI like everyone else
+  const seatColor = PLAYABLE_COLORS[0];
+  const generated = generateMap(seatColor, options.seed, nodeCount, mode, options.specialNodes ?? DEFAULT_SPECIAL_NODES, options.forces ?? DEFAULT_STARTING_FORCES, generator);
+
+  let world: GameWorld = {
+    nodes: generated.nodes,
+    edges: generated.edges,
+    payloads: [],
+    transfers: [],
+    latestEvents: [],
+    rngState: generated.rngState,
+    mode,
+    ...(generated.currentLinks && { currentLinks: generated.currentLinks })
+  };
+  let lastAITime = 0;
+  let nextEventTime = OCEAN_CURRENT_INTERVAL_MS;
+  let winner: PlayerColor | null = null;
+  let tick = 0;
+
+  while (tick < maxTicks) {
+    const result = advanceGameState(world, {
+      tick,
+      lastAITime,
+      nextEventTime,
+      playerColor: seatColor,
+      gameState: 'PLAYING',
+      difficulty: options.difficulty,
+      isPlayerAutoPilot: true,
+      tutorialStep: 0
+    });
+
+    world = result.world;
+    lastAITime = result.lastAITime;
+    nextEventTime = result.nextEventTime;
+    tick++;
+
+    winner = findWinner(world);
+    if (winner) break;
+  }
+
+  return {
+    seed: options.seed,
+    difficulty: options.difficulty,
+    nodeCount,
+    mode,
+    generator,
+    winner,
+    ticks: tick,
+    durationMs: tickToTime(tick),
+    ...tallyFactions(world)
+  };
+};
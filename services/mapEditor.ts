@@ -0,0 +1,133 @@
+import { MapDefinition, MapNodeDefinition, EdgeType, PlayerColor } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, INITIAL_NEUTRAL_COUNT, MAX_CAPACITY_BASE } from '../constants';
+import { buildGraphIndex, hopDistances, edgeKey, GraphIndex } from './graphIndex';
+import { decodeMap, encodeMap, MAP_VERSION } from './mapFile';
+
+// --- Map Editing ---
+// Every edit returns a new map, so the editor can hand each one straight to React
+// state. Edits never refuse: a half-built map is allowed to be invalid, and
+// checkMap() says what is still wrong with it.
+
+export const createBlankMap = (): MapDefinition => ({
+  version: MAP_VERSION,
+  name: '新地图',
+  nodes: [],
+  edges: [],
+  startSlots: [],
+  oceanCurrents: { enabled: true, mode: 'CLASSIC' }
+});
+
+const clampToBoard = (x: number, y: number) => ({
+  x: Math.round(Math.max(0, Math.min(GAME_WIDTH, x)) * 10) / 10,
+  y: Math.round(Math.max(0, Math.min(GAME_HEIGHT, y)) * 10) / 10
+});
+
+// Returns the new node's id alongside the map, so the editor can select it
+export const addNode = (map: MapDefinition, x: number, y: number): { map: MapDefinition, id: string } => {
+  const taken = new Set(map.nodes.map(n => n.id));
+  let i = map.nodes.length;
+  while (taken.has(`node-${i}`)) i++;
+  const node: MapNodeDefinition = {
+    id: `node-${i}`,
+    ...clampToBoard(x, y),
+    type: 'DEFAULT',
+    owner: PlayerColor.GRAY,
+    count: INITIAL_NEUTRAL_COUNT,
+    capacity: MAX_CAPACITY_BASE
+  };
+  return { map: { ...map, nodes: [...map.nodes, node] }, id: node.id };
+};
+
+export const moveNode = (map: MapDefinition, id: string, x: number, y: number): MapDefinition => ({
+  ...map,
+  nodes: map.nodes.map(n => n.id === id ? { ...n, ...clampToBoard(x, y) } : n)
+});
+
+export const updateNode = (map: MapDefinition, id: string, patch: Partial<Pick<MapNodeDefinition, 'type' | 'owner' | 'count'>>): MapDefinition => ({
+  ...map,
+  nodes: map.nodes.map(n => {
+    if (n.id !== id) return n;
+    const next = { ...n, ...patch };
+    return { ...next, count: Math.max(0, Math.min(next.capacity, Math.floor(next.count))) };
+  })
+});
+
+// Takes the node's edges, start slot and ocean current links with it
+export const removeNode = (map: MapDefinition, id: string): MapDefinition => {
+  const rules = map.oceanCurrents;
+  const links = rules?.links
+    ?.map(group => group.filter(link => !link.includes(id)))
+    .filter(group => group.length > 0);
+  return {
+    ...map,
+    nodes: map.nodes.filter(n => n.id !== id),
+    edges: map.edges.filter(e => e.source !== id && e.target !== id),
+    startSlots: map.startSlots.filter(slot => slot !== id),
+    ...(links && { oceanCurrents: { ...rules, links } })
+  };
+};
+
+// Linking an already linked pair retypes the edge, or removes it if the type matches
+export const toggleEdge = (map: MapDefinition, a: string, b: string, type: EdgeType): MapDefinition => {
+  if (a === b) return map;
+  const key = edgeKey(a, b);
+  const existing = map.edges.find(e => edgeKey(e.source, e.target) === key);
+  if (!existing) return { ...map, edges: [...map.edges, { source: a, target: b, type }] };
+  if (existing.type === type) return { ...map, edges: map.edges.filter(e => e !== existing) };
+  return { ...map, edges: map.edges.map(e => e === existing ? { ...e, type } : e) };
+};
+
+// Slots are seated in order, so a new slot goes to the back of the queue
+export const toggleStartSlot = (map: MapDefinition, id: string): MapDefinition => ({
+  ...map,
+  startSlots: map.startSlots.includes(id) ? map.startSlots.filter(slot => slot !== id) : [...map.startSlots, id]
+});
+
+// --- Checks ---
+
+export interface MapCheck {
+  error: string | null; // Why the map can't be saved or played yet
+  warnings: string[]; // Playable, but probably not what the author wants
+}
+
+// Nodes strictly closer to each slot than to any other, over PERMANENT edges
+// (RANDOM ones move with the ocean currents, so they don't count as territory)
+const slotTerritories = (map: MapDefinition, backbone: GraphIndex): number[] => {
+  const fromSlots = map.startSlots.map(id => hopDistances(backbone, id));
+  const territories = map.startSlots.map(() => 0);
+  map.nodes.forEach(n => {
+    const hops = fromSlots.map(d => d.get(n.id) ?? Infinity);
+    const nearest = Math.min(...hops);
+    if (nearest === Infinity) return;
+    const closest = hops.flatMap((h, i) => (h === nearest ? [i] : []));
+    if (closest.length === 1) territories[closest[0]]++;
+  });
+  return territories;
+};
+
+export const checkMap = (map: MapDefinition): MapCheck => {
+  try {
+    decodeMap(encodeMap(map));
+  } catch (err) {
+    return { error: (err as Error).message, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const slots = map.startSlots.map(id => map.nodes.find(n => n.id === id)!);
+  if (new Set(slots.map(n => n.count)).size > 1) warnings.push('出生点的初始兵力不一致');
+  if (new Set(slots.map(n => n.type)).size > 1) warnings.push('出生点的菌落类型不一致');
+
+  // Currents redraw every RANDOM edge, so only the PERMANENT ones are sure to stay
+  const backbone = buildGraphIndex(map.nodes, map.edges.filter(e => e.type === 'PERMANENT'));
+  const territories = slotTerritories(map, backbone);
+  const most = Math.max(...territories);
+  const least = Math.min(...territories);
+  // A node either way is unavoidable on odd layouts
+  if (most - least > Math.max(1, Math.floor(most * 0.2))) {
+    warnings.push(`出生点领地不均: 最近的菌落从 ${least} 到 ${most} 个不等`);
+  }
+  if (map.oceanCurrents?.enabled !== false && hopDistances(backbone, map.nodes[0].id).size !== map.nodes.length) {
+    warnings.push('永久连接不连通, 洋流可能把地图切断');
+  }
+  return { error: null, warnings };
+};
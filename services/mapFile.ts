@@ -0,0 +1,183 @@
+import { GameWorld, MapDefinition, MapNodeDefinition, Node, Edge, NodeLink, PlayerColor } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, NODE_RADIUS_BASE, PLAYABLE_COLORS } from '../constants';
+import { buildGraphIndex, hopDistances } from './graphIndex';
+import { Invalid, invalidWith, parseJson, fieldsOf, isList, isFiniteNumber, isColor, isOneOf, decodeLinkGroups, NODE_TYPES, EDGE_TYPES, GAME_MODES } from './validation';
+
+// --- Map Files ---
+// A map is a hand-shareable layout: nodes, edges, where the factions start and
+// how ocean currents behave. Unlike a save it holds no match state, so any map
+// can be played by any color against any number of seats it offers.
+
+export const MAP_VERSION = 1;
+
+// Pretty-printed, since maps are meant to be read and edited by hand
+export const encodeMap = (map: MapDefinition): string => JSON.stringify(map, null, 2);
+
+// The current layout of a world, with every faction that still holds a node as a start slot.
+// Throws once fewer than two factions are left, since decodeMap would refuse the file.
+export const worldToMap = (world: GameWorld, name: string, playerColor: PlayerColor): MapDefinition => {
+  const seats = [playerColor, ...PLAYABLE_COLORS.filter(c => c !== playerColor)];
+  const startSlots = seats
+    .map(color => world.nodes.find(n => n.owner === color))
+    .filter((n): n is Node => n !== undefined)
+    .map(n => n.id);
+  if (startSlots.length < 2) invalid('只剩一个阵营占有节点，无法作为地图导出');
+
+  return {
+    version: MAP_VERSION,
+    name,
+    nodes: world.nodes.map(n => ({
+      id: n.id,
+      x: Math.round(n.x * 10) / 10,
+      y: Math.round(n.y * 10) / 10,
+      type: n.type,
+      owner: n.owner,
+      count: Math.floor(n.count),
+      capacity: n.capacity
+    })),
+    edges: world.edges.map(e => ({ source: e.source, target: e.target, type: e.type })),
+    startSlots,
+    oceanCurrents: {
+      enabled: world.oceanCurrents !== false,
+      mode: world.mode,
+      ...(world.currentLinks && { links: world.currentLinks.map(group => group.map(([a, b]): NodeLink => [a, b])) })
+    }
+  };
+};
+
+const buildWorld = (map: MapDefinition, ownerOf: (n: MapNodeDefinition) => PlayerColor, rngState: number): GameWorld => {
+  const nodes: Node[] = map.nodes.map(n => {
+    const owner = ownerOf(n);
+    return {
+      id: n.id,
+      x: n.x,
+      y: n.y,
+      owner,
+      count: n.count,
+      capacity: n.capacity,
+      radius: NODE_RADIUS_BASE,
+      growthAccumulator: 0,
+      captureProgress: 1,
+      prevOwner: owner,
+      type: n.type
+    };
+  });
+
+  const rules = map.oceanCurrents ?? { enabled: true, mode: 'CLASSIC' };
+  return {
+    nodes,
+    edges: map.edges.map(e => ({ ...e })),
+    payloads: [],
+    transfers: [],
+    latestEvents: [],
+    rngState,
+    mode: rules.mode,
+    oceanCurrents: rules.enabled,
+    ...(rules.links && { currentLinks: rules.links.map(group => group.map(([a, b]): NodeLink => [a, b])) })
+  };
+};
+
+// Seats the player on the first start slot and the other colors on the rest, in
+// PLAYABLE_COLORS order. Nodes the file gives to a slot's owner follow that slot.
+export const mapToWorld = (map: MapDefinition, playerColor: PlayerColor, rngState: number): GameWorld => {
+  const seats = [playerColor, ...PLAYABLE_COLORS.filter(c => c !== playerColor)];
+  const fileOwners = new Map(map.nodes.map(n => [n.id, n.owner]));
+  const slotColors = new Map(map.startSlots.map((id, i) => [id, seats[i]]));
+  const recolor = new Map<PlayerColor, PlayerColor>();
+  map.startSlots.forEach((id, i) => {
+    const owner = fileOwners.get(id)!;
+    if (owner !== PlayerColor.GRAY) recolor.set(owner, seats[i]);
+  });
+
+  return buildWorld(map, n => slotColors.get(n.id) ?? recolor.get(n.owner) ?? n.owner, rngState);
+};
+
+// The map exactly as written, unseated, for drawing it while it is being edited
+export const mapPreviewWorld = (map: MapDefinition): GameWorld => buildWorld(map, n => n.owner, 0);
+
+// --- Validation ---
+
+const invalid: Invalid = invalidWith('地图无效');
+
+const decodeNode = (n: unknown): MapNodeDefinition => {
+  const { id, x, y, type, owner, capacity, count } = fieldsOf(n);
+  if (typeof id !== 'string' || id === '') invalid('节点 ID 无效');
+  if (!isFiniteNumber(x) || !isFiniteNumber(y)) invalid(`节点 ${id} 坐标无效`);
+  if (x < 0 || x > GAME_WIDTH || y < 0 || y > GAME_HEIGHT) {
+    invalid(`节点 ${id} 超出地图边界 (${GAME_WIDTH}×${GAME_HEIGHT})`);
+  }
+  if (!isOneOf(NODE_TYPES, type)) invalid(`节点 ${id} 类型无效`);
+  if (!isColor(owner)) invalid(`节点 ${id} 归属无效`);
+  if (!isFiniteNumber(capacity) || capacity <= 0) invalid(`节点 ${id} 容量无效`);
+  if (!isFiniteNumber(count) || count < 0 || count > capacity) invalid(`节点 ${id} 数量无效`);
+  return { id, x, y, type, owner, count, capacity };
+};
+
+// Throws with a readable message when the map cannot be played
+export const decodeMap = (text: string): MapDefinition => {
+  let raw: unknown;
+  try {
+    raw = parseJson(text);
+  } catch {
+    invalid('不是有效的 JSON');
+  }
+  const { version, name, nodes: rawNodes, edges: rawEdges, startSlots, oceanCurrents: rules } = fieldsOf(raw);
+  if (typeof version !== 'number' || !Number.isInteger(version)) invalid('缺少版本号');
+  if (version > MAP_VERSION) invalid(`来自更新版本的地图 (v${version})`);
+  if (version < 1) invalid(`版本号无效 (v${version})`);
+  if (typeof name !== 'string') invalid('缺少地图名称');
+  if (!isList(rawNodes) || !isList(rawEdges) || !isList(startSlots)) invalid('缺少节点、连接或出生点');
+  if (rawNodes.length < 2) invalid('至少需要两个节点');
+
+  const nodes = rawNodes.map(decodeNode);
+  const owners = new Map<string, PlayerColor>();
+  nodes.forEach(n => {
+    if (owners.has(n.id)) invalid(`节点 ID 重复: ${n.id}`);
+    owners.set(n.id, n.owner);
+  });
+
+  const seen = new Set<string>();
+  const edges = rawEdges.map((e): Edge => {
+    const { source, target, type } = fieldsOf(e);
+    if (typeof source !== 'string' || !owners.has(source)) invalid(`连接引用了未知节点: ${source}`);
+    if (typeof target !== 'string' || !owners.has(target)) invalid(`连接引用了未知节点: ${target}`);
+    if (source === target) invalid(`节点 ${source} 连接到自身`);
+    if (!isOneOf(EDGE_TYPES, type)) invalid(`连接 ${source}-${target} 类型无效`);
+    const key = source < target ? `${source}|${target}` : `${target}|${source}`;
+    if (seen.has(key)) invalid(`连接重复: ${source}-${target}`);
+    seen.add(key);
+    return { source, target, type };
+  });
+
+  // Every node must be reachable, or someone could start cut off from the match
+  if (hopDistances(buildGraphIndex(nodes, edges), nodes[0].id).size !== nodes.length) invalid('地图不连通');
+
+  if (startSlots.length < 2 || startSlots.length > PLAYABLE_COLORS.length) {
+    invalid(`出生点数量必须在 2 到 ${PLAYABLE_COLORS.length} 之间`);
+  }
+  const slotOwners = new Set<PlayerColor>();
+  const slots = startSlots.map((id, i) => {
+    if (typeof id !== 'string' || !owners.has(id)) invalid(`出生点引用了未知节点: ${id}`);
+    if (startSlots.indexOf(id) !== i) invalid(`出生点重复: ${id}`);
+    const owner = owners.get(id)!;
+    if (owner !== PlayerColor.GRAY) {
+      if (slotOwners.has(owner)) invalid(`多个出生点属于 ${owner}`);
+      slotOwners.add(owner);
+    }
+    return id;
+  });
+  // Pre-owned territory is seated with its slot, so it has to belong to one
+  nodes.forEach(n => {
+    if (n.owner !== PlayerColor.GRAY && !slotOwners.has(n.owner)) invalid(`节点 ${n.id} 的归属不对应任何出生点`);
+  });
+
+  let oceanCurrents: MapDefinition['oceanCurrents'];
+  if (rules !== undefined) {
+    const { enabled, mode, links } = fieldsOf(rules);
+    if (typeof enabled !== 'boolean' || !isOneOf(GAME_MODES, mode)) invalid('洋流规则无效');
+    oceanCurrents = { enabled, mode };
+    if (links !== undefined) oceanCurrents.links = decodeLinkGroups(links, id => owners.has(id), invalid);
+  }
+
+  return { version, name, nodes, edges, startSlots: slots, oceanCurrents };
+};
@@ -0,0 +1,457 @@
+import { forceSimulation, forceManyBody, forceCollide, forceX, forceY, SimulationNodeDatum } from 'd3-force';
+import { MapGeneratorId } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, NODE_RADIUS_BASE } from '../constants';
+import { Rng, shuffleInPlace } from './random';
+import { DisjointSet } from './disjointSet';
+
+// --- Map Generators ---
+// A generator lays out node positions and may pin down part of the topology.
+// generateMap turns the layout into nodes, adds whatever edges are still needed
+// to connect the graph, and seats the factions, so no generator can produce an
+// unplayable map.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Link = [number, number]; // Positions in MapLayout.positions
+
+export interface MapLayout {
+  positions: Point[];
+  permanent?: Link[]; // Backbone links; the shortest links still missing for connectivity are added after these
+  random?: Link[]; // Replaces the shortest-pairs pick for the initial RANDOM edges, in order of preference
+  currents?: Link[][]; // Groups ocean currents link all or nothing; defaults to each `random` link on its own
+  starts?: number[]; // Start slots handed out in order; factions beyond them are seated at random
+}
+
+export interface MapGenerator {
+  layout: (nodeCount: number, playerCount: number, rng: Rng) => MapLayout;
+}
+
+// Keeps room for a node to grow to its full size without leaving the board
+const MARGIN = NODE_RADIUS_BASE * 2.5;
+const CENTER: Point = { x: GAME_WIDTH / 2, y: GAME_HEIGHT / 2 };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const clampToBoard = (p: Point): Point => ({
+  x: Math.max(MARGIN, Math.min(GAME_WIDTH - MARGIN, p.x)),
+  y: Math.max(MARGIN, Math.min(GAME_HEIGHT - MARGIN, p.y))
+});
+
+const nearestDistance = (p: Point, others: Point[]) =>
+  others.reduce((best, o) => Math.min(best, distance(p, o)), Infinity);
+
+// Best-candidate sampling: of a few random candidates, keep the one with the most room
+const bestCandidate = (sample: () => Point, clearance: (p: Point) => number, tries = 12): Point => {
+  let best = sample();
+  let bestClearance = clearance(best);
+  for (let i = 1; i < tries; i++) {
+    const candidate = sample();
+    const room = clearance(candidate);
+    if (room > bestClearance) {
+      best = candidate;
+      bestClearance = room;
+    }
+  }
+  return best;
+};
+
+// All pairs among `ids`, shortest first
+const pairsByDistance = (points: Point[], ids: number[]): Link[] => {
+  const pairs: { link: Link, d: number }[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      pairs.push({ link: [ids[i], ids[j]], d: distance(points[ids[i]], points[ids[j]]) });
+    }
+  }
+  return pairs.sort((a, b) => a.d - b.d).map(p => p.link);
+};
+
+// Kruskal over the given candidate links; returns the ones that join new components
+const spanningLinks = (count: number, candidates: Link[]): Link[] => {
+  const ds = new DisjointSet(count);
+  return candidates.filter(([a, b]) => {
+    if (ds.connected(a, b)) return false;
+    ds.union(a, b);
+    return true;
+  });
+};
+
+const withoutLinks = (candidates: Link[], taken: Link[]): Link[] => {
+  const key = ([a, b]: Link) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const used = new Set(taken.map(key));
+  return candidates.filter(link => !used.has(key(link)));
+};
+
+// Greedy farthest-point picks, starting from the first point
+const spreadStarts = (points: Point[], count: number): number[] => {
+  const starts = [0];
+  while (starts.length < Math.min(count, points.length)) {
+    let best = -1;
+    let bestDistance = -1;
+    points.forEach((p, i) => {
+      if (starts.includes(i)) return;
+      const d = nearestDistance(p, starts.map(s => points[s]));
+      if (d > bestDistance) {
+        best = i;
+        bestDistance = d;
+      }
+    });
+    starts.push(best);
+  }
+  return starts;
+};
+
+// --- Scatter ---
+// The classic layout: random scatter relaxed by a force simulation
+
+interface SimNode extends SimulationNodeDatum {
+  id: string;
+  r: number;
+  x?: number;
+  y?: number;
+}
+
+const layoutForceDirected = (nodeCount: number, rng: Rng): Point[] => {
+  // 1. Create Nodes with random initial positions across the canvas
+  // Spread them out initially to avoid center clustering
+  const padding = 50;
+  const simNodes: SimNode[] = Array.from({ length: nodeCount }, (_, i) => ({
+    id: `node-${i}`,
+    r: NODE_RADIUS_BASE,
+    // Random position within safe bounds
+    x: padding + rng.next() * (GAME_WIDTH - 2 * padding),
+    y: padding + rng.next() * (GAME_HEIGHT - 2 * padding)
+  }));
+
+  // 2. Run D3 Simulation to space them out evenly
+  // Use forceX/forceY instead of forceCenter to better respect the rectangular aspect ratio
+  const simulation = forceSimulation(simNodes)
+    // Strong repulsion to spread them uniformly
+    .force("charge", forceManyBody().strength(-300))
+    // Strict collision detection:
+    // Radius * 2.5 ensures enough space for nodes to grow to max size (approx 2.2x) without overlapping
+    .force("collide", forceCollide().radius((d: any) => d.r * 2.5).strength(1).iterations(3))
+    // Gentle pull to center to keep them on screen, stronger on Y to fit 800px height
+    .force("x", forceX(GAME_WIDTH / 2).strength(0.02))
+    .force("y", forceY(GAME_HEIGHT / 2).strength(0.04))
+    // Jiggle for coincident nodes must come from the match seed as well
+    .randomSource(rng.next)
+    .stop();
+
+  // Run more ticks to ensure a stable, non-overlapping layout
+  for (let i = 0; i < 800; ++i) simulation.tick();
+
+  // Clamp to screen bounds with padding
+  return simNodes.map(n => ({
+    x: Math.max(n.r * 2.5, Math.min(GAME_WIDTH - n.r * 2.5, n.x!)),
+    y: Math.max(n.r * 2.5, Math.min(GAME_HEIGHT - n.r * 2.5, n.y!))
+  }));
+};
+
+const scatterGenerator: MapGenerator = {
+  layout: (nodeCount, _playerCount, rng) => ({ positions: layoutForceDirected(nodeCount, rng) })
+};
+
+// --- Honeycomb ---
+// A connected patch of cells on a pointy-top hex lattice.
+// Every pair of neighbouring cells is exactly one spacing apart.
+
+const layoutHoneycomb = (nodeCount: number, rng: Rng): Point[] => {
+  const usableWidth = GAME_WIDTH - 2 * MARGIN;
+  const usableHeight = GAME_HEIGHT - 2 * MARGIN;
+  const rowHeight = Math.sqrt(3) / 2;
+
+  // Leave ~50% more cells than nodes so the patch has an irregular coastline
+  let spacing = Math.sqrt((usableWidth * usableHeight) / (nodeCount * 1.5 * rowHeight));
+  let cols = 0;
+  let rows = 0;
+  while (true) {
+    cols = Math.floor((usableWidth - spacing / 2) / spacing) + 1;
+    rows = Math.floor(usableHeight / (spacing * rowHeight)) + 1;
+    if (cols * rows >= nodeCount) break;
+    spacing *= 0.95;
+  }
+
+  // Odd rows are shifted right by half a cell ("odd-r" offset coordinates)
+  const neighbours = (col: number, row: number): [number, number][] => {
+    const shift = row % 2;
+    return [
+      [col - 1, row], [col + 1, row],
+      [col - 1 + shift, row - 1], [col + shift, row - 1],
+      [col - 1 + shift, row + 1], [col + shift, row + 1]
+    ];
+  };
+  const inBounds = ([col, row]: [number, number]) => col >= 0 && col < cols && row >= 0 && row < rows;
+  const key = ([col, row]: [number, number]) => row * cols + col;
+
+  // Grow the patch outwards from the centre cell, one random frontier cell at a time
+  const start: [number, number] = [Math.floor(cols / 2), Math.floor(rows / 2)];
+  const chosen: [number, number][] = [];
+  const seen = new Set<number>([key(start)]);
+  const frontier: [number, number][] = [start];
+
+  while (chosen.length < nodeCount && frontier.length > 0) {
+    const index = rng.int(frontier.length);
+    const cell = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+    chosen.push(cell);
+
+    neighbours(cell[0], cell[1]).forEach(next => {
+      if (inBounds(next) && !seen.has(key(next))) {
+        seen.add(key(next));
+        frontier.push(next);
+      }
+    });
+  }
+
+  const points = chosen.map(([col, row]) => ({
+    x: (col + (row % 2) / 2) * spacing,
+    y: row * spacing * rowHeight
+  }));
+
+  // Centre the patch on the board; a pure translation keeps the lattice intact
+  const minX = Math.min(...points.map(p => p.x));
+  const maxX = Math.max(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const maxY = Math.max(...points.map(p => p.y));
+  const offsetX = (GAME_WIDTH - (maxX - minX)) / 2 - minX;
+  const offsetY = (GAME_HEIGHT - (maxY - minY)) / 2 - minY;
+  return points.map(p => ({ x: p.x + offsetX, y: p.y + offsetY }));
+};
+
+// Not offered on its own: HONEYCOMB mode always uses it, since its ocean currents follow the lattice
+export const honeycombGenerator: MapGenerator = {
+  layout: (nodeCount, _playerCount, rng) => ({ positions: layoutHoneycomb(nodeCount, rng) })
+};
+
+// --- Rings ---
+// Concentric elliptical rings joined by spokes; factions start spread around the outer ring
+
+const ringsGenerator: MapGenerator = {
+  layout: (nodeCount, playerCount, rng) => {
+    const ringCount = Math.max(1, Math.round(Math.sqrt(nodeCount / 3)));
+    // Outer rings are longer, so they hold proportionally more nodes
+    const weightTotal = (ringCount * (ringCount + 1)) / 2;
+    const sizes = Array.from({ length: ringCount }, (_, i) => Math.floor((nodeCount * (i + 1)) / weightTotal));
+    sizes[ringCount - 1] += nodeCount - sizes.reduce((acc, s) => acc + s, 0);
+
+    const radiusX = CENTER.x - MARGIN;
+    const radiusY = CENTER.y - MARGIN;
+    const positions: Point[] = [];
+    const permanent: Link[] = [];
+    const rings: number[][] = [];
+
+    sizes.forEach((size, r) => {
+      const scale = (r + 1) / ringCount;
+      const phase = rng.next() * Math.PI * 2;
+      const ring = Array.from({ length: size }, (_, j) => {
+        const angle = phase + (j / size) * Math.PI * 2;
+        positions.push({ x: CENTER.x + Math.cos(angle) * radiusX * scale, y: CENTER.y + Math.sin(angle) * radiusY * scale });
+        return positions.length - 1;
+      });
+
+      // Close the ring (a two-node ring is a single link)
+      ring.forEach((id, j) => {
+        if (size > 2 || (size === 2 && j === 0)) permanent.push([id, ring[(j + 1) % size]]);
+      });
+
+      // About one spoke per three nodes, each to the closest node on the ring inside
+      const inner = rings[r - 1];
+      if (inner && inner.length > 0 && size > 0) {
+        const spokes = Math.max(1, Math.floor(size / 3));
+        for (let k = 0; k < spokes; k++) {
+          const id = ring[Math.floor((k * size) / spokes)];
+          const closest = inner.reduce((best, other) =>
+            distance(positions[id], positions[other]) < distance(positions[id], positions[best]) ? other : best);
+          permanent.push([id, closest]);
+        }
+      }
+
+      rings.push(ring);
+    });
+
+    const outer = rings[ringCount - 1];
+    const starts = Array.from({ length: Math.min(playerCount, outer.length) }, (_, k) =>
+      outer[Math.floor((k * outer.length) / playerCount)]);
+
+    return { positions, permanent, starts };
+  }
+};
+
+// --- Islands ---
+// Tight clusters joined only by their closest pairs of nodes; every faction starts on its own island
+
+const islandsGenerator: MapGenerator = {
+  layout: (nodeCount, playerCount, rng) => {
+    const islandCount = Math.min(nodeCount, Math.max(2, playerCount, Math.round(nodeCount / 8)));
+    const islandRadius = Math.sqrt((GAME_WIDTH * GAME_HEIGHT) / islandCount) * 0.32;
+    const inset = Math.min(MARGIN + islandRadius, CENTER.y);
+
+    const centres: Point[] = [];
+    for (let i = 0; i < islandCount; i++) {
+      centres.push(bestCandidate(
+        () => ({ x: inset + rng.next() * (GAME_WIDTH - 2 * inset), y: inset + rng.next() * (GAME_HEIGHT - 2 * inset) }),
+        p => nearestDistance(p, centres)
+      ));
+    }
+
+    const positions: Point[] = [];
+    const islands: number[][] = centres.map((centre, i) => {
+      const size = Math.floor(nodeCount / islandCount) + (i < nodeCount % islandCount ? 1 : 0);
+      // Room is measured against every node so far, in case neighbouring islands touch
+      return Array.from({ length: size }, () => positions.push(clampToBoard(bestCandidate(() => {
+        const angle = rng.next() * Math.PI * 2;
+        const r = islandRadius * Math.sqrt(rng.next());
+        return { x: centre.x + Math.cos(angle) * r, y: centre.y + Math.sin(angle) * r };
+      }, p => nearestDistance(p, positions), 24))) - 1);
+    });
+
+    // Each island is a tree of its own, then islands are bridged along their closest pairs
+    const inland = islands.map(ids => pairsByDistance(positions, ids));
+    const bridgeCandidates: { link: Link, d: number }[] = [];
+    for (let a = 0; a < islands.length; a++) {
+      for (let b = a + 1; b < islands.length; b++) {
+        let best: { link: Link, d: number } = { link: [islands[a][0], islands[b][0]], d: Infinity };
+        islands[a].forEach(i => islands[b].forEach(j => {
+          const d = distance(positions[i], positions[j]);
+          if (d < best.d) best = { link: [i, j], d };
+        }));
+        bridgeCandidates.push(best);
+      }
+    }
+    bridgeCandidates.sort((a, b) => a.d - b.d);
+
+    const trees = inland.flatMap(pairs => spanningLinks(positions.length, pairs));
+    const bridges = spanningLinks(positions.length, [...trees, ...bridgeCandidates.map(c => c.link)]).slice(trees.length);
+
+    // Extra links stay on their island, so bridges remain the only crossings at the start
+    const random = withoutLinks(pairsByDistance(positions, islands.flat()), trees)
+      .filter(([a, b]) => islands.some(ids => ids.includes(a) && ids.includes(b)));
+
+    const starts = shuffleInPlace([...islands], rng).slice(0, playerCount).map(ids => ids[0]);
+
+    return { positions, permanent: [...trees, ...bridges], random, starts };
+  }
+};
+
+// --- Symmetric ---
+// One sector is generated and copied to every faction: a point reflection for duels,
+// rotations around the centre otherwise. A shared hub sits in the middle. The node count
+// is rounded down to a whole number of sectors plus the hub, so every faction gets the
+// same territory, the same links and the same start.
+
+const symmetricGenerator: MapGenerator = {
+  layout: (nodeCount, playerCount, rng) => {
+    const sectors = Math.max(2, playerCount);
+    const perSector = Math.max(1, Math.floor((nodeCount - 1) / sectors));
+    const discRadius = CENTER.y - MARGIN;
+
+    const image = (p: Point, s: number): Point => {
+      if (sectors === 2) return s % 2 === 0 ? p : { x: GAME_WIDTH - p.x, y: GAME_HEIGHT - p.y };
+      const angle = (s * Math.PI * 2) / sectors;
+      const dx = p.x - CENTER.x;
+      const dy = p.y - CENTER.y;
+      return {
+        x: CENTER.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+        y: CENTER.y + dx * Math.sin(angle) + dy * Math.cos(angle)
+      };
+    };
+
+    // Duels use the whole left half; more factions share wedges of a disc
+    const sample = sectors === 2
+      ? () => ({ x: MARGIN + rng.next() * (CENTER.x - MARGIN), y: MARGIN + rng.next() * (GAME_HEIGHT - 2 * MARGIN) })
+      : () => {
+          const angle = (rng.next() * Math.PI * 2) / sectors;
+          const r = discRadius * Math.sqrt(rng.next());
+          return { x: CENTER.x + Math.cos(angle) * r, y: CENTER.y + Math.sin(angle) * r };
+        };
+
+    // Room is measured against every copy, including the candidate's own
+    const base: Point[] = [];
+    const copies = (p: Point) => Array.from({ length: sectors }, (_, s) => image(p, s));
+    for (let i = 0; i < perSector; i++) {
+      base.push(bestCandidate(sample, p => Math.min(
+        distance(p, CENTER),
+        nearestDistance(p, copies(p).slice(1)),
+        nearestDistance(p, base.flatMap(copies))
+      )));
+    }
+
+    const positions = [...Array.from({ length: sectors }, (_, s) => base.map(p => image(p, s))).flat(), CENTER];
+    const hub = positions.length - 1;
+    const at = (s: number, i: number) => (s % sectors) * perSector + i;
+    const replicate = (links: Link[]): Link[] =>
+      Array.from({ length: sectors }, (_, s) => links.map(([i, j]): Link => [at(s, i), at(s, j)])).flat();
+
+    const baseIds = base.map((_, i) => i);
+    const tree = spanningLinks(perSector, pairsByDistance(base, baseIds));
+
+    // Every sector reaches the hub through the same node...
+    const inward = baseIds.reduce((best, i) => (distance(base[i], CENTER) < distance(base[best], CENTER) ? i : best));
+    // ...and its neighbour through the same closest pair
+    let seam: Link = [0, 0];
+    baseIds.forEach(i => baseIds.forEach(j => {
+      if (distance(base[i], image(base[j], 1)) < distance(base[seam[0]], image(base[seam[1]], 1))) seam = [i, j];
+    }));
+
+    const permanent: Link[] = [
+      ...replicate(tree),
+      ...Array.from({ length: sectors }, (_, s): Link => [at(s, inward), hub]),
+      ...Array.from({ length: sectors }, (_, s): Link => [at(s, seam[0]), at(s + 1, seam[1])])
+    ];
+    const spare = withoutLinks(pairsByDistance(base, baseIds), tree);
+    const random = replicate(spare.slice(0, Math.floor(perSector * 0.5)));
+    // Currents move a link in every sector at once
+    const currents = spare.slice(0, perSector).map(link => replicate([link]));
+
+    const outward = baseIds.reduce((best, i) => (distance(base[i], CENTER) > distance(base[best], CENTER) ? i : best));
+    const starts = Array.from({ length: sectors }, (_, s) => at(s, outward));
+
+    return { positions, permanent, random, currents, starts };
+  }
+};
+
+// --- Grid ---
+// A square lattice whose permanent edges form a random maze; the other lattice links
+// are the candidates for random edges. Factions start in the corners first.
+
+const gridGenerator: MapGenerator = {
+  layout: (nodeCount, playerCount, rng) => {
+    const width = GAME_WIDTH - 2 * MARGIN;
+    const height = GAME_HEIGHT - 2 * MARGIN;
+    const cols = Math.max(2, Math.round(Math.sqrt((nodeCount * width) / height)));
+    const rows = Math.ceil(nodeCount / cols);
+    const spacing = Math.min(width / (cols - 1), rows > 1 ? height / (rows - 1) : Infinity);
+    const originX = CENTER.x - ((cols - 1) * spacing) / 2;
+    const originY = CENTER.y - ((rows - 1) * spacing) / 2;
+
+    // Row-major; a partial last row stays left-aligned so it still hangs off the row above
+    const positions = Array.from({ length: nodeCount }, (_, i) => ({
+      x: originX + (i % cols) * spacing,
+      y: originY + Math.floor(i / cols) * spacing
+    }));
+
+    const lattice: Link[] = [];
+    positions.forEach((_, i) => {
+      if (i % cols < cols - 1 && i + 1 < nodeCount) lattice.push([i, i + 1]);
+      if (i + cols < nodeCount) lattice.push([i, i + cols]);
+    });
+    shuffleInPlace(lattice, rng);
+
+    const permanent = spanningLinks(nodeCount, lattice);
+    const random = withoutLinks(lattice, permanent);
+    return { positions, permanent, random, starts: spreadStarts(positions, playerCount) };
+  }
+};
+
+export const MAP_GENERATORS: Record<MapGeneratorId, MapGenerator> = {
+  SCATTER: scatterGenerator,
+  RINGS: ringsGenerator,
+  ISLANDS: islandsGenerator,
+  SYMMETRIC: symmetricGenerator,
+  GRID: gridGenerator
+};
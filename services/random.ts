@@ -0,0 +1,49 @@
+// --- Seeded PRNG ---
+// Mulberry32: a tiny 32-bit generator whose whole state is one integer.
+// Keeping the state as a plain number lets it live on the GameWorld, so a match
+// can be cloned, saved or replayed and still draw the exact same numbers.
+
+export interface Rng {
+  next: () => number; // Float in [0, 1)
+  int: (maxExclusive: number) => number;
+  getState: () => number;
+}
+
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+
+  const next = () => {
+    s = (s + 0x6D2B79F5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (maxExclusive: number) => Math.floor(next() * maxExclusive),
+    getState: () => s
+  };
+};
+
+// Derive an independent stream from a state without advancing it.
+// Used where consumers must not disturb the main sequence (e.g. the AI).
+export const forkRng = (state: number, salt: number): Rng => {
+  let h = (state ^ Math.imul(salt | 0, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return createRng((h ^ (h >>> 16)) >>> 0);
+};
+
+// The only intentionally non-deterministic entry point: picks a fresh match seed.
+export const createSeed = (): number => Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+
+// In-place Fisher-Yates shuffle driven by the given generator
+export const shuffleInPlace = <T>(items: T[], rng: Rng): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = rng.int(i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
@@ -0,0 +1,201 @@
+import { GameWorld, MatchReplay, ReplayCommand, AttackCommand, AIMove, PlayerColor, DifficultyLevel } from '../types';
+import { advanceGameState, applyAttackCommand, cloneWorld } from './gamePhysics';
+import { OCEAN_CURRENT_INTERVAL_MS, PLAYABLE_COLORS, DIFFICULTY_LEVELS } from '../constants';
+import { encodeWorld, decodeWorld } from './worldCodec';
+import { Invalid, invalidWith, parseJson, isRecord, isList, isFiniteNumber } from './validation';
+
+// --- Replays ---
+// A replay is the seed, the starting world and every command issued during the
+// match. Playback re-runs the simulation and injects the recorded AI moves
+// instead of thinking, so a replay keeps working even after the AI is retuned.
+
+// Bumped whenever a rule change makes recorded commands play out differently.
+// Older replays are refused rather than shown diverging from what happened.
+// v2: node capacity and overflow
+// v3: AI transfers held back so strikes land together
+export const REPLAY_VERSION = 3;
+
+// Keep a restore point this often during playback so seeking backwards is cheap
+const KEYFRAME_INTERVAL_TICKS = 200;
+
+export const createReplay = (
+  seed: number,
+  playerColor: PlayerColor,
+  difficulty: DifficultyLevel,
+  initialWorld: GameWorld
+): MatchReplay => ({
+  version: REPLAY_VERSION,
+  seed,
+  playerColor,
+  difficulty,
+  initialWorld: cloneWorld(initialWorld),
+  commands: [],
+  endTick: 0
+});
+
+// --- File Format ---
+// Commands are stored as tuples to keep long matches small:
+// [tick, actor ('P' | 'A'), from, to, continuous (0 | 1), amount?, delayMs?]
+// The last two are only written for AI moves the planner sized and timed itself.
+
+type EncodedCommand = [number, 'P' | 'A', string, string, 0 | 1, ...number[]];
+
+export const encodeReplay = (replay: MatchReplay): string => {
+  const commands: EncodedCommand[] = replay.commands.map(c => {
+    const encoded: EncodedCommand = [c.tick, c.actor === 'PLAYER' ? 'P' : 'A', c.from, c.to, c.isContinuous ? 1 : 0];
+    if (c.amount !== undefined) encoded.push(c.amount);
+    if (c.delayMs !== undefined) encoded.push(c.delayMs);
+    return encoded;
+  });
+  return JSON.stringify({ ...replay, initialWorld: encodeWorld(replay.initialWorld), commands });
+};
+
+const invalid: Invalid = invalidWith('录像文件无效');
+
+const decodeCommand = (raw: unknown, nodeIds: Set<string>): ReplayCommand => {
+  if (!isList(raw) || raw.length < 5 || raw.length > 7) invalid('存在无效指令');
+  const [tick, actor, from, to, continuous, amount, delayMs] = raw;
+  if (!Number.isInteger(tick) || (actor !== 'P' && actor !== 'A') || typeof from !== 'string' || typeof to !== 'string'
+    || !nodeIds.has(from) || !nodeIds.has(to)) invalid('存在无效指令');
+  if (raw.length >= 6 && (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 1)) invalid('存在无效的兵力数量');
+  if (raw.length === 7 && (typeof delayMs !== 'number' || !Number.isInteger(delayMs) || delayMs < 0)) invalid('存在无效的延迟');
+  const command: ReplayCommand = {
+    tick: tick as number,
+    actor: actor === 'P' ? 'PLAYER' : 'AI',
+    from,
+    to,
+    isContinuous: continuous === 1
+  };
+  if (typeof amount === 'number') command.amount = amount;
+  if (typeof delayMs === 'number') command.delayMs = delayMs;
+  return command;
+};
+
+export const decodeReplay = (text: string): MatchReplay => {
+  let raw: unknown;
+  try {
+    raw = parseJson(text);
+  } catch {
+    invalid('不是有效的 JSON');
+  }
+
+  if (!isRecord(raw)) invalid('格式错误');
+  const { version, seed, playerColor, difficulty, initialWorld, commands, endTick } = raw;
+  if (typeof version === 'number' && version < REPLAY_VERSION) invalid(`录像来自旧版本 (v${version})，规则已变更，无法回放`);
+  if (version !== REPLAY_VERSION) invalid(`不支持的录像版本: ${version}`);
+  if (!isFiniteNumber(seed)) invalid('随机种子无效');
+  if (!PLAYABLE_COLORS.includes(playerColor as PlayerColor)) invalid('玩家颜色无效');
+  if (!DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel)) invalid('难度无效');
+  if (typeof endTick !== 'number' || !Number.isInteger(endTick) || endTick < 0) invalid('录像长度无效');
+  if (!isList(commands)) invalid('缺少指令列表');
+
+  const world = decodeWorld(initialWorld, invalid);
+  const nodeIds = new Set(world.nodes.map(n => n.id));
+
+  return {
+    version,
+    seed,
+    playerColor: playerColor as PlayerColor,
+    difficulty: difficulty as DifficultyLevel,
+    initialWorld: world,
+    commands: commands.map(c => decodeCommand(c, nodeIds)),
+    endTick
+  };
+};
+
+// --- Playback ---
+
+interface PlaybackFrame {
+  tick: number;
+  world: GameWorld;
+  lastAITime: number;
+  nextEventTime: number;
+}
+
+export interface ReplayPlayback {
+  replay: MatchReplay;
+  current: PlaybackFrame;
+  keyframes: PlaybackFrame[]; // Sorted by tick, keyframes[0] is the start of the match
+  commandsByTick: Map<number, { player: AttackCommand[], ai: AIMove[] }>;
+}
+
+const cloneFrame = (frame: PlaybackFrame): PlaybackFrame => ({ ...frame, world: cloneWorld(frame.world) });
+
+export const createPlayback = (replay: MatchReplay): ReplayPlayback => {
+  const commandsByTick = new Map<number, { player: AttackCommand[], ai: AIMove[] }>();
+  replay.commands.forEach(c => {
+    if (!commandsByTick.has(c.tick)) commandsByTick.set(c.tick, { player: [], ai: [] });
+    const bucket = commandsByTick.get(c.tick)!;
+    if (c.actor === 'PLAYER') bucket.player.push({ from: c.from, to: c.to, isContinuous: !!c.isContinuous });
+    else bucket.ai.push({ from: c.from, to: c.to, amount: c.amount, delayMs: c.delayMs });
+  });
+
+  const start: PlaybackFrame = {
+    tick: 0,
+    world: cloneWorld(replay.initialWorld),
+    lastAITime: 0,
+    nextEventTime: OCEAN_CURRENT_INTERVAL_MS
+  };
+
+  return {
+    replay,
+    current: cloneFrame(start),
+    keyframes: [start],
+    commandsByTick
+  };
+};
+
+// Simulate exactly one recorded tick
+export const stepPlayback = (playback: ReplayPlayback): GameWorld => {
+  const { current, replay } = playback;
+  const bucket = playback.commandsByTick.get(current.tick);
+
+  let world = current.world;
+  bucket?.player.forEach(cmd => {
+    world = applyAttackCommand(world, cmd, replay.playerColor, current.tick);
+  });
+
+  const result = advanceGameState(world, {
+    tick: current.tick,
+    lastAITime: current.lastAITime,
+    nextEventTime: current.nextEventTime,
+    playerColor: replay.playerColor,
+    gameState: 'PLAYING',
+    difficulty: replay.difficulty,
+    isPlayerAutoPilot: false,
+    tutorialStep: 0,
+    scriptedAIMoves: bucket?.ai ?? []
+  });
+
+  playback.current = {
+    tick: current.tick + 1,
+    world: result.world,
+    lastAITime: result.lastAITime,
+    nextEventTime: result.nextEventTime
+  };
+
+  const lastKeyframe = playback.keyframes[playback.keyframes.length - 1];
+  if (playback.current.tick - lastKeyframe.tick >= KEYFRAME_INTERVAL_TICKS) {
+    playback.keyframes.push(cloneFrame(playback.current));
+  }
+
+  return result.world;
+};
+
+// Jump to any tick: rewind to the closest keyframe, then simulate forward
+export const seekPlayback = (playback: ReplayPlayback, targetTick: number): GameWorld => {
+  const tick = Math.max(0, Math.min(playback.replay.endTick, Math.floor(targetTick)));
+
+  if (tick < playback.current.tick) {
+    let keyframe = playback.keyframes[0];
+    for (const k of playback.keyframes) {
+      if (k.tick <= tick) keyframe = k;
+    }
+    playback.current = cloneFrame(keyframe);
+  }
+
+  while (playback.current.tick < tick) {
+    stepPlayback(playback);
+  }
+  return playback.current.world;
+};
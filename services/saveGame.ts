@@ -0,0 +1,112 @@
+import { SaveGame, PlayerColor, DifficultyLevel } from '../types';
+import { DIFFICULTY_LEVELS } from '../constants';
+import { encodeReplay, decodeReplay } from './replay';
+import { encodeWorld, decodeWorld } from './worldCodec';
+import { Invalid, invalidWith, parseJson, fieldsOf, isRecord, isFiniteNumber, isColor } from './validation';
+
+// --- Save Games ---
+// A save is the full GameWorld plus the engine state that lives outside it
+// (clock, AI/current timers, match settings).
+
+export const SAVE_VERSION = 4;
+export const SAVE_STORAGE_KEY = 'microbio_savegame';
+
+// Upgrades from older versions: SAVE_MIGRATIONS[n] turns a version n save into version n + 1
+const SAVE_MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 added game modes; everything before was CLASSIC
+  1: raw => ({ ...raw, world: { ...fieldsOf(raw.world), mode: 'CLASSIC' } }),
+  // v3 recordings play by the capacity rules; the match goes on without the old one
+  2: raw => ({ ...raw, replay: null }),
+  // v4 recordings time held-back AI transfers; the same goes for older ones
+  3: raw => ({ ...raw, replay: null })
+};
+
+export const encodeSaveGame = (save: SaveGame): string => JSON.stringify({
+  ...save,
+  world: encodeWorld(save.world),
+  replay: save.replay ? encodeReplay(save.replay) : null
+});
+
+// --- Validation ---
+
+const invalid: Invalid = invalidWith('存档已损坏');
+
+// Throws with a readable message when the save is unusable
+export const decodeSaveGame = (text: string): SaveGame => {
+  let parsed: unknown;
+  try {
+    parsed = parseJson(text);
+  } catch {
+    invalid('不是有效的 JSON');
+  }
+  if (!isRecord(parsed) || !Number.isInteger(parsed.version)) invalid('缺少版本号');
+  let raw = parsed as Record<string, unknown> & { version: number };
+  if (raw.version > SAVE_VERSION) invalid(`来自更新版本的存档 (v${raw.version})`);
+
+  while (raw.version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[raw.version];
+    if (!migrate) invalid(`无法升级 v${raw.version} 存档`);
+    raw = { ...migrate(raw), version: raw.version + 1 };
+  }
+
+  const { tick, seed, savedAt, lastAITime, nextEventTime, playerColor, difficulty, isPlayerAutoPilot, world, replay } = raw;
+  if (typeof tick !== 'number' || !Number.isInteger(tick) || tick < 0) invalid('时钟无效');
+  if (!isFiniteNumber(seed) || !isFiniteNumber(savedAt) || !isFiniteNumber(lastAITime) || !isFiniteNumber(nextEventTime)) {
+    invalid('计时数据无效');
+  }
+  if (!isColor(playerColor) || playerColor === PlayerColor.GRAY) invalid('玩家颜色无效');
+  if (!DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel)) invalid('难度无效');
+  if (typeof isPlayerAutoPilot !== 'boolean') invalid('托管状态无效');
+
+  return {
+    version: raw.version,
+    savedAt,
+    seed,
+    world: decodeWorld(world, invalid),
+    tick,
+    lastAITime,
+    nextEventTime,
+    playerColor,
+    difficulty: difficulty as DifficultyLevel,
+    isPlayerAutoPilot,
+    replay: typeof replay === 'string' ? decodeReplay(replay) : null
+  };
+};
+
+// --- localStorage ---
+
+// The replay grows with the match and can outgrow the storage quota; the match
+// itself is worth keeping without it. Returns false when nothing could be saved.
+export const writeSaveGame = (save: SaveGame): boolean => {
+  try {
+    localStorage.setItem(SAVE_STORAGE_KEY, encodeSaveGame(save));
+    return true;
+  } catch {
+    // Fall through and try again without the recording
+  }
+  try {
+    localStorage.setItem(SAVE_STORAGE_KEY, encodeSaveGame({ ...save, replay: null }));
+    console.warn('存档空间不足，已省略录像');
+    return true;
+  } catch (err) {
+    console.warn(`自动存档失败: ${(err as Error).message}`);
+    return false;
+  }
+};
+
+// A corrupt or outdated save is dropped rather than offered as "Continue"
+export const readSaveGame = (): SaveGame | null => {
+  const text = localStorage.getItem(SAVE_STORAGE_KEY);
+  if (!text) return null;
+  try {
+    return decodeSaveGame(text);
+  } catch (err) {
+    console.warn((err as Error).message);
+    clearSaveGame();
+    return null;
+  }
+};
+
+export const clearSaveGame = () => {
+  localStorage.removeItem(SAVE_STORAGE_KEY);
+};
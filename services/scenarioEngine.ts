@@ -0,0 +1,175 @@
+import { GameWorld, PlayerColor, ScenarioScript, ScenarioProgress, ScriptCondition, ScriptFaction, ScriptInput, AIMove, DifficultyLevel } from '../types';
+import { tickToTime } from './simulationClock';
+
+// --- Scenario Engine ---
+// Plays a scripted scenario (a tutorial, a mission) alongside the simulation.
+// Every tick the current step's trigger, then its completion condition, is
+// checked against the world. Input the world can't show, such as clicking
+// through a message or selecting a node, is recorded separately.
+
+export interface ScriptContext {
+  world: GameWorld;
+  playerColor: PlayerColor;
+  tick: number;
+}
+
+const factionOf = (owner: PlayerColor, playerColor: PlayerColor): ScriptFaction => {
+  if (owner === playerColor) return 'PLAYER';
+  return owner === PlayerColor.GRAY ? 'NEUTRAL' : 'OPPONENT';
+};
+
+// Unset fields match anything
+const matches = <T>(expected: T | undefined, actual: T) => expected === undefined || expected === actual;
+
+export const evaluateCondition = (condition: ScriptCondition, progress: ScenarioProgress, ctx: ScriptContext): boolean => {
+  const { world, playerColor } = ctx;
+  switch (condition.type) {
+    case 'CONFIRM':
+      return progress.inputs.some(input => input.type === 'CONFIRM');
+    case 'NODE_SELECTED':
+      return progress.inputs.some(input => input.type === 'SELECT' && input.nodeId === condition.nodeId);
+    case 'ORDER_SENT':
+      return progress.inputs.some(input =>
+        input.type === 'ORDER' &&
+        matches(condition.from, input.command.from) &&
+        matches(condition.to, input.command.to) &&
+        matches(condition.continuous, input.command.isContinuous)
+      );
+    case 'STREAM_ACTIVE':
+      return world.transfers.some(t =>
+        t.owner === playerColor &&
+        t.totalToSend === Infinity &&
+        matches(condition.from, t.sourceId) &&
+        matches(condition.to, t.targetId)
+      );
+    case 'NODE_OWNED': {
+      const node = world.nodes.find(n => n.id === condition.nodeId);
+      return node !== undefined && factionOf(node.owner, playerColor) === (condition.by ?? 'PLAYER');
+    }
+    case 'FACTION_ELIMINATED':
+      return !world.nodes.some(n => factionOf(n.owner, playerColor) === condition.faction);
+    case 'EVENT_SEEN':
+      return progress.seenEvents.includes(condition.event);
+    case 'TIME_ELAPSED':
+      return tickToTime(ctx.tick - progress.shownAtTick) >= condition.seconds * 1000;
+    case 'WITHIN':
+      return tickToTime(ctx.tick - progress.startedAtTick) <= condition.seconds * 1000;
+    case 'NODE_HELD': {
+      const since = progress.ownedSince[condition.nodeId];
+      return since !== undefined && tickToTime(ctx.tick - since) >= condition.seconds * 1000;
+    }
+    case 'TYPE_OWNED': {
+      const ofType = world.nodes.filter(n => n.type === condition.nodeType);
+      return ofType.length > 0 && ofType.every(n => factionOf(n.owner, playerColor) === (condition.by ?? 'PLAYER'));
+    }
+    case 'NODE_COUNT':
+      return world.nodes.filter(n => factionOf(n.owner, playerColor) === (condition.by ?? 'PLAYER')).length >= condition.atLeast;
+    case 'ALL':
+      return condition.conditions.every(c => evaluateCondition(c, progress, ctx));
+    case 'ANY':
+      return condition.conditions.some(c => evaluateCondition(c, progress, ctx));
+  }
+};
+
+const showStep = (progress: ScenarioProgress, tick: number): ScenarioProgress => ({
+  ...progress,
+  isStepShown: true,
+  shownAtTick: tick,
+  inputs: [],
+  seenEvents: []
+});
+
+// Keeps the tick each player node was taken, forgetting any the player has lost.
+// Returns the same record when nothing changed hands.
+const trackOwnership = (ownedSince: Record<string, number>, ctx: ScriptContext): Record<string, number> => {
+  const owned = ctx.world.nodes.filter(n => n.owner === ctx.playerColor);
+  const isUnchanged = owned.length === Object.keys(ownedSince).length && owned.every(n => n.id in ownedSince);
+  if (isUnchanged) return ownedSince;
+  return Object.fromEntries(owned.map(n => [n.id, ownedSince[n.id] ?? ctx.tick]));
+};
+
+type CarriedProgress = Pick<ScenarioProgress, 'startedAtTick' | 'ownedSince'>;
+
+// Makes `stepIndex` current, showing it straight away if its trigger already holds
+const enterStep = (script: ScenarioScript, stepIndex: number, carried: CarriedProgress, ctx: ScriptContext): ScenarioProgress => {
+  const pending: ScenarioProgress = {
+    ...carried,
+    stepIndex,
+    isStepShown: false,
+    shownAtTick: ctx.tick,
+    inputs: [],
+    seenEvents: [],
+    outcome: null,
+    bonusesMet: []
+  };
+  const trigger = script.steps[stepIndex].triggerWhen;
+  return !trigger || evaluateCondition(trigger, pending, ctx) ? showStep(pending, ctx.tick) : pending;
+};
+
+export const createScenarioProgress = (script: ScenarioScript, ctx: ScriptContext): ScenarioProgress =>
+  enterStep(script, 0, { startedAtTick: ctx.tick, ownedSince: trackOwnership({}, ctx) }, ctx);
+
+// Input only counts towards the step the player could see when they gave it
+export const recordScriptInput = (progress: ScenarioProgress, input: ScriptInput): ScenarioProgress => {
+  if (!progress.isStepShown || progress.outcome) return progress;
+  return { ...progress, inputs: [...progress.inputs, input] };
+};
+
+export const isOrderLocked = (script: ScenarioScript, progress: ScenarioProgress): boolean =>
+  progress.isStepShown && !!script.steps[progress.stepIndex].lockOrders;
+
+// --- Directives ---
+
+// How the current step wants the simulation run for one tick
+export interface ScriptDirectives {
+  isAIEnabled: boolean;
+  aiDifficulty?: DifficultyLevel; // Only while the regular AI is playing
+  aiMoves?: AIMove[]; // Scripted orders for this tick, in place of the AI
+  shiftCurrents: boolean;
+}
+
+// Stateless: scheduled orders are worked out from the tick the step appeared on.
+// The first tick simulated after a step appears is its `shownAtTick`.
+export const scriptDirectives = (script: ScenarioScript, progress: ScenarioProgress, tick: number): ScriptDirectives => {
+  const step = script.steps[progress.stepIndex];
+  const sinceShown = tick - progress.shownAtTick;
+  if (!progress.isStepShown || progress.outcome || sinceShown < 0) return { isAIEnabled: false, shiftCurrents: false };
+
+  const directives: ScriptDirectives = { isAIEnabled: false, shiftCurrents: !!step.shiftCurrents && sinceShown === 0 };
+  const ai = step.ai ?? { type: 'IDLE' };
+  if (ai.type === 'FREE') {
+    directives.isAIEnabled = true;
+    directives.aiDifficulty = ai.difficulty;
+  } else if (ai.type === 'ORDERS') {
+    const repeatTicks = ai.repeatSeconds ? Math.round(ai.repeatSeconds * 1000 / tickToTime(1)) : 0;
+    if (sinceShown === 0 || (repeatTicks > 0 && sinceShown % repeatTicks === 0)) directives.aiMoves = ai.orders;
+  }
+  return directives;
+};
+
+// --- Stepping ---
+
+// Call once per tick, after the world has advanced. Moves at most one step forward.
+export const advanceScenario = (script: ScenarioScript, previous: ScenarioProgress, ctx: ScriptContext): ScenarioProgress => {
+  if (previous.outcome) return previous;
+  const ownedSince = trackOwnership(previous.ownedSince, ctx);
+  const progress = ownedSince === previous.ownedSince ? previous : { ...previous, ownedSince };
+  if (script.defeatWhen && evaluateCondition(script.defeatWhen, progress, ctx)) {
+    return { ...progress, outcome: 'DEFEAT' };
+  }
+
+  const step = script.steps[progress.stepIndex];
+  if (!progress.isStepShown) {
+    return !step.triggerWhen || evaluateCondition(step.triggerWhen, progress, ctx) ? showStep(progress, ctx.tick) : progress;
+  }
+
+  const fresh = ctx.world.latestEvents.map(e => e.type).filter(type => !progress.seenEvents.includes(type));
+  const current = fresh.length > 0 ? { ...progress, seenEvents: [...progress.seenEvents, ...new Set(fresh)] } : progress;
+
+  if (!evaluateCondition(step.completeWhen, current, ctx)) return current;
+  if (current.stepIndex === script.steps.length - 1) {
+    const bonusesMet = (script.bonuses ?? []).map(bonus => evaluateCondition(bonus.when, current, ctx));
+    return { ...current, outcome: 'VICTORY', bonusesMet };
+  }
+  return enterStep(script, current.stepIndex + 1, { startedAtTick: current.startedAtTick, ownedSince: current.ownedSince }, ctx);
+};
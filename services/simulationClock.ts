@@ -0,0 +1,45 @@
+import { TICK_RATE_MS, MAX_FRAME_CATCH_UP_MS } from '../constants';
+
+// --- Fixed-Timestep Simulation Clock ---
+// The simulation only ever sees whole ticks. Real frame time is fed into an
+// accumulator and converted into a number of ticks to run, so pausing is just
+// "stop feeding frames" and speed changes just scale what gets fed in.
+
+export interface SimulationClock {
+  tick: number; // Ticks simulated since the match started
+  accumulator: number; // Real time (ms, already speed-scaled) not yet turned into ticks
+  lastFrameTime: number | null; // null = re-anchor on the next frame (after pause/start)
+}
+
+export const createClock = (tick: number = 0): SimulationClock => ({
+  tick,
+  accumulator: 0,
+  lastFrameTime: null
+});
+
+// Simulation time in ms for a tick; this is the `now` every system uses
+export const tickToTime = (tick: number): number => tick * TICK_RATE_MS;
+
+// Stop counting wall time until the next frame arrives
+export const haltClock = (clock: SimulationClock) => {
+  clock.lastFrameTime = null;
+};
+
+// Feed one animation frame into the clock and get back how many ticks to run.
+// The caller is responsible for incrementing `clock.tick` as it steps.
+export const consumeFrame = (clock: SimulationClock, frameTime: number, speed: number = 1): number => {
+  if (clock.lastFrameTime === null) {
+    clock.lastFrameTime = frameTime;
+    return 0;
+  }
+
+  const elapsed = Math.max(0, frameTime - clock.lastFrameTime);
+  clock.lastFrameTime = frameTime;
+
+  // Catch up after a slow frame, but never try to replay a whole background-tab gap
+  clock.accumulator += Math.min(elapsed, MAX_FRAME_CATCH_UP_MS) * speed;
+
+  const steps = Math.floor(clock.accumulator / TICK_RATE_MS);
+  clock.accumulator -= steps * TICK_RATE_MS;
+  return steps;
+};
@@ -0,0 +1,47 @@
+import { GameWorld, PlayerColor, DifficultyLevel, AttackCommand, MatchReplay, SaveGame, ScriptInput } from '../types';
+import { WorldDiff } from './worldDiff';
+
+// --- Simulation Worker Protocol ---
+// The worker owns the authoritative world, the clock and the replay recording.
+// The main thread only sends commands and mirrors the world from the messages it gets back.
+
+export interface ReplayStatus {
+  tick: number;
+  endTick: number;
+  isPlaying: boolean;
+  speed: number;
+  playerColor: PlayerColor;
+}
+
+export interface MatchSetup {
+  world: GameWorld;
+  seed: number;
+  playerColor: PlayerColor;
+  difficulty: DifficultyLevel;
+  isTutorial: boolean;
+  scenarioId: string | null; // Script from SCENARIOS that decides how the match ends
+}
+
+// Main thread -> worker
+export type SimulationCommand =
+  | { type: 'START_MATCH', setup: MatchSetup }
+  | { type: 'LOAD_SAVE', save: SaveGame }
+  | { type: 'SET_RUNNING', running: boolean }
+  | { type: 'SET_OPTIONS', speed?: number, isPlayerAutoPilot?: boolean }
+  | { type: 'ATTACK', command: AttackCommand }
+  | { type: 'SCRIPT_INPUT', input: ScriptInput }
+  | { type: 'REQUEST_SAVE' }
+  | { type: 'START_REPLAY', replay: MatchReplay }
+  | { type: 'TOGGLE_REPLAY_PLAYING' }
+  | { type: 'SEEK_REPLAY', tick: number }
+  | { type: 'SET_REPLAY_SPEED', speed: number }
+  | { type: 'STOP' };
+
+// Worker -> main thread
+export type SimulationMessage =
+  | { type: 'RESET', world: GameWorld, tick: number, nextEventTime: number }
+  | { type: 'FRAME', diff: WorldDiff, tick: number, nextEventTime: number }
+  | { type: 'GAME_OVER', winner: PlayerColor | null, replay: MatchReplay | null, bonusesMet: boolean[] } // bonusesMet: scripted wins only
+  | { type: 'SAVE', save: SaveGame }
+  | { type: 'REPLAY_STATUS', status: ReplayStatus }
+  | { type: 'SCENARIO_PROGRESS', stepIndex: number, isStepShown: boolean };
@@ -0,0 +1,105 @@
+import { Node, Edge, PlayerColor, NodeType, EdgeType } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, MAX_CAPACITY_BASE, NODE_RADIUS_BASE } from '../constants';
+
+// --- Tutorial Chapter Maps ---
+// Small hand-placed boards, one per advanced chapter. Unlike the basic tutorial
+// there is no background: every node takes part in the lesson, so the step text
+// can point at each of them by id.
+
+type ChapterMap = { nodes: Node[], edges: Edge[] };
+
+const opponentOf = (playerColor: PlayerColor) => PlayerColor.RED === playerColor ? PlayerColor.BLUE : PlayerColor.RED;
+
+// Offsets are from the centre of the board
+const storyNode = (id: string, dx: number, dy: number, owner: PlayerColor, count: number, type: NodeType = 'DEFAULT'): Node => ({
+  id,
+  x: GAME_WIDTH / 2 + dx,
+  y: GAME_HEIGHT / 2 + dy,
+  owner,
+  count,
+  capacity: MAX_CAPACITY_BASE,
+  radius: NODE_RADIUS_BASE,
+  growthAccumulator: 0,
+  captureProgress: 1,
+  prevOwner: owner,
+  type
+});
+
+const link = (source: string, target: string, type: EdgeType = 'PERMANENT'): Edge => ({ source, target, type });
+
+// The player's fortress takes a scripted hit, then the player storms the enemy's
+export const buildFortressChapterMap = (playerColor: PlayerColor): ChapterMap => {
+  const enemy = opponentOf(playerColor);
+  return {
+    nodes: [
+      storyNode('fortress-player', -300, 50, playerColor, 100),
+      storyNode('fortress-player-keep', -50, -150, playerColor, 40, 'FORTRESS'),
+      storyNode('fortress-enemy-keep', 200, 100, enemy, 30, 'FORTRESS'),
+      storyNode('fortress-enemy', 250, -200, enemy, 60)
+    ],
+    edges: [
+      link('fortress-player', 'fortress-player-keep'),
+      link('fortress-player', 'fortress-enemy-keep'),
+      link('fortress-player-keep', 'fortress-enemy-keep'),
+      link('fortress-player-keep', 'fortress-enemy'),
+      link('fortress-enemy-keep', 'fortress-enemy')
+    ]
+  };
+};
+
+// A neutral hive between the two sides, and a plain colony to compare it with
+export const buildHiveChapterMap = (playerColor: PlayerColor): ChapterMap => {
+  const enemy = opponentOf(playerColor);
+  return {
+    nodes: [
+      storyNode('hive-player', -300, 0, playerColor, 50),
+      storyNode('hive-neutral', -50, -150, PlayerColor.GRAY, 20, 'HIVE'),
+      storyNode('hive-plain', -50, 150, PlayerColor.GRAY, 20),
+      storyNode('hive-enemy', 300, 0, enemy, 40)
+    ],
+    edges: [
+      link('hive-player', 'hive-neutral'),
+      link('hive-player', 'hive-plain'),
+      link('hive-neutral', 'hive-plain'),
+      link('hive-neutral', 'hive-enemy'),
+      link('hive-plain', 'hive-enemy')
+    ]
+  };
+};
+
+// A direct line between the two colonies for head-on collisions, and a detour
+export const buildCollisionChapterMap = (playerColor: PlayerColor): ChapterMap => {
+  const enemy = opponentOf(playerColor);
+  return {
+    nodes: [
+      storyNode('collision-player', -250, 0, playerColor, 60),
+      storyNode('collision-neutral', 0, -200, PlayerColor.GRAY, 15),
+      storyNode('collision-enemy', 250, 0, enemy, 80)
+    ],
+    edges: [
+      link('collision-player', 'collision-enemy'),
+      link('collision-player', 'collision-neutral'),
+      link('collision-neutral', 'collision-enemy')
+    ]
+  };
+};
+
+// The dashed shortcut is longer than any current can draw, so the scripted shift
+// is sure to sever it; every other link is permanent and the currents add none.
+export const buildCurrentsChapterMap = (playerColor: PlayerColor): ChapterMap => {
+  const enemy = opponentOf(playerColor);
+  return {
+    nodes: [
+      storyNode('currents-player', -350, 0, playerColor, 60),
+      storyNode('currents-outpost', 150, -150, PlayerColor.GRAY, 10),
+      storyNode('currents-bridge', -100, 200, PlayerColor.GRAY, 10),
+      storyNode('currents-enemy', 400, 50, enemy, 30)
+    ],
+    edges: [
+      link('currents-player', 'currents-outpost', 'RANDOM'),
+      link('currents-player', 'currents-bridge'),
+      link('currents-outpost', 'currents-enemy'),
+      link('currents-bridge', 'currents-enemy')
+    ]
+  };
+};
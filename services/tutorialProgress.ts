@@ -0,0 +1,28 @@
+// --- Tutorial Progress ---
+// The ids of the tutorial chapters the player has won, kept in localStorage.
+
+export const TUTORIAL_PROGRESS_KEY = 'microbio_tutorial_chapters';
+
+// Before chapters there was a single flag for the one tutorial, now 'basics'
+const LEGACY_COMPLETED_KEY = 'microbio_tutorial_completed';
+const LEGACY_CHAPTER_ID = 'basics';
+
+export const readCompletedChapters = (): string[] => {
+  const text = localStorage.getItem(TUTORIAL_PROGRESS_KEY);
+  if (!text) return localStorage.getItem(LEGACY_COMPLETED_KEY) === 'true' ? [LEGACY_CHAPTER_ID] : [];
+  try {
+    const ids = JSON.parse(text);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const markChapterCompleted = (id: string): string[] => {
+  const completed = readCompletedChapters();
+  if (completed.includes(id)) return completed;
+  const next = [...completed, id];
+  localStorage.setItem(TUTORIAL_PROGRESS_KEY, JSON.stringify(next));
+  localStorage.removeItem(LEGACY_COMPLETED_KEY);
+  return next;
+};
@@ -0,0 +1,43 @@
+import { PlayerColor, NodeType, EdgeType, GameMode, NodeLink } from '../types';
+
+// --- Validation ---
+// Shared by the decoders for saves, replays and map files. Whatever comes out
+// of JSON.parse starts as `unknown` and is narrowed with these before use.
+
+export type Invalid = (reason: string) => never;
+
+// A thrower that prefixes every reason with what was being read. Declare the
+// result with the `Invalid` type so the checks after each call narrow.
+export const invalidWith = (subject: string): Invalid => reason => {
+  throw new Error(`${subject}: ${reason}`);
+};
+
+export const parseJson = (text: string): unknown => JSON.parse(text);
+
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+export const isList = (v: unknown): v is unknown[] => Array.isArray(v);
+// The fields of an object to destructure and narrow one by one; none if it isn't one
+export const fieldsOf = (v: unknown): Record<string, unknown> => (isRecord(v) ? v : {});
+export const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+export const isColor = (v: unknown): v is PlayerColor => Object.values(PlayerColor).includes(v as PlayerColor);
+export const isOneOf = <T extends string>(options: readonly T[], v: unknown): v is T => options.includes(v as T);
+
+// Groups of node pairs ocean currents may link (GameWorld.currentLinks), naming only known nodes
+export const decodeLinkGroups = (v: unknown, isNodeId: (id: string) => boolean, invalid: Invalid): NodeLink[][] => {
+  if (!isList(v)) invalid('洋流连接无效');
+  return v.map(group => {
+    if (!isList(group)) invalid('洋流连接无效');
+    return group.map((link): NodeLink => {
+      if (!isList(link) || link.length !== 2) invalid('洋流连接无效');
+      const [a, b] = link;
+      if (typeof a !== 'string' || typeof b !== 'string' || !isNodeId(a) || !isNodeId(b) || a === b) invalid('洋流连接无效');
+      return [a, b];
+    });
+  });
+};
+
+// The values a file may name for each enum-like field
+export const NODE_TYPES: NodeType[] = ['DEFAULT', 'FORTRESS', 'HIVE'];
+export const EDGE_TYPES: EdgeType[] = ['PERMANENT', 'RANDOM'];
+export const GAME_MODES: GameMode[] = ['CLASSIC', 'HONEYCOMB'];
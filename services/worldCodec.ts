@@ -0,0 +1,105 @@
+import { GameWorld, Node, Edge, TravelPayload, ActiveTransfer, DifficultyLevel } from '../types';
+import { AI_PERSONALITY_SETTINGS, DIFFICULTY_LEVELS } from '../constants';
+import { Invalid, fieldsOf, isRecord, isList, isFiniteNumber, isColor, isOneOf, decodeLinkGroups, NODE_TYPES, EDGE_TYPES, GAME_MODES } from './validation';
+
+// --- World Codec ---
+// How a GameWorld is written into saves and replays. JSON cannot carry
+// Infinity, so stream transfers are written with an explicit marker instead.
+
+const STREAM_MARKER = 'STREAM';
+
+type EncodedTransfer = Omit<ActiveTransfer, 'totalToSend'> & { totalToSend: number | typeof STREAM_MARKER };
+type EncodedWorld = Omit<GameWorld, 'transfers'> & { transfers: EncodedTransfer[] };
+
+// Ready for JSON.stringify; events are transient and never written
+export const encodeWorld = (world: GameWorld): EncodedWorld => ({
+  ...world,
+  transfers: world.transfers.map(t => ({ ...t, totalToSend: t.totalToSend === Infinity ? STREAM_MARKER : t.totalToSend })),
+  latestEvents: []
+});
+
+// Every key names a color and every value passes `isValue`
+const isColorRecord = (v: unknown, isValue: (value: unknown) => boolean): boolean =>
+  isRecord(v) && Object.entries(v).every(([color, value]) => isColor(color) && isValue(value));
+
+const decodeNode = (raw: unknown, invalid: Invalid): Node => {
+  const { id, x, y, count, capacity, radius, growthAccumulator, captureProgress, owner, prevOwner, type } = fieldsOf(raw);
+  if (typeof id !== 'string') invalid('节点 ID 无效');
+  if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(count) || !isFiniteNumber(capacity) || !isFiniteNumber(radius)
+    || !isFiniteNumber(growthAccumulator) || !isFiniteNumber(captureProgress)) invalid(`节点 ${id} 数值无效`);
+  if (count < 0) invalid(`节点 ${id} 数量为负`);
+  if (!isColor(owner) || !isColor(prevOwner)) invalid(`节点 ${id} 归属无效`);
+  if (!isOneOf(NODE_TYPES, type)) invalid(`节点 ${id} 类型无效`);
+  return { id, x, y, owner, count, capacity, radius, growthAccumulator, type, captureProgress, prevOwner };
+};
+
+// Checks every field and every node reference; `invalid` says whose data was broken
+export const decodeWorld = (raw: unknown, invalid: Invalid): GameWorld => {
+  const { nodes, edges, payloads, transfers, rngState, mode, oceanCurrents, currentLinks, aiPersonalities, aiDifficulties } = fieldsOf(raw);
+  if (!isList(nodes) || !isList(edges) || !isList(payloads) || !isList(transfers)) invalid('缺少世界数据');
+  if (!isFiniteNumber(rngState)) invalid('随机数状态无效');
+  if (!isOneOf(GAME_MODES, mode)) invalid('游戏模式无效');
+  if (oceanCurrents !== undefined && typeof oceanCurrents !== 'boolean') invalid('洋流设置无效');
+  if (aiPersonalities !== undefined && !isColorRecord(aiPersonalities, p => isOneOf(Object.keys(AI_PERSONALITY_SETTINGS), p))) {
+    invalid('AI 性格无效');
+  }
+  if (aiDifficulties !== undefined && !isColorRecord(aiDifficulties, level => DIFFICULTY_LEVELS.includes(level as DifficultyLevel))) {
+    invalid('AI 难度无效');
+  }
+
+  const decodedNodes = nodes.map(n => decodeNode(n, invalid));
+  const nodeIds = new Set<string>();
+  decodedNodes.forEach(n => {
+    if (nodeIds.has(n.id)) invalid('节点 ID 无效');
+    nodeIds.add(n.id);
+  });
+  const isNodeId = (v: unknown): v is string => typeof v === 'string' && nodeIds.has(v);
+
+  const decodedEdges = edges.map((e): Edge => {
+    const { source, target, type } = fieldsOf(e);
+    if (!isNodeId(source) || !isNodeId(target) || !isOneOf(EDGE_TYPES, type)) invalid('连接无效');
+    return { source, target, type };
+  });
+
+  const decodedPayloads = payloads.map((p): TravelPayload => {
+    const { id, sourceId, targetId, owner, count, progress, speed, startX, startY, endX, endY, overflowHops } = fieldsOf(p);
+    if (typeof id !== 'string' || !isNodeId(sourceId) || !isNodeId(targetId) || !isColor(owner)) invalid('孢子数据无效');
+    if (!isFiniteNumber(count) || !isFiniteNumber(progress) || !isFiniteNumber(speed) || !isFiniteNumber(startX)
+      || !isFiniteNumber(startY) || !isFiniteNumber(endX) || !isFiniteNumber(endY)) invalid('孢子数值无效');
+    if (overflowHops !== undefined && !isFiniteNumber(overflowHops)) invalid('孢子数值无效');
+    const payload: TravelPayload = { id, sourceId, targetId, owner, count, progress, speed, startX, startY, endX, endY };
+    if (isFiniteNumber(overflowHops)) payload.overflowHops = overflowHops;
+    return payload;
+  });
+
+  const decodedTransfers = transfers.map((t): ActiveTransfer => {
+    const { id, sourceId, targetId, owner, totalToSend, sentCount, lastSpawnTime, startX, startY, endX, endY, holdUntil } = fieldsOf(t);
+    if (typeof id !== 'string' || !isNodeId(sourceId) || !isNodeId(targetId) || !isColor(owner)) invalid('输送数据无效');
+    if (totalToSend !== STREAM_MARKER && !isFiniteNumber(totalToSend)) invalid('输送数量无效');
+    if (!isFiniteNumber(sentCount) || !isFiniteNumber(lastSpawnTime) || !isFiniteNumber(startX) || !isFiniteNumber(startY)
+      || !isFiniteNumber(endX) || !isFiniteNumber(endY)) invalid('输送数值无效');
+    if (holdUntil !== undefined && !isFiniteNumber(holdUntil)) invalid('输送计时无效');
+    const transfer: ActiveTransfer = {
+      id, sourceId, targetId, owner,
+      totalToSend: totalToSend === STREAM_MARKER ? Infinity : totalToSend as number,
+      sentCount, lastSpawnTime, startX, startY, endX, endY
+    };
+    if (isFiniteNumber(holdUntil)) transfer.holdUntil = holdUntil;
+    return transfer;
+  });
+
+  const world: GameWorld = {
+    nodes: decodedNodes,
+    edges: decodedEdges,
+    payloads: decodedPayloads,
+    transfers: decodedTransfers,
+    latestEvents: [],
+    rngState,
+    mode
+  };
+  if (typeof oceanCurrents === 'boolean') world.oceanCurrents = oceanCurrents;
+  if (currentLinks !== undefined) world.currentLinks = decodeLinkGroups(currentLinks, isNodeId, invalid);
+  if (aiPersonalities !== undefined) world.aiPersonalities = aiPersonalities as GameWorld['aiPersonalities'];
+  if (aiDifficulties !== undefined) world.aiDifficulties = aiDifficulties as GameWorld['aiDifficulties'];
+  return world;
+};
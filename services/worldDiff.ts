@@ -0,0 +1,104 @@
+import { GameWorld, Node, Edge, TravelPayload, ActiveTransfer, GameEvent } from '../types';
+
+// --- World Diffs ---
+// The simulation worker posts what changed since its last message instead of the
+// whole world. Payloads only ever advance by their own speed each tick, so the
+// receiver moves them itself and only hears about spawns and removals.
+
+export interface WorldDiff {
+  steps: number; // Ticks simulated since the previous diff
+  nodes: [number, Node][]; // [index, node] for every node that changed
+  edges?: Edge[]; // Only present after a topology change
+  payloadsAdded: TravelPayload[];
+  payloadsRemoved: string[];
+  transfers?: ActiveTransfer[]; // Only present when any transfer changed
+  events: GameEvent[];
+  rngState: number;
+}
+
+// What the sender last told the receiver about
+export interface DiffTracker {
+  nodes: Node[];
+  edges: Edge[];
+  payloadIds: Set<string>;
+  transferSignature: string;
+}
+
+// Transfers are mutated in place while they spawn, so compare by content
+const signTransfers = (transfers: ActiveTransfer[]) =>
+  transfers.map(t => `${t.id}:${t.sentCount}:${t.lastSpawnTime}`).join('|');
+
+export const createDiffTracker = (world: GameWorld): DiffTracker => ({
+  nodes: world.nodes,
+  edges: world.edges,
+  payloadIds: new Set(world.payloads.map(p => p.id)),
+  transferSignature: signTransfers(world.transfers)
+});
+
+// Describe how `world` differs from what the tracker last saw, then remember `world`.
+// Payloads and transfers are copied because the simulation keeps mutating its own.
+export const diffWorld = (tracker: DiffTracker, world: GameWorld, steps: number, events: GameEvent[]): WorldDiff => {
+  const nodes: [number, Node][] = [];
+  world.nodes.forEach((n, i) => {
+    if (tracker.nodes[i] !== n) nodes.push([i, n]);
+  });
+
+  const currentIds = new Set<string>();
+  const payloadsAdded: TravelPayload[] = [];
+  world.payloads.forEach(p => {
+    currentIds.add(p.id);
+    if (!tracker.payloadIds.has(p.id)) payloadsAdded.push({ ...p });
+  });
+  const payloadsRemoved = Array.from(tracker.payloadIds).filter(id => !currentIds.has(id));
+
+  const transferSignature = signTransfers(world.transfers);
+
+  const diff: WorldDiff = {
+    steps,
+    nodes,
+    payloadsAdded,
+    payloadsRemoved,
+    events,
+    rngState: world.rngState
+  };
+  if (world.edges !== tracker.edges) diff.edges = world.edges;
+  if (transferSignature !== tracker.transferSignature) diff.transfers = world.transfers.map(t => ({ ...t }));
+
+  tracker.nodes = world.nodes;
+  tracker.edges = world.edges;
+  tracker.payloadIds = currentIds;
+  tracker.transferSignature = transferSignature;
+  return diff;
+};
+
+export const applyWorldDiff = (world: GameWorld, diff: WorldDiff): GameWorld => {
+  const nodes = diff.nodes.length > 0 ? [...world.nodes] : world.nodes;
+  diff.nodes.forEach(([index, node]) => {
+    nodes[index] = node;
+  });
+
+  const removed = new Set(diff.payloadsRemoved);
+  const payloads: TravelPayload[] = [];
+  world.payloads.forEach(p => {
+    if (removed.has(p.id)) return;
+    // Same arithmetic as the simulation, one tick at a time, so progress matches exactly
+    let progress = p.progress;
+    for (let i = 0; i < diff.steps; i++) progress += p.speed;
+    payloads.push({ ...p, progress });
+  });
+  payloads.push(...diff.payloadsAdded);
+
+  return {
+    nodes,
+    edges: diff.edges ?? world.edges,
+    payloads,
+    transfers: diff.transfers ?? world.transfers,
+    latestEvents: diff.events,
+    rngState: diff.rngState,
+    mode: world.mode,
+    oceanCurrents: world.oceanCurrents,
+    currentLinks: world.currentLinks,
+    aiPersonalities: world.aiPersonalities,
+    aiDifficulties: world.aiDifficulties
+  };
+};
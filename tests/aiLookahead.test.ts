@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Edge, GameWorld, PlayerColor, AIMove } from '../types';
+import { DIFFICULTY_SETTINGS, CUSTOM_GAME_LIMITS, DEFAULT_NODE_COUNT, LOOKAHEAD_BUDGET, PLAYABLE_COLORS, TICK_RATE_MS } from '../constants';
+import { lookAhead, evaluatePosition, Sandbox } from '../services/aiLookahead';
+import { planMoves } from '../services/aiPlanner';
+import { calculateAIMoves, getAIFactions } from '../services/aiStrategies';
+import { advanceGameState } from '../services/gamePhysics';
+import { generateMap } from '../services/gameLogic';
+import { createRng } from '../services/random';
+import { makeNode, makeWorld, makeArrivingPayload, worldArb, withRandomStreams, quietContext } from './helpers';
+
+const ai = PlayerColor.RED;
+const enemy = PlayerColor.BLUE;
+const EXPERT = DIFFICULTY_SETTINGS[7];
+
+const link = (a: string, b: string): Edge => ({ source: a, target: b, type: 'PERMANENT' });
+
+// Likes every target equally, so only the play-outs decide
+const INDIFFERENT = { minSourceCount: 10, scoreTarget: () => 100 };
+
+// Two neutrals within reach, so there is more than one plan to weigh
+const crossroads = () => makeWorld(
+  [makeNode('s', { owner: ai, count: 60 }), makeNode('a', { count: 12 }), makeNode('b', { count: 5 }), makeNode('e', { owner: enemy, count: 30 })],
+  [link('s', 'a'), link('s', 'b'), link('a', 'e')]
+);
+
+// Two strongholds with several neutrals around them, enough candidates to outrun any budget
+const frontier = () => makeWorld(
+  [
+    makeNode('s', { owner: ai, count: 80 }), makeNode('t', { owner: ai, count: 80 }),
+    makeNode('a', { count: 12 }), makeNode('b', { count: 5 }), makeNode('c', { count: 8 }), makeNode('d', { count: 3 }),
+    makeNode('e', { owner: enemy, count: 30 })
+  ],
+  [link('s', 'a'), link('s', 'b'), link('s', 'c'), link('t', 'c'), link('t', 'd'), link('a', 'e'), link('d', 'e')]
+);
+
+describe('evaluatePosition', () => {
+  it('counts a capture as made once enough units are heading for it', () => {
+    const source = makeNode('s', { owner: ai, count: 0 });
+    const target = makeNode('n', { count: 5 });
+    const inbound = (count: number) => makeWorld([source, target], [link('s', 'n')], {
+      payloads: Array.from({ length: count }, (_, i) => makeArrivingPayload(`p${i}`, source, target, ai))
+    });
+    // The source is worth 30; six units are enough to take a node worth 30 that holds five
+    expect(evaluatePosition(inbound(3), ai)).toBe(30 + 3);
+    expect(evaluatePosition(inbound(6), ai)).toBe(30 + 6 + 30 - 5);
+  });
+});
+
+describe('lookAhead', () => {
+  const plan = (world: GameWorld) => planMoves(world, ai, EXPERT, createRng(1), INDIFFERENT);
+
+  it('carries out whichever candidate plays out best', () => {
+    // A sandbox in which only standing still pays off
+    const sandbox: Sandbox = {
+      budget: LOOKAHEAD_BUDGET,
+      playOut: (world, moves) => (moves.length === 0 ? { ...world, nodes: world.nodes.map(n => ({ ...n, owner: ai })) } : world)
+    };
+    expect(plan(crossroads()).length).toBeGreaterThan(0);
+    expect(lookAhead(crossroads(), ai, EXPERT, createRng(1), INDIFFERENT, sandbox)).toEqual([]);
+  });
+
+  it('weighs only as many candidates as its budget pays for on the board at hand', () => {
+    const tried = (budget: number) => {
+      const moves: AIMove[][] = [];
+      lookAhead(frontier(), ai, EXPERT, createRng(1), INDIFFERENT, { budget, playOut: (world, m) => (moves.push(m), world) });
+      return moves.length;
+    };
+    // A play-out is 60 ticks of seven nodes
+    expect(tried(4 * 60 * 7)).toBe(4);
+    expect(tried(4 * 60 * 7 - 1)).toBe(3);
+    // Too little for a second candidate is nothing to compare the plan with
+    expect(tried(2 * 60 * 7 - 1)).toBe(0);
+  });
+
+  it.each([DEFAULT_NODE_COUNT, CUSTOM_GAME_LIMITS.nodeCount.max])('keeps a whole expert step on a %i-node map inside one budget', nodeCount => {
+    const { nodes, edges } = generateMap(enemy, 5, nodeCount);
+    const world = makeWorld(nodes, edges);
+    let spent = 0;
+    const sandbox: Sandbox = {
+      budget: LOOKAHEAD_BUDGET,
+      playOut: (w, _, durationMs) => {
+        spent += Math.ceil(durationMs / TICK_RATE_MS) * w.nodes.length;
+        return w;
+      }
+    };
+    const factions = getAIFactions(world.nodes, enemy, true);
+    expect(factions).toHaveLength(PLAYABLE_COLORS.length);
+    calculateAIMoves(world, factions, 7, createRng(1), sandbox);
+    expect(spent).toBeLessThanOrEqual(LOOKAHEAD_BUDGET);
+  });
+
+  it('keeps the plan on a host too slow even for the node-tick budget', () => {
+    const tried: AIMove[][] = [];
+    const sandbox: Sandbox = {
+      budget: LOOKAHEAD_BUDGET,
+      playOut: (world, moves, _, deadline) => {
+        tried.push(moves);
+        return deadline !== undefined && sandbox.clock!() > deadline ? null : world;
+      },
+      clock: () => tried.length * 60
+    };
+    expect(lookAhead(crossroads(), ai, EXPERT, createRng(1), INDIFFERENT, sandbox)).toEqual(plan(crossroads()));
+    // Each play-out takes 60ms, so the second one runs past the safety net
+    expect(tried).toHaveLength(2);
+  });
+
+  it('makes the same moves whether or not the worker clock is wired in', () => {
+    const { nodes, edges, rngState } = generateMap(PlayerColor.BLUE, 99);
+    let world = makeWorld(nodes, edges, { rngState });
+    let lastAITime = 0;
+    for (let tick = 0; tick < 200; tick++) {
+      const result = advanceGameState(world, quietContext(tick, { lastAITime, difficulty: 5, isPlayerAutoPilot: true }));
+      world = result.world;
+      lastAITime = result.lastAITime;
+    }
+
+    const think = (clock?: () => number) =>
+      advanceGameState(structuredClone(world), quietContext(200, { lastAITime: 0, difficulty: 7, isPlayerAutoPilot: true, clock })).aiMoves;
+    const moves = think();
+    expect(moves.length).toBeGreaterThan(0);
+    expect(think(() => performance.now())).toEqual(moves);
+  });
+
+  it('plays candidates out without disturbing the match and decides the same way every time', () => {
+    const picks = fc.array(fc.nat(), { minLength: 1, maxLength: 5 });
+    fc.assert(fc.property(worldArb(3, 8), picks, (w, streamPicks) => {
+      // Give the sandbox payloads and transfers to trip over
+      let world = withRandomStreams(w, streamPicks);
+      for (let tick = 0; tick < 20; tick++) world = advanceGameState(world, quietContext(tick)).world;
+
+      const think = (difficulty: 6 | 7) => advanceGameState(structuredClone(world), quietContext(20, { lastAITime: 0, difficulty }));
+      const expert = think(7);
+      const planner = think(6);
+      expect(think(7).aiMoves).toEqual(expert.aiMoves);
+      // Only the orders may differ; everything the sandbox played with must come out as it would anyway
+      expect(expert.world.nodes).toEqual(planner.world.nodes);
+      expect(expert.world.payloads).toEqual(planner.world.payloads);
+    }), { numRuns: 20 });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Node, Edge, GameWorld, PlayerColor, ActiveTransfer } from '../types';
+import { DIFFICULTY_SETTINGS, TICK_RATE_MS } from '../constants';
+import { planMoves, captureCost, surveyBattlefield, landingTime } from '../services/aiPlanner';
+import { advanceGameState } from '../services/gamePhysics';
+import { createRng } from '../services/random';
+import { makeNode, makeWorld, makeArrivingPayload, worldArb, quietContext } from './helpers';
+
+const ai = PlayerColor.RED;
+const enemy = PlayerColor.BLUE;
+
+const link = (a: string, b: string): Edge => ({ source: a, target: b, type: 'PERMANENT' });
+
+// Likes every target equally, so only the planning itself is under test
+const INDIFFERENT = { minSourceCount: 10, scoreTarget: () => 100 };
+const plan = (world: GameWorld, seed = 1) => planMoves(world, ai, DIFFICULTY_SETTINGS[6], createRng(seed), INDIFFERENT);
+
+const queuedTransfer = (source: Node, target: Node, owner: PlayerColor, totalToSend: number): ActiveTransfer => ({
+  id: `t-${source.id}`,
+  sourceId: source.id,
+  targetId: target.id,
+  owner,
+  totalToSend,
+  sentCount: 0,
+  lastSpawnTime: 0,
+  startX: source.x,
+  startY: source.y,
+  endX: target.x,
+  endY: target.y
+});
+
+describe('captureCost', () => {
+  const source = makeNode('s', { owner: ai, count: 60 });
+
+  it('asks for one more than a neutral holds, plus a growth margin against owned nodes', () => {
+    const targets = [
+      makeNode('neutral', { count: 12 }),
+      makeNode('plain', { owner: enemy, count: 20 }),
+      makeNode('fort', { owner: enemy, count: 10, type: 'FORTRESS' })
+    ];
+    const field = surveyBattlefield(makeWorld([source, ...targets], targets.map(t => link('s', t.id))));
+    expect(targets.map(t => captureCost(t, field, ai))).toEqual([13, 24, 26]);
+  });
+
+  it('counts our units already on the way and reinforcements for the defender', () => {
+    const target = makeNode('t', { owner: enemy, count: 20 });
+    const helper = makeNode('h', { owner: enemy, count: 50 });
+    const world = makeWorld([source, target, helper], [link('s', 't'), link('h', 't')], {
+      payloads: Array.from({ length: 10 }, (_, i) => makeArrivingPayload(`p${i}`, source, target, ai)),
+      transfers: [queuedTransfer(helper, target, enemy, 10)]
+    });
+    // 30 defenders need 30 + 5 to fall; 10 of ours are in flight
+    expect(captureCost(target, surveyBattlefield(world), ai)).toBe(25);
+  });
+});
+
+describe('planMoves', () => {
+  it('sends exactly what a capture takes', () => {
+    const world = makeWorld(
+      [makeNode('s', { owner: ai, count: 60 }), makeNode('n', { count: 12 })],
+      [link('s', 'n')]
+    );
+    expect(plan(world)).toEqual([{ from: 's', to: 'n', amount: 13 }]);
+  });
+
+  it('leaves targets alone once enough units are already on the way', () => {
+    const source = makeNode('s', { owner: ai, count: 60 });
+    const target = makeNode('n', { count: 12 });
+    const world = makeWorld([source, target], [link('s', 'n')], { transfers: [queuedTransfer(source, target, ai, 13)] });
+    expect(plan(world)).toEqual([]);
+  });
+
+  it('reinforces a node that would fall to the payloads and transfers heading its way', () => {
+    const threatened = (type: Node['type']) => {
+      const a = makeNode('a', { owner: ai, count: 10, type });
+      const b = makeNode('b', { owner: ai, count: 60 });
+      const e = makeNode('e', { owner: enemy, count: 200 });
+      return makeWorld([a, b, e], [link('a', 'b'), link('a', 'e')], {
+        payloads: Array.from({ length: 20 }, (_, i) => makeArrivingPayload(`p${i}`, e, a, enemy)),
+        transfers: [queuedTransfer(e, a, enemy, 10)]
+      });
+    };
+    // 30 attackers against 10 defenders, and one to spare
+    expect(plan(threatened('DEFAULT'))).toEqual([{ from: 'b', to: 'a', amount: 21 }]);
+    // A fortress only takes half of it
+    expect(plan(threatened('FORTRESS'))).toEqual([{ from: 'b', to: 'a', amount: 6 }]);
+  });
+
+  it('does not feed a node it cannot save', () => {
+    const a = makeNode('a', { owner: ai, count: 10 });
+    const b = makeNode('b', { owner: ai, count: 15 });
+    const e = makeNode('e', { owner: enemy, count: 200 });
+    const world = makeWorld([a, b, e], [link('a', 'b'), link('a', 'e')], {
+      payloads: Array.from({ length: 40 }, (_, i) => makeArrivingPayload(`p${i}`, e, a, enemy))
+    });
+    expect(plan(world)).toEqual([]);
+  });
+
+  // Neither side can afford the fortress on its own
+  const pincer = () => {
+    const near = makeNode('near', { owner: ai, count: 45, x: -100 });
+    const far = makeNode('far', { owner: ai, count: 45, x: 400 });
+    const fort = makeNode('fort', { owner: enemy, count: 20, type: 'FORTRESS' });
+    return { near, far, fort, world: makeWorld([near, far, fort], [link('near', 'fort'), link('far', 'fort')]) };
+  };
+
+  it('strikes a target from several sides, holding back whichever side would land first', () => {
+    const { near, far, fort, world } = pincer();
+    const moves = plan(world);
+    expect(moves.map(m => m.from).sort()).toEqual(['far', 'near']);
+    expect(moves.every(m => m.to === 'fort' && m.amount! < captureCost(fort, surveyBattlefield(world), ai))).toBe(true);
+    expect(moves.reduce((sum, m) => sum + m.amount!, 0)).toBeGreaterThanOrEqual(captureCost(fort, surveyBattlefield(world), ai));
+
+    const arrivals = moves.map(m => landingTime(m.from === 'near' ? near : far, fort, m.amount!) + (m.delayMs ?? 0));
+    expect(Math.abs(arrivals[0] - arrivals[1])).toBeLessThanOrEqual(1);
+    expect(moves.filter(m => m.delayMs)).toHaveLength(1);
+  });
+
+  it('lands every part of a strike together and takes the target', () => {
+    const { near, far, fort, world: start } = pincer();
+    let world: GameWorld = {
+      ...start,
+      transfers: plan(start).map(({ from, amount, delayMs }) => ({
+        ...queuedTransfer(from === 'near' ? near : far, fort, ai, amount!),
+        holdUntil: delayMs ?? 0
+      }))
+    };
+
+    // Tick by tick until the last unit from each side has landed
+    const lastLanding = new Map<string, number>();
+    for (let tick = 0; world.transfers.length > 0 || world.payloads.length > 0; tick++) {
+      world = advanceGameState(world, quietContext(tick)).world;
+      world.latestEvents.forEach(e => {
+        if (e.type === 'IMPACT') lastLanding.set(e.sourceId, tick * TICK_RATE_MS);
+      });
+    }
+
+    expect(world.nodes.find(n => n.id === 'fort')!.owner).toBe(ai);
+    expect(Math.abs(lastLanding.get('near')! - lastLanding.get('far')!)).toBeLessThanOrEqual(3 * TICK_RATE_MS);
+  });
+
+  it('expects farther and larger sends to take longer to land', () => {
+    const target = makeNode('t');
+    const source = makeNode('s', { owner: ai, count: 40, x: 200 });
+    expect(landingTime({ ...source, x: 400 }, target, 10)).toBeGreaterThan(landingTime(source, target, 10));
+    expect(landingTime(source, target, 20)).toBeGreaterThan(landingTime(source, target, 10));
+  });
+
+  it('walks surplus from the interior towards the frontier one hop at a time', () => {
+    const world = makeWorld(
+      [
+        makeNode('front', { owner: ai, count: 20 }),
+        makeNode('middle', { owner: ai, count: 50 }),
+        makeNode('back', { owner: ai, count: 100 }),
+        makeNode('wall', { owner: enemy, count: 200 })
+      ],
+      [link('wall', 'front'), link('front', 'middle'), link('middle', 'back')]
+    );
+    // Interior nodes keep enough to grow at a good rate
+    expect(plan(world)).toEqual([
+      { from: 'middle', to: 'front', amount: 10 },
+      { from: 'back', to: 'middle', amount: 60 }
+    ]);
+  });
+
+  it('only moves its own units to neighbours and never commits more than a node holds', () => {
+    fc.assert(fc.property(worldArb(3, 14), fc.integer({ min: 0, max: 0xFFFFFFFF }), (world, seed) => {
+      const moves = plan(world, seed);
+      const sent = new Map<string, number>();
+      moves.forEach(({ from, to, amount }) => {
+        expect(world.nodes.find(n => n.id === from)!.owner).toBe(ai);
+        expect(world.edges.some(e => (e.source === from && e.target === to) || (e.source === to && e.target === from))).toBe(true);
+        expect(amount).toBeGreaterThanOrEqual(1);
+        sent.set(from, (sent.get(from) ?? 0) + amount!);
+      });
+      sent.forEach((total, id) => {
+        expect(total).toBeLessThan(world.nodes.find(n => n.id === id)!.count);
+      });
+    }));
+  });
+});
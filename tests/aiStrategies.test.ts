@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Node, Edge, GameWorld, PlayerColor, AIPersonality } from '../types';
+import { DIFFICULTY_SETTINGS, TICK_RATE_MS } from '../constants';
+import { AI_STRATEGIES, calculateAIMoves, getAIFactions, pickPersonalities, lineUpOpponents } from '../services/aiStrategies';
+import { advanceGameState } from '../services/gamePhysics';
+import { createRng } from '../services/random';
+import { makeNode, makeWorld, makeArrivingPayload, worldArb, quietContext } from './helpers';
+
+const ai = PlayerColor.RED;
+
+// A source in the middle linked to every other node
+const star = (source: Node, others: Node[], overrides: Partial<GameWorld> = {}): GameWorld => {
+  const edges: Edge[] = others.map(n => ({ source: source.id, target: n.id, type: 'PERMANENT' }));
+  return makeWorld([source, ...others], edges, overrides);
+};
+
+// Node-by-node play that never hesitates and lets every node act, so only the scores decide
+const GREEDY = { ...DIFFICULTY_SETTINGS[6], plansAhead: false };
+const plan = (personality: AIPersonality, world: GameWorld, seed: number) =>
+  AI_STRATEGIES[personality](world, ai, { settings: GREEDY, rng: createRng(seed) });
+
+const seeds = fc.integer({ min: 0, max: 0xFFFFFFFF });
+
+describe('AI personalities', () => {
+  const source = makeNode('s', { owner: ai, count: 40 });
+  const specials = star(source, [
+    makeNode('fort', { type: 'FORTRESS', count: 10 }),
+    makeNode('hive', { type: 'HIVE', count: 10 })
+  ]);
+
+  it('turtles go for fortresses and economists for hives', () => {
+    fc.assert(fc.property(seeds, seed => {
+      expect(plan('TURTLE', specials, seed)).toEqual([{ from: 's', to: 'fort' }]);
+      expect(plan('ECONOMIST', specials, seed)).toEqual([{ from: 's', to: 'hive' }]);
+    }));
+  });
+
+  it('turtles hold back from fights they would not win twice over', () => {
+    const world = star(source, [makeNode('e', { owner: PlayerColor.BLUE, count: 25 })]);
+    fc.assert(fc.property(seeds, seed => {
+      expect(plan('BALANCED', world, seed)).toEqual([{ from: 's', to: 'e' }]);
+      expect(plan('TURTLE', world, seed)).toEqual([]);
+    }));
+  });
+
+  it('rushers attack from nodes too small for anyone else', () => {
+    const world = star(makeNode('s', { owner: ai, count: 8 }), [makeNode('e', { owner: PlayerColor.BLUE, count: 5 })]);
+    fc.assert(fc.property(seeds, seed => {
+      expect(plan('RUSHER', world, seed)).toEqual([{ from: 's', to: 'e' }]);
+      expect(plan('BALANCED', world, seed)).toEqual([]);
+    }));
+  });
+
+  it('opportunists strike the node that is already under fire', () => {
+    const besieged = makeNode('besieged', { owner: PlayerColor.BLUE, count: 35 });
+    const quiet = makeNode('quiet', { owner: PlayerColor.BLUE, count: 30 });
+    const attacker = makeNode('attacker', { owner: PlayerColor.GREEN });
+    const payloads = Array.from({ length: 30 }, (_, i) => makeArrivingPayload(`p${i}`, attacker, besieged, PlayerColor.GREEN));
+    const world = star(source, [besieged, quiet], { payloads });
+    world.nodes.push(attacker);
+
+    fc.assert(fc.property(seeds, seed => {
+      expect(plan('OPPORTUNIST', world, seed)).toEqual([{ from: 's', to: 'besieged' }]);
+    }));
+  });
+});
+
+describe('calculateAIMoves', () => {
+  it('runs the personality registered for each faction', () => {
+    const world = star(makeNode('s', { owner: ai, count: 40 }), [makeNode('e', { owner: PlayerColor.BLUE, count: 25 })]);
+    expect(calculateAIMoves(world, [ai], 6, createRng(1))).toEqual([{ from: 's', to: 'e', amount: 30 }]);
+    const turtling = { ...world, aiPersonalities: { [ai]: 'TURTLE' as const } };
+    expect(calculateAIMoves(turtling, [ai], 6, createRng(1))).toEqual([]);
+  });
+
+  it('plays each faction at its own difficulty', () => {
+    // Three hubs per faction, each next to an empty neutral it always wants
+    const hubs = [ai, PlayerColor.GREEN].flatMap(owner => [0, 1, 2].flatMap(i => [
+      makeNode(`${owner}-hub${i}`, { owner, count: 100 }),
+      makeNode(`${owner}-leaf${i}`, { count: 0 })
+    ]));
+    const edges: Edge[] = hubs.filter((_, i) => i % 2 === 0).map(hub => ({ source: hub.id, target: hub.id.replace('hub', 'leaf'), type: 'PERMANENT' }));
+    const mixed = makeWorld(hubs, edges, { aiDifficulties: { [ai]: 6, [PlayerColor.GREEN]: 1 } });
+
+    fc.assert(fc.property(seeds, seed => {
+      const moves = calculateAIMoves(mixed, [ai, PlayerColor.GREEN], 3, createRng(seed));
+      // Level 6 never hesitates and acts everywhere; level 1 manages one node at most
+      expect(moves.filter(m => m.from.startsWith(ai))).toHaveLength(3);
+      expect(moves.filter(m => m.from.startsWith(PlayerColor.GREEN)).length).toBeLessThanOrEqual(1);
+    }));
+  });
+
+  it('is deterministic for the same rng state and only moves the given factions to neighbours', () => {
+    const personalities = fc.constantFrom<AIPersonality>(...(Object.keys(AI_STRATEGIES) as AIPersonality[]));
+    fc.assert(fc.property(worldArb(3, 12), personalities, seeds, (w, personality, seed) => {
+      const world = { ...w, aiPersonalities: { [PlayerColor.RED]: personality, [PlayerColor.GREEN]: personality } };
+      const factions = getAIFactions(world.nodes, PlayerColor.BLUE, false);
+      const moves = calculateAIMoves(world, factions, 6, createRng(seed));
+      expect(calculateAIMoves(world, factions, 6, createRng(seed))).toEqual(moves);
+      moves.forEach(({ from, to }) => {
+        expect(factions).toContain(world.nodes.find(n => n.id === from)!.owner);
+        expect(world.edges.some(e => (e.source === from && e.target === to) || (e.source === to && e.target === from))).toBe(true);
+      });
+    }));
+  });
+});
+
+describe('getAIFactions', () => {
+  const nodes = [makeNode('a', { owner: PlayerColor.BLUE }), makeNode('b', { owner: ai }), makeNode('c')];
+
+  it('lists the factions on the board, leaving out the player unless on autopilot', () => {
+    expect(getAIFactions(nodes, PlayerColor.BLUE, false)).toEqual([ai]);
+    expect(getAIFactions(nodes, PlayerColor.BLUE, true)).toEqual([ai, PlayerColor.BLUE]);
+  });
+});
+
+describe('AI pacing', () => {
+  it('lets slower factions sit out wake-ups that do not cross their own interval', () => {
+    const hubs = [ai, PlayerColor.GREEN].flatMap(owner => [
+      makeNode(`${owner}-hub`, { owner, count: 100 }),
+      makeNode(`${owner}-leaf`, { count: 0 })
+    ]);
+    const edges: Edge[] = [ai, PlayerColor.GREEN].map(owner => ({ source: `${owner}-hub`, target: `${owner}-leaf`, type: 'PERMANENT' }));
+    // RED thinks every 1000ms, GREEN every 2000ms
+    const world = makeWorld(hubs, edges, { aiDifficulties: { [ai]: 6, [PlayerColor.GREEN]: 1 } });
+
+    // Woken at 2100ms and again at 3150ms: RED crossed 3000ms, GREEN is still inside 2000-4000ms
+    const result = advanceGameState(world, quietContext(3150 / TICK_RATE_MS, { lastAITime: 2100 }));
+    expect(result.lastAITime).toBe(3150);
+    expect(result.aiMoves).toEqual([{ from: `${ai}-hub`, to: `${ai}-leaf`, amount: 1 }]);
+  });
+});
+
+describe('pickPersonalities', () => {
+  it('gives opponents distinct personalities fixed by the seed', () => {
+    const opponents = [PlayerColor.RED, PlayerColor.GREEN, PlayerColor.PURPLE];
+    fc.assert(fc.property(seeds, seed => {
+      const picked = pickPersonalities(opponents, seed);
+      expect(pickPersonalities(opponents, seed)).toEqual(picked);
+      expect(new Set(Object.values(picked)).size).toBe(opponents.length);
+      expect(Object.values(picked)).not.toContain('BALANCED');
+    }));
+  });
+
+  it('keeps the picks made on the setup screen and draws the rest', () => {
+    const lineup = lineUpOpponents([PlayerColor.RED, PlayerColor.GREEN], { [PlayerColor.RED]: { difficulty: 6, personality: 'TURTLE' }, [PlayerColor.GREEN]: {} }, 7);
+    expect(lineup.aiPersonalities![PlayerColor.RED]).toBe('TURTLE');
+    expect(lineup.aiPersonalities![PlayerColor.GREEN]).toBe(pickPersonalities([PlayerColor.RED, PlayerColor.GREEN], 7)[PlayerColor.GREEN]);
+    expect(lineup.aiDifficulties).toEqual({ [PlayerColor.RED]: 6 });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor } from '../types';
+import { CAMPAIGN_MISSIONS } from '../data/campaign';
+import { SCENARIOS } from '../data/scenarios';
+import { decodeMap, encodeMap } from '../services/mapFile';
+import { buildGraphIndex, hopDistances } from '../services/graphIndex';
+import { missionStars, isMissionUnlocked } from '../services/campaignProgress';
+import { scriptNodeIds } from './helpers';
+
+describe('campaign missions', () => {
+  it('offers 15 to 20 missions, each registered under its own id', () => {
+    expect(CAMPAIGN_MISSIONS.length).toBeGreaterThanOrEqual(15);
+    expect(CAMPAIGN_MISSIONS.length).toBeLessThanOrEqual(20);
+    CAMPAIGN_MISSIONS.forEach(mission => expect(SCENARIOS[mission.id]).toBe(mission));
+  });
+
+  it.each(CAMPAIGN_MISSIONS.map(m => [m.id, m] as const))('%s: has a valid map that currents cannot split', (_, mission) => {
+    const map = decodeMap(encodeMap(mission.map));
+    const backbone = buildGraphIndex(map.nodes, map.edges.filter(e => e.type === 'PERMANENT'));
+    expect(hopDistances(backbone, map.nodes[0].id).size).toBe(map.nodes.length);
+
+    const ids = new Set(map.nodes.map(n => n.id));
+    scriptNodeIds(mission).forEach(id => expect(ids.has(id)).toBe(true));
+  });
+
+  it('seats the player on the first slot in whichever color they picked', () => {
+    const mission = CAMPAIGN_MISSIONS[0];
+    const { nodes } = mission.buildMap(PlayerColor.RED);
+    expect(nodes.find(n => n.id === mission.map.startSlots[0])!.owner).toBe(PlayerColor.RED);
+    expect(nodes.find(n => n.id === mission.map.startSlots[1])!.owner).not.toBe(PlayerColor.RED);
+  });
+});
+
+describe('campaign progress', () => {
+  it('awards a star for the win and one per bonus met', () => {
+    expect(missionStars([])).toBe(1);
+    expect(missionStars([true, false])).toBe(2);
+    expect(missionStars([true, true])).toBe(3);
+  });
+
+  it('unlocks each mission once the one before it has been won', () => {
+    expect(isMissionUnlocked(CAMPAIGN_MISSIONS, 0, {})).toBe(true);
+    expect(isMissionUnlocked(CAMPAIGN_MISSIONS, 1, {})).toBe(false);
+    expect(isMissionUnlocked(CAMPAIGN_MISSIONS, 1, { [CAMPAIGN_MISSIONS[0].id]: 1 })).toBe(true);
+    expect(isMissionUnlocked(CAMPAIGN_MISSIONS, 2, { [CAMPAIGN_MISSIONS[0].id]: 3 })).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameEvent, PlayerColor } from '../types';
+import { createEventBus } from '../services/gameEvents';
+
+const elimination: GameEvent = { type: 'ELIMINATION', tick: 3, faction: PlayerColor.RED };
+const capture: GameEvent = { type: 'CAPTURE', tick: 3, nodeId: 'n1', owner: PlayerColor.BLUE, prevOwner: PlayerColor.RED, payloadId: 'p' };
+
+describe('createEventBus', () => {
+  it('delivers every event to unfiltered listeners in order', () => {
+    const bus = createEventBus();
+    const seen: GameEvent[] = [];
+    bus.subscribe(e => seen.push(e));
+    bus.emit([capture, elimination]);
+    expect(seen).toEqual([capture, elimination]);
+  });
+
+  it('filters by event type', () => {
+    const bus = createEventBus();
+    const listener = vi.fn();
+    bus.subscribe(listener, ['ELIMINATION']);
+    bus.emit([capture, elimination]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(elimination);
+  });
+
+  it('stops delivering after unsubscribing and survives a throwing listener', () => {
+    const bus = createEventBus();
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    bus.subscribe(() => { throw new Error('boom'); });
+    const unsubscribe = bus.subscribe(listener);
+
+    bus.emit([capture]);
+    unsubscribe();
+    bus.emit([capture]);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(errors).toHaveBeenCalledTimes(2);
+    errors.mockRestore();
+  });
+});
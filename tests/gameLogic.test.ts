@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { PlayerColor, Node, Edge } from '../types';
+import { PLAYABLE_COLORS, BASE_SPAWN_INTERVAL_MS, INITIAL_PLAYER_COUNT, GAME_WIDTH, GAME_HEIGHT } from '../constants';
+import {
+  calculateGrowthIncrement,
+  calculateUnitSpeed,
+  calculateSpawnInterval,
+  generateEdgesForNodes,
+  regenerateTopology,
+  generateMap
+} from '../services/gameLogic';
+import { createRng } from '../services/random';
+import { nodesArb, isGraphConnected, edgeKey } from './helpers';
+
+describe('calculateGrowthIncrement', () => {
+  it('returns the base rate for empty or single-unit nodes', () => {
+    expect(calculateGrowthIncrement(0, 0.05)).toBe(0.05);
+    expect(calculateGrowthIncrement(1, 0.05)).toBe(0.05);
+  });
+
+  it('doubles the base rate at the half-saturation point', () => {
+    expect(calculateGrowthIncrement(40, 1)).toBeCloseTo(2);
+  });
+
+  it('grows monotonically and never exceeds 3x the base rate', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 100000 }), count => {
+      const here = calculateGrowthIncrement(count, 1);
+      expect(calculateGrowthIncrement(count + 1, 1)).toBeGreaterThanOrEqual(here);
+      expect(here).toBeLessThan(3);
+    }));
+  });
+});
+
+describe('calculateUnitSpeed', () => {
+  it('returns the base speed for tiny sources', () => {
+    expect(calculateUnitSpeed(1, 4)).toBe(4);
+  });
+
+  it('is 1.75x the base speed at 30 units and capped at 2.5x', () => {
+    expect(calculateUnitSpeed(30, 4)).toBeCloseTo(7);
+    fc.assert(fc.property(fc.integer({ min: 1, max: 100000 }), count => {
+      expect(calculateUnitSpeed(count, 4)).toBeLessThan(10);
+    }));
+  });
+});
+
+describe('calculateSpawnInterval', () => {
+  it('treats empty nodes like single-unit nodes', () => {
+    expect(calculateSpawnInterval(0)).toBe(calculateSpawnInterval(1));
+  });
+
+  it('is a quarter of the base interval at 20 units', () => {
+    expect(calculateSpawnInterval(20)).toBeCloseTo(BASE_SPAWN_INTERVAL_MS / 4);
+  });
+
+  it('shrinks with count but never drops below 40ms', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 100000 }), count => {
+      const here = calculateSpawnInterval(count);
+      expect(calculateSpawnInterval(count + 1)).toBeLessThanOrEqual(here);
+      expect(here).toBeGreaterThanOrEqual(40);
+    }));
+  });
+});
+
+describe('generateEdgesForNodes', () => {
+  it('always produces a connected graph without duplicate edges', () => {
+    fc.assert(fc.property(nodesArb(1, 30), nodes => {
+      const edges = generateEdgesForNodes(nodes);
+      expect(isGraphConnected(nodes, edges)).toBe(true);
+      expect(new Set(edges.map(edgeKey)).size).toBe(edges.length);
+    }));
+  });
+
+  it('builds a permanent spanning tree plus random extras', () => {
+    fc.assert(fc.property(nodesArb(2, 30), nodes => {
+      const edges = generateEdgesForNodes(nodes);
+      expect(edges.filter(e => e.type === 'PERMANENT')).toHaveLength(nodes.length - 1);
+      expect(edges.filter(e => e.type === 'RANDOM').length).toBeLessThanOrEqual(Math.floor(nodes.length * 0.5));
+    }));
+  });
+});
+
+describe('regenerateTopology', () => {
+  it('keeps every permanent edge and the graph stays connected', () => {
+    fc.assert(fc.property(nodesArb(2, 30), fc.integer(), (nodes, seed) => {
+      const before = generateEdgesForNodes(nodes);
+      const after = regenerateTopology(nodes, before, createRng(seed));
+
+      const afterKeys = new Set(after.map(edgeKey));
+      before.filter(e => e.type === 'PERMANENT').forEach(e => expect(afterKeys.has(edgeKey(e))).toBe(true));
+      expect(afterKeys.size).toBe(after.length);
+      expect(isGraphConnected(nodes, after)).toBe(true);
+    }));
+  });
+
+  it('is deterministic for the same RNG state', () => {
+    fc.assert(fc.property(nodesArb(2, 20), fc.integer(), (nodes, seed) => {
+      const edges = generateEdgesForNodes(nodes);
+      expect(regenerateTopology(nodes, edges, createRng(seed))).toEqual(regenerateTopology(nodes, edges, createRng(seed)));
+    }));
+  });
+});
+
+describe('generateMap', () => {
+  it('returns the same map for the same seed', () => {
+    expect(generateMap(PlayerColor.BLUE, 1234)).toEqual(generateMap(PlayerColor.BLUE, 1234));
+  });
+
+  it('gives every faction exactly one start and connects all nodes', () => {
+    const { nodes, edges } = generateMap(PlayerColor.GREEN, 99);
+    expect(isGraphConnected(nodes, edges)).toBe(true);
+    PLAYABLE_COLORS.forEach(color => {
+      const starts = nodes.filter(n => n.owner === color);
+      expect(starts).toHaveLength(1);
+      expect(starts[0].count).toBe(INITIAL_PLAYER_COUNT);
+    });
+  });
+
+  it('seats only the requested opponents with the requested forces', () => {
+    fc.assert(fc.property(
+      fc.integer({ min: 0, max: 0xFFFFFFFF }),
+      fc.integer({ min: 1, max: 4 }),
+      fc.integer({ min: 1, max: 100 }),
+      fc.integer({ min: 0, max: 100 }),
+      fc.integer({ min: 0, max: 100 }),
+      (seed, opponentCount, startingCount, a, b) => {
+        const forces = { opponentCount, startingCount, neutralCountMin: Math.min(a, b), neutralCountMax: Math.max(a, b) };
+        const { nodes, edges } = generateMap(PlayerColor.PURPLE, seed, 12, 'CLASSIC', { fortressCount: 0, hiveCount: 0, fairness: 'RANDOM' }, forces);
+        const starts = nodes.filter(n => n.owner !== PlayerColor.GRAY);
+
+        expect(isGraphConnected(nodes, edges)).toBe(true);
+        expect(starts).toHaveLength(opponentCount + 1);
+        expect(new Set(starts.map(n => n.owner)).size).toBe(opponentCount + 1);
+        expect(starts.some(n => n.owner === PlayerColor.PURPLE)).toBe(true);
+        starts.forEach(n => expect(n.count).toBe(startingCount));
+        nodes.filter(n => n.owner === PlayerColor.GRAY).forEach(n => {
+          expect(n.count).toBeGreaterThanOrEqual(forces.neutralCountMin);
+          expect(n.count).toBeLessThanOrEqual(forces.neutralCountMax);
+        });
+      }
+    ), { numRuns: 30 });
+  });
+});
+
+describe('HONEYCOMB mode', () => {
+  const seedArb = fc.integer({ min: 0, max: 0xFFFFFFFF });
+  const countArb = fc.integer({ min: 8, max: 200 });
+
+  // Lattice neighbours are all exactly one cell apart, the shortest distance on the map
+  const latticeSpacing = (nodes: { x: number, y: number }[]) => {
+    let best = Infinity;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) best = Math.min(best, Math.hypot(nodes[i].x - nodes[j].x, nodes[i].y - nodes[j].y));
+    }
+    return best;
+  };
+
+  it('places every node on the board and only links lattice neighbours', () => {
+    fc.assert(fc.property(seedArb, countArb, (seed, count) => {
+      const { nodes, edges } = generateMap(PlayerColor.BLUE, seed, count, 'HONEYCOMB');
+      const byId = new Map(nodes.map(n => [n.id, n]));
+      const spacing = latticeSpacing(nodes);
+
+      expect(nodes).toHaveLength(count);
+      nodes.forEach(n => {
+        expect(n.x).toBeGreaterThanOrEqual(0);
+        expect(n.x).toBeLessThanOrEqual(GAME_WIDTH);
+        expect(n.y).toBeGreaterThanOrEqual(0);
+        expect(n.y).toBeLessThanOrEqual(GAME_HEIGHT);
+      });
+      expect(isGraphConnected(nodes, edges)).toBe(true);
+      edges.forEach(e => {
+        const a = byId.get(e.source)!;
+        const b = byId.get(e.target)!;
+        expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeCloseTo(spacing, 6);
+      });
+    }), { numRuns: 25 });
+  });
+
+  it('rewires ocean currents along the lattice', () => {
+    fc.assert(fc.property(seedArb, fc.integer(), (seed, rngSeed) => {
+      const { nodes, edges } = generateMap(PlayerColor.BLUE, seed, 40, 'HONEYCOMB');
+      const byId = new Map(nodes.map(n => [n.id, n]));
+      const spacing = latticeSpacing(nodes);
+      const after = regenerateTopology(nodes, edges, createRng(rngSeed), 'HONEYCOMB');
+
+      expect(isGraphConnected(nodes, after)).toBe(true);
+      after.forEach(e => {
+        const a = byId.get(e.source)!;
+        const b = byId.get(e.target)!;
+        expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeCloseTo(spacing, 6);
+      });
+    }), { numRuns: 25 });
+  });
+});
+
+describe('special node placement', () => {
+  const seedArb = fc.integer({ min: 0, max: 0xFFFFFFFF });
+
+  // Spread of hop distances from every start over the PERMANENT backbone
+  const spreadFromStarts = (nodes: Node[], edges: Edge[]) => {
+    const backbone = edges.filter(e => e.type === 'PERMANENT');
+    const hops = (from: string) => {
+      const dist = new Map([[from, 0]]);
+      const queue = [from];
+      for (let i = 0; i < queue.length; i++) {
+        backbone.forEach(e => {
+          const next = e.source === queue[i] ? e.target : e.target === queue[i] ? e.source : null;
+          if (next && !dist.has(next)) {
+            dist.set(next, dist.get(queue[i])! + 1);
+            queue.push(next);
+          }
+        });
+      }
+      return dist;
+    };
+    const fromStarts = nodes.filter(n => n.owner !== PlayerColor.GRAY).map(s => hops(s.id));
+    return (id: string) => {
+      const d = fromStarts.map(m => m.get(id)!);
+      return Math.max(...d) - Math.min(...d);
+    };
+  };
+
+  it('places the requested counts on neutral nodes only', () => {
+    fc.assert(fc.property(seedArb, fc.integer({ min: 0, max: 4 }), fc.integer({ min: 0, max: 4 }), (seed, fortressCount, hiveCount) => {
+      const { nodes } = generateMap(PlayerColor.BLUE, seed, 24, 'CLASSIC', { fortressCount, hiveCount, fairness: 'RANDOM' });
+
+      expect(nodes.filter(n => n.type === 'FORTRESS')).toHaveLength(fortressCount);
+      expect(nodes.filter(n => n.type === 'HIVE')).toHaveLength(hiveCount);
+      nodes.filter(n => n.owner !== PlayerColor.GRAY).forEach(n => expect(n.type).toBe('DEFAULT'));
+    }), { numRuns: 20 });
+  });
+
+  it('picks the most evenly distanced nodes when balanced', () => {
+    fc.assert(fc.property(seedArb, (seed) => {
+      const { nodes, edges } = generateMap(PlayerColor.BLUE, seed, 30, 'HONEYCOMB', { fortressCount: 2, hiveCount: 2, fairness: 'BALANCED' });
+      const spread = spreadFromStarts(nodes, edges);
+      const special = nodes.filter(n => n.type !== 'DEFAULT').map(n => spread(n.id));
+      const others = nodes.filter(n => n.type === 'DEFAULT' && n.owner === PlayerColor.GRAY).map(n => spread(n.id));
+
+      expect(special).toHaveLength(4);
+      expect(Math.max(...special)).toBeLessThanOrEqual(Math.min(...others));
+    }), { numRuns: 20 });
+  });
+
+  it('stops when it runs out of neutral nodes', () => {
+    const { nodes } = generateMap(PlayerColor.BLUE, 7, 8, 'CLASSIC', { fortressCount: 10, hiveCount: 10, fairness: 'BALANCED' });
+    expect(nodes.filter(n => n.type !== 'DEFAULT')).toHaveLength(8 - PLAYABLE_COLORS.length);
+  });
+});
@@ -0,0 +1,349 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { PlayerColor, GameWorld } from '../types';
+import { GROWTH_INTERVAL_MS, TICK_RATE_MS, OCEAN_CURRENT_INTERVAL_MS, MAX_OVERFLOW_HOPS } from '../constants';
+import { advanceGameState, checkWinCondition, applyAttackCommand } from '../services/gamePhysics';
+import { calculateGrowthIncrement } from '../services/gameLogic';
+import { makeNode, makeWorld, makeArrivingPayload, quietContext, isGraphConnected, worldArb, sumUnits, withRandomStreams, edgeKey } from './helpers';
+
+const BASE_GROWTH_PER_TICK = 1 / (GROWTH_INTERVAL_MS / TICK_RATE_MS);
+
+const growthThisTick = (world: GameWorld) => world.nodes
+  .filter(n => n.owner !== PlayerColor.GRAY)
+  .reduce((acc, n) => acc + calculateGrowthIncrement(n.count, BASE_GROWTH_PER_TICK) * (n.type === 'HIVE' ? 1.6 : 1), 0);
+
+describe('advanceGameState', () => {
+  it('grows owned nodes and leaves neutrals alone', () => {
+    const world = makeWorld([
+      makeNode('a', { owner: PlayerColor.BLUE, count: 10 }),
+      makeNode('b', { owner: PlayerColor.GRAY, count: 10 })
+    ], []);
+
+    let current = world;
+    for (let tick = 0; tick < 40; tick++) current = advanceGameState(current, quietContext(tick)).world;
+
+    expect(current.nodes[0].count).toBeGreaterThan(10);
+    expect(current.nodes[1].count).toBe(10);
+  });
+
+  it('gives HIVE nodes 60% more growth', () => {
+    const plain = makeNode('a', { owner: PlayerColor.BLUE, count: 30 });
+    const hive = makeNode('b', { owner: PlayerColor.BLUE, count: 30, type: 'HIVE' });
+    const { world } = advanceGameState(makeWorld([plain, hive], []), quietContext(0));
+
+    expect(world.nodes[1].growthAccumulator).toBeCloseTo(world.nodes[0].growthAccumulator * 1.6);
+  });
+
+  it('reinforces friendly nodes and captures weaker ones', () => {
+    const source = makeNode('s', { owner: PlayerColor.BLUE, x: 0 });
+    const friend = makeNode('f', { owner: PlayerColor.BLUE, count: 5, x: 100 });
+    const enemy = makeNode('e', { owner: PlayerColor.RED, count: 0, x: 200 });
+    const world = makeWorld([source, friend, enemy], [], {
+      payloads: [
+        makeArrivingPayload('p1', source, friend, PlayerColor.BLUE),
+        makeArrivingPayload('p2', source, enemy, PlayerColor.BLUE)
+      ]
+    });
+
+    const next = advanceGameState(world, quietContext(0)).world;
+    const byId = new Map(next.nodes.map(n => [n.id, n]));
+
+    expect(byId.get('f')!.count).toBeGreaterThanOrEqual(6);
+    expect(byId.get('e')!.owner).toBe(PlayerColor.BLUE);
+    expect(byId.get('e')!.prevOwner).toBe(PlayerColor.RED);
+    expect(byId.get('e')!.captureProgress).toBe(0);
+    expect(next.payloads).toHaveLength(0);
+    expect(next.latestEvents.filter(e => e.type === 'IMPACT')).toHaveLength(2);
+    expect(next.latestEvents.filter(e => e.type === 'CAPTURE')).toEqual([
+      { type: 'CAPTURE', tick: 0, nodeId: 'e', owner: PlayerColor.BLUE, prevOwner: PlayerColor.RED, payloadId: 'p2' }
+    ]);
+    // Red lost its only node and had nothing in flight
+    expect(next.latestEvents.filter(e => e.type === 'ELIMINATION')).toEqual([
+      { type: 'ELIMINATION', tick: 0, faction: PlayerColor.RED }
+    ]);
+  });
+
+  it('annihilates opposing payloads that meet on the same edge', () => {
+    const a = makeNode('a', { x: 0 });
+    const b = makeNode('b', { x: 1000 });
+    const world = makeWorld([a, b], [{ source: 'a', target: 'b', type: 'PERMANENT' }], {
+      payloads: [
+        { ...makeArrivingPayload('blue', a, b, PlayerColor.BLUE), progress: 0.5, speed: 0 },
+        { ...makeArrivingPayload('red', b, a, PlayerColor.RED), progress: 0.5, speed: 0 }
+      ]
+    });
+
+    const next = advanceGameState(world, quietContext(0)).world;
+    expect(next.payloads).toHaveLength(0);
+    expect(next.latestEvents.filter(e => e.type === 'ANNIHILATION')).toEqual([{
+      type: 'ANNIHILATION',
+      tick: 0,
+      payloadIds: ['blue', 'red'],
+      colors: [PlayerColor.BLUE, PlayerColor.RED],
+      sourceId: 'a',
+      targetId: 'b',
+      x: 500,
+      y: 0
+    }]);
+    // Neither side owned anything but those two payloads
+    expect(next.latestEvents.filter(e => e.type === 'ELIMINATION')).toHaveLength(2);
+    expect(next.latestEvents.some(e => e.type === 'IMPACT')).toBe(false);
+    expect(next.nodes.map(n => n.count)).toEqual([10, 10]);
+  });
+
+  it('spawns payloads from transfers and stops when the source is lost', () => {
+    const a = makeNode('a', { owner: PlayerColor.BLUE, count: 20, x: 0 });
+    const b = makeNode('b', { owner: PlayerColor.GRAY, x: 300 });
+    let world = makeWorld([a, b], [{ source: 'a', target: 'b', type: 'PERMANENT' }]);
+    world = applyAttackCommand(world, { from: 'a', to: 'b', isContinuous: true }, PlayerColor.BLUE, 0);
+
+    const spawned = advanceGameState(world, quietContext(20)).world;
+    expect(spawned.payloads).toHaveLength(1);
+    expect(spawned.transfers).toHaveLength(1);
+
+    const lost = { ...spawned, nodes: spawned.nodes.map(n => (n.id === 'a' ? { ...n, owner: PlayerColor.RED } : n)) };
+    const stopped = advanceGameState(lost, quietContext(40)).world;
+    expect(stopped.transfers).toHaveLength(0);
+    expect(stopped.latestEvents.find(e => e.type === 'STREAM_END')).toMatchObject({
+      tick: 40,
+      transferId: world.transfers[0].id,
+      owner: PlayerColor.BLUE,
+      reason: 'SOURCE_LOST'
+    });
+  });
+
+  it('reports a finished fixed-size transfer as completed', () => {
+    const a = makeNode('a', { owner: PlayerColor.BLUE, count: 2, x: 0 });
+    const b = makeNode('b', { owner: PlayerColor.GRAY, x: 300 });
+    let world = makeWorld([a, b], [{ source: 'a', target: 'b', type: 'PERMANENT' }]);
+    world = applyAttackCommand(world, { from: 'a', to: 'b', isContinuous: false }, PlayerColor.BLUE, 0);
+
+    const next = advanceGameState(world, quietContext(20)).world;
+    expect(next.transfers).toHaveLength(0);
+    expect(next.latestEvents.filter(e => e.type === 'STREAM_END').map(e => e.type === 'STREAM_END' && e.reason)).toEqual(['COMPLETED']);
+  });
+
+  it('holds a timed transfer back until its launch time', () => {
+    const a = makeNode('a', { owner: PlayerColor.BLUE, count: 20, x: 0 });
+    const b = makeNode('b', { owner: PlayerColor.GRAY, x: 300 });
+    let world = makeWorld([a, b], [{ source: 'a', target: 'b', type: 'PERMANENT' }]);
+    world = applyAttackCommand(world, { from: 'a', to: 'b', isContinuous: false }, PlayerColor.BLUE, 0);
+    world = { ...world, transfers: world.transfers.map(t => ({ ...t, holdUntil: 2000 })) };
+
+    expect(advanceGameState(world, quietContext(39)).world.payloads).toHaveLength(0);
+    expect(advanceGameState(world, quietContext(40)).world.payloads).toHaveLength(1);
+  });
+
+  it('rewires random edges when the ocean current hits and severs cut-off traffic', () => {
+    const a = makeNode('a', { owner: PlayerColor.BLUE, x: 0 });
+    const b = makeNode('b', { x: 100 });
+    const c = makeNode('c', { x: 200 });
+    const world = makeWorld([a, b, c], [
+      { source: 'a', target: 'b', type: 'PERMANENT' },
+      { source: 'b', target: 'c', type: 'PERMANENT' },
+      { source: 'a', target: 'c', type: 'RANDOM' }
+    ], {
+      payloads: [{ ...makeArrivingPayload('p', a, c, PlayerColor.BLUE), progress: 0.1 }]
+    });
+
+    const tick = OCEAN_CURRENT_INTERVAL_MS / TICK_RATE_MS;
+    const result = advanceGameState(world, quietContext(tick, { nextEventTime: OCEAN_CURRENT_INTERVAL_MS }));
+
+    expect(result.nextEventTime).toBe(OCEAN_CURRENT_INTERVAL_MS * 2);
+    expect(result.world.edges).not.toBe(world.edges);
+    expect(isGraphConnected(result.world.nodes, result.world.edges)).toBe(true);
+    const stillLinked = result.world.edges.some(e => (e.source === 'a' && e.target === 'c') || (e.source === 'c' && e.target === 'a'));
+    expect(result.world.payloads.length).toBe(stillLinked ? 1 : 0);
+
+    const shift = result.world.latestEvents.find(e => e.type === 'TOPOLOGY_SHIFT');
+    expect(shift).toMatchObject({ tick, severedPayloadIds: stillLinked ? [] : ['p'] });
+    if (shift?.type === 'TOPOLOGY_SHIFT') {
+      const keys = (edges: typeof world.edges) => edges.map(edgeKey).sort();
+      const rebuilt = [...world.edges.filter(e => !keys(shift.removedEdges).includes(edgeKey(e))), ...shift.addedEdges];
+      expect(keys(rebuilt)).toEqual(keys(result.world.edges));
+    }
+  });
+});
+
+describe('node capacity', () => {
+  const full = (id: string, x: number, overrides = {}) => makeNode(id, { owner: PlayerColor.BLUE, count: 30, capacity: 30, x, ...overrides });
+
+  it('stops growth at capacity', () => {
+    const { world } = advanceGameState(makeWorld([full('a', 0, { growthAccumulator: 0.99 })], []), quietContext(0));
+    expect(world.nodes[0].count).toBe(30);
+    expect(world.nodes[0].growthAccumulator).toBe(0);
+  });
+
+  it('spills reinforcements into the emptiest friendly neighbour', () => {
+    const source = makeNode('s', { owner: PlayerColor.BLUE, x: 0 });
+    const target = full('t', 100);
+    const roomy = makeNode('r', { owner: PlayerColor.BLUE, count: 5, x: 200 });
+    const roomier = makeNode('rr', { owner: PlayerColor.BLUE, count: 1, x: 100, y: 100 });
+    const enemy = makeNode('e', { owner: PlayerColor.RED, count: 0, x: 100, y: -100 });
+    const world = makeWorld([source, target, roomy, roomier, enemy], [
+      { source: 's', target: 't', type: 'PERMANENT' },
+      { source: 't', target: 'r', type: 'PERMANENT' },
+      { source: 't', target: 'rr', type: 'PERMANENT' },
+      { source: 't', target: 'e', type: 'PERMANENT' }
+    ], { payloads: [makeArrivingPayload('p', source, target, PlayerColor.BLUE)] });
+
+    const next = advanceGameState(world, quietContext(0)).world;
+    expect(next.nodes[1].count).toBe(30);
+    expect(next.payloads).toHaveLength(1);
+    expect(next.payloads[0]).toMatchObject({ id: 'p~1', sourceId: 't', targetId: 'rr', progress: 0, overflowHops: 1 });
+    expect(next.latestEvents.find(e => e.type === 'OVERFLOW')).toMatchObject({ nodeId: 't', action: 'SPILL', toId: 'rr' });
+  });
+
+  it('bounces back when no neighbour has room, and dissipates after too many hops', () => {
+    const source = makeNode('s', { owner: PlayerColor.BLUE, x: 0 });
+    const target = full('t', 100);
+    const world = makeWorld([source, target], [{ source: 's', target: 't', type: 'PERMANENT' }], {
+      payloads: [makeArrivingPayload('p', source, target, PlayerColor.BLUE)]
+    });
+
+    const bounced = advanceGameState(world, quietContext(0)).world;
+    expect(bounced.payloads[0]).toMatchObject({ sourceId: 't', targetId: 's', overflowHops: 1 });
+    expect(bounced.latestEvents.find(e => e.type === 'OVERFLOW')).toMatchObject({ action: 'BOUNCE', toId: 's' });
+
+    const worn = makeWorld([source, target], world.edges, {
+      payloads: [{ ...makeArrivingPayload('p', source, target, PlayerColor.BLUE), overflowHops: MAX_OVERFLOW_HOPS }]
+    });
+    const lost = advanceGameState(worn, quietContext(0)).world;
+    expect(lost.payloads).toHaveLength(0);
+    expect(lost.latestEvents.find(e => e.type === 'OVERFLOW')).toMatchObject({ action: 'LOST', toId: null });
+  });
+
+  it('dissipates instead of bouncing home once the source has fallen', () => {
+    const source = makeNode('s', { owner: PlayerColor.RED, prevOwner: PlayerColor.BLUE, x: 0 });
+    const target = full('t', 100);
+    const world = makeWorld([source, target], [{ source: 's', target: 't', type: 'PERMANENT' }], {
+      payloads: [makeArrivingPayload('p', source, target, PlayerColor.BLUE)]
+    });
+
+    const next = advanceGameState(world, quietContext(0)).world;
+    expect(next.payloads).toHaveLength(0);
+    expect(next.nodes[0]).toMatchObject({ owner: PlayerColor.RED, count: 10 });
+    expect(next.latestEvents.find(e => e.type === 'OVERFLOW')).toMatchObject({ action: 'LOST', toId: null });
+  });
+
+  it('dissipates instead of bouncing home once the current home has gone', () => {
+    const source = makeNode('s', { owner: PlayerColor.BLUE, x: 0 });
+    const target = full('t', 100);
+    const elsewhere = makeNode('x', { x: 200 });
+    const world = makeWorld([source, target, elsewhere], [
+      { source: 's', target: 'x', type: 'PERMANENT' },
+      { source: 't', target: 'x', type: 'PERMANENT' }
+    ], { payloads: [makeArrivingPayload('p', source, target, PlayerColor.BLUE)] });
+
+    const next = advanceGameState(world, quietContext(0)).world;
+    expect(next.payloads).toHaveLength(0);
+    expect(next.latestEvents.find(e => e.type === 'OVERFLOW')).toMatchObject({ action: 'LOST', toId: null });
+  });
+});
+
+describe('advanceGameState invariants', () => {
+  it('keeps the graph connected across topology shifts', () => {
+    fc.assert(fc.property(worldArb(2, 16), fc.integer(), (world, seed) => {
+      let current = { ...world, rngState: seed };
+      for (let shift = 1; shift <= 3; shift++) {
+        const tick = (shift * OCEAN_CURRENT_INTERVAL_MS) / TICK_RATE_MS;
+        current = advanceGameState(current, quietContext(tick, { nextEventTime: tick * TICK_RATE_MS })).world;
+        expect(isGraphConnected(current.nodes, current.edges)).toBe(true);
+      }
+    }), { numRuns: 50 });
+  });
+
+  it('never lets a node count go negative', () => {
+    fc.assert(fc.property(worldArb(2, 12), fc.array(fc.nat(), { minLength: 1, maxLength: 12 }), (world, picks) => {
+      let current = withRandomStreams(world, picks);
+      for (let tick = 0; tick < 200; tick++) {
+        current = advanceGameState(current, quietContext(tick)).world;
+        current.nodes.forEach(n => expect(n.count).toBeGreaterThanOrEqual(0));
+      }
+    }), { numRuns: 50 });
+  });
+
+  it('conserves units exactly when only one faction is moving', () => {
+    fc.assert(fc.property(worldArb(2, 12), fc.array(fc.nat(), { minLength: 1, maxLength: 12 }), (world, picks) => {
+      // Uncapped, so growth is never clipped (capacity has its own tests below)
+      const solo = { ...world, nodes: world.nodes.map(n => ({ ...n, owner: PlayerColor.BLUE, prevOwner: PlayerColor.BLUE, capacity: Infinity })) };
+      let current = withRandomStreams(solo, picks);
+
+      for (let tick = 0; tick < 100; tick++) {
+        const accumulated = (w: GameWorld) => sumUnits(w) + w.nodes.reduce((acc, n) => acc + n.growthAccumulator, 0);
+        const expected = accumulated(current) + growthThisTick(current);
+        current = advanceGameState(current, quietContext(tick)).world;
+        expect(accumulated(current)).toBeCloseTo(expected, 6);
+      }
+    }), { numRuns: 50 });
+  });
+
+  it('only ever loses units beyond growth when factions fight', () => {
+    fc.assert(fc.property(worldArb(2, 12), fc.array(fc.nat(), { minLength: 1, maxLength: 12 }), (world, picks) => {
+      let current = withRandomStreams(world, picks);
+      for (let tick = 0; tick < 100; tick++) {
+        const ceiling = sumUnits(current) + growthThisTick(current) + current.nodes.reduce((acc, n) => acc + n.growthAccumulator, 0);
+        current = advanceGameState(current, quietContext(tick)).world;
+        expect(sumUnits(current)).toBeLessThanOrEqual(ceiling + 1e-9);
+      }
+    }), { numRuns: 50 });
+  });
+
+  it('keeps nodes at or below capacity and only loses units that dissipate', () => {
+    const capacityArb = fc.integer({ min: 15, max: 60 });
+    fc.assert(fc.property(worldArb(2, 10), fc.array(fc.nat(), { minLength: 1, maxLength: 10 }), capacityArb, (world, picks, capacity) => {
+      const solo = {
+        ...world,
+        nodes: world.nodes.map(n => ({ ...n, owner: PlayerColor.BLUE, prevOwner: PlayerColor.BLUE, capacity, count: Math.min(n.count, capacity) }))
+      };
+      let current = withRandomStreams(solo, picks);
+
+      for (let tick = 0; tick < 150; tick++) {
+        const before = sumUnits(current);
+        const growth = growthThisTick(current) + current.nodes.reduce((acc, n) => acc + n.growthAccumulator, 0);
+        current = advanceGameState(current, quietContext(tick)).world;
+        const lost = current.latestEvents.filter(e => e.type === 'OVERFLOW' && e.action === 'LOST').length;
+
+        current.nodes.forEach(n => expect(n.count).toBeLessThanOrEqual(capacity));
+        expect(sumUnits(current) + lost).toBeGreaterThanOrEqual(before);
+        expect(sumUnits(current)).toBeLessThanOrEqual(before + growth + 1e-9);
+      }
+    }), { numRuns: 40 });
+  });
+
+  it('makes FORTRESS nodes take half damage', () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 200 }), fc.integer({ min: 1, max: 40 }), (defenders, attackers) => {
+      fc.pre(attackers <= defenders);
+      const source = makeNode('src', { x: 400 });
+      const hit = (type: 'DEFAULT' | 'FORTRESS') => {
+        const target = makeNode('target', { owner: PlayerColor.RED, count: defenders, type, x: 0 });
+        const payloads = Array.from({ length: attackers }, (_, i) => makeArrivingPayload(`p${i}`, source, target, PlayerColor.BLUE));
+        // A single tick of growth stays in the accumulator, so counts only reflect damage
+        return advanceGameState(makeWorld([target, source], [], { payloads }), quietContext(0)).world.nodes[0];
+      };
+
+      expect(hit('DEFAULT').count).toBe(defenders - attackers);
+      expect(hit('FORTRESS').count).toBeCloseTo(defenders - attackers * 0.5);
+      expect(hit('FORTRESS').owner).toBe(PlayerColor.RED);
+    }));
+  });
+});
+
+describe('checkWinCondition', () => {
+  it('declares victory when no enemy nodes remain', () => {
+    const world = makeWorld([makeNode('a', { owner: PlayerColor.BLUE }), makeNode('b')], []);
+    expect(checkWinCondition(world, PlayerColor.BLUE)).toEqual({ winner: PlayerColor.BLUE, isGameOver: true });
+  });
+
+  it('declares defeat once the player has no nodes, payloads or transfers', () => {
+    const world = makeWorld([makeNode('a', { owner: PlayerColor.RED }), makeNode('b')], []);
+    expect(checkWinCondition(world, PlayerColor.BLUE)).toEqual({ winner: null, isGameOver: true });
+  });
+
+  it('keeps going while the player still has units in flight', () => {
+    const a = makeNode('a', { owner: PlayerColor.RED });
+    const b = makeNode('b');
+    const world = makeWorld([a, b], [], { payloads: [makeArrivingPayload('p', b, a, PlayerColor.BLUE)] });
+    expect(checkWinCondition(world, PlayerColor.BLUE).isGameOver).toBe(false);
+  });
+});
@@ -0,0 +1,184 @@
+import fc from 'fast-check';
+import { Node, Edge, GameWorld, PlayerColor, NodeType, TravelPayload, ScriptCondition, ScenarioScript } from '../types';
+import { NODE_RADIUS_BASE, MAX_CAPACITY_BASE, PLAYABLE_COLORS } from '../constants';
+import { generateEdgesForNodes } from '../services/gameLogic';
+import { PhysicsContext, applyAttackCommand } from '../services/gamePhysics';
+import { parseJson, isRecord, isList } from '../services/validation';
+
+// --- Builders ---
+
+export const makeNode = (id: string, overrides: Partial<Node> = {}): Node => ({
+  id,
+  x: 0,
+  y: 0,
+  owner: PlayerColor.GRAY,
+  count: 10,
+  capacity: MAX_CAPACITY_BASE,
+  radius: NODE_RADIUS_BASE,
+  growthAccumulator: 0,
+  type: 'DEFAULT',
+  captureProgress: 1,
+  prevOwner: overrides.owner ?? PlayerColor.GRAY,
+  ...overrides
+});
+
+export const makeWorld = (nodes: Node[], edges: Edge[], overrides: Partial<GameWorld> = {}): GameWorld => ({
+  nodes,
+  edges,
+  payloads: [],
+  transfers: [],
+  latestEvents: [],
+  rngState: 1,
+  mode: 'CLASSIC',
+  ...overrides
+});
+
+// A payload one tick away from arriving at `target`
+export const makeArrivingPayload = (id: string, source: Node, target: Node, owner: PlayerColor): TravelPayload => ({
+  id,
+  sourceId: source.id,
+  targetId: target.id,
+  owner,
+  count: 1,
+  progress: 0.99,
+  speed: 0.05,
+  startX: source.x,
+  startY: source.y,
+  endX: target.x,
+  endY: target.y
+});
+
+// Physics context with AI and ocean currents switched off unless overridden
+export const quietContext = (tick: number, overrides: Partial<PhysicsContext> = {}): PhysicsContext => ({
+  tick,
+  lastAITime: Infinity,
+  nextEventTime: Infinity,
+  playerColor: PlayerColor.BLUE,
+  gameState: 'PLAYING',
+  difficulty: 3,
+  isPlayerAutoPilot: false,
+  tutorialStep: 0,
+  ...overrides
+});
+
+// Every non-gray node streams into a random neighbour; covers reinforcement and combat alike
+export const withRandomStreams = (world: GameWorld, picks: number[]): GameWorld => {
+  let next = world;
+  world.nodes.forEach((node, i) => {
+    if (node.owner === PlayerColor.GRAY) return;
+    const neighbours = world.edges
+      .filter(e => e.source === node.id || e.target === node.id)
+      .map(e => (e.source === node.id ? e.target : e.source));
+    if (neighbours.length === 0) return;
+    const to = neighbours[picks[i % picks.length] % neighbours.length];
+    next = applyAttackCommand(next, { from: node.id, to, isContinuous: true }, node.owner, 0);
+  });
+  return next;
+};
+
+// --- Parsed Files ---
+// Tests that break a file on purpose reach into the parsed JSON through these,
+// so they work against the same `unknown` the decoders see
+
+const step = (v: unknown, key: string | number): unknown => {
+  if (isList(v) && typeof key === 'number') return v[key];
+  if (isRecord(v) && typeof key === 'string') return v[key];
+  throw new Error(`nothing at ${key}`);
+};
+
+export const fieldsAt = (v: unknown, ...path: (string | number)[]): Record<string, unknown> => {
+  const found = path.reduce(step, v);
+  if (!isRecord(found)) throw new Error(`no object at ${path.join('.')}`);
+  return found;
+};
+
+export const listAt = (v: unknown, ...path: (string | number)[]): unknown[] => {
+  const found = path.reduce(step, v);
+  if (!isList(found)) throw new Error(`no list at ${path.join('.')}`);
+  return found;
+};
+
+// The parsed form of an encoded file, to tweak and encode again
+export const parsedFields = (text: string): Record<string, unknown> => fieldsAt(parseJson(text));
+
+// --- Graph Checks ---
+
+export const isGraphConnected = (nodes: Node[], edges: Edge[]): boolean => {
+  if (nodes.length === 0) return true;
+  const adjacency = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  edges.forEach(e => {
+    adjacency.get(e.source)!.push(e.target);
+    adjacency.get(e.target)!.push(e.source);
+  });
+
+  const seen = new Set<string>([nodes[0].id]);
+  const queue = [nodes[0].id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    adjacency.get(id)!.forEach(next => {
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  return seen.size === nodes.length;
+};
+
+export const edgeKey = (e: Edge) => (e.source < e.target ? `${e.source}|${e.target}` : `${e.target}|${e.source}`);
+
+// --- Script Checks ---
+
+const conditionNodeIds = (condition: ScriptCondition): string[] => {
+  switch (condition.type) {
+    case 'NODE_SELECTED':
+    case 'NODE_OWNED':
+    case 'NODE_HELD':
+      return [condition.nodeId];
+    case 'ORDER_SENT':
+    case 'STREAM_ACTIVE':
+      return [condition.from, condition.to].filter((id): id is string => id !== undefined);
+    case 'ALL':
+    case 'ANY':
+      return condition.conditions.flatMap(conditionNodeIds);
+    default:
+      return [];
+  }
+};
+
+// Every node a script points at, waits on or gives orders from
+export const scriptNodeIds = (script: ScenarioScript): string[] => [
+  ...script.steps.flatMap(step => [
+    ...(step.targetNodeId ? [step.targetNodeId] : []),
+    ...conditionNodeIds(step.completeWhen),
+    ...(step.triggerWhen ? conditionNodeIds(step.triggerWhen) : []),
+    ...(step.ai?.type === 'ORDERS' ? step.ai.orders.flatMap(o => [o.from, o.to]) : [])
+  ]),
+  ...(script.defeatWhen ? conditionNodeIds(script.defeatWhen) : []),
+  ...(script.bonuses ?? []).flatMap(bonus => conditionNodeIds(bonus.when))
+];
+
+// --- Arbitraries ---
+
+const ownerArb = fc.constantFrom(PlayerColor.GRAY, ...PLAYABLE_COLORS);
+const typeArb = fc.constantFrom<NodeType>('DEFAULT', 'FORTRESS', 'HIVE');
+
+// Nodes at distinct random positions (within edge range of each other) with random owners
+export const nodesArb = (minLength: number, maxLength: number) =>
+  fc.uniqueArray(
+    fc.record({
+      x: fc.integer({ min: 0, max: 40 }),
+      y: fc.integer({ min: 0, max: 25 }),
+      owner: ownerArb,
+      count: fc.integer({ min: 0, max: 120 }),
+      type: typeArb
+    }),
+    { minLength, maxLength, selector: n => `${n.x},${n.y}` }
+  ).map(specs => specs.map((spec, i) => makeNode(`n${i}`, { ...spec, x: spec.x * 10, y: spec.y * 10, prevOwner: spec.owner })));
+
+// A connected world built with the real edge generator
+export const worldArb = (minNodes: number, maxNodes: number) =>
+  nodesArb(minNodes, maxNodes).map(nodes => makeWorld(nodes, generateEdgesForNodes(nodes)));
+
+export const sumUnits = (world: GameWorld) =>
+  world.nodes.reduce((acc, n) => acc + n.count, 0) + world.payloads.reduce((acc, p) => acc + p.count, 0);
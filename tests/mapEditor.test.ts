@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor, MapDefinition } from '../types';
+import { addNode, removeNode, toggleEdge, toggleStartSlot, updateNode, checkMap, createBlankMap } from '../services/mapEditor';
+
+// A line of nodes, linked in order by PERMANENT edges
+const line = (length: number): MapDefinition => {
+  let map = createBlankMap();
+  for (let i = 0; i < length; i++) map = addNode(map, 100 + i * 100, 100).map;
+  for (let i = 1; i < length; i++) map = toggleEdge(map, `node-${i - 1}`, `node-${i}`, 'PERMANENT');
+  return map;
+};
+
+const withSlots = (map: MapDefinition, ids: string[]): MapDefinition =>
+  ids.reduce((m, id, i) => toggleStartSlot(updateNode(m, id, { owner: [PlayerColor.BLUE, PlayerColor.RED][i] }), id), map);
+
+describe('map editing', () => {
+  it('retypes an existing edge, then removes it when linked again with the same type', () => {
+    const map = line(2);
+    const retyped = toggleEdge(map, 'node-1', 'node-0', 'RANDOM');
+    expect(retyped.edges).toEqual([{ source: 'node-0', target: 'node-1', type: 'RANDOM' }]);
+    expect(toggleEdge(retyped, 'node-0', 'node-1', 'RANDOM').edges).toEqual([]);
+  });
+
+  it('drops edges, start slots and ocean current links along with a removed node', () => {
+    const linked = withSlots(line(3), ['node-0', 'node-1']);
+    linked.oceanCurrents = { enabled: true, mode: 'CLASSIC', links: [[['node-0', 'node-2'], ['node-0', 'node-1']], [['node-1', 'node-2']]] };
+    const map = removeNode(linked, 'node-1');
+    expect(map.nodes.map(n => n.id)).toEqual(['node-0', 'node-2']);
+    expect(map.edges).toEqual([]);
+    expect(map.startSlots).toEqual(['node-0']);
+    expect(map.oceanCurrents?.links).toEqual([[['node-0', 'node-2']]]);
+  });
+
+  it('never reuses the id of a node still on the map', () => {
+    const map = removeNode(line(3), 'node-0');
+    expect(addNode(map, 0, 0).id).toBe('node-3');
+  });
+});
+
+describe('map checks', () => {
+  it('blocks maps that cannot be played', () => {
+    expect(checkMap(line(3)).error).toContain('出生点数量');
+    const split = withSlots(toggleEdge(line(3), 'node-1', 'node-2', 'PERMANENT'), ['node-0', 'node-2']);
+    expect(checkMap(split).error).toContain('地图不连通');
+  });
+
+  it('accepts a mirrored map without warnings', () => {
+    expect(checkMap(withSlots(line(5), ['node-0', 'node-4']))).toEqual({ error: null, warnings: [] });
+  });
+
+  it('warns when one start slot owns more of the map', () => {
+    const { warnings } = checkMap(withSlots(line(9), ['node-0', 'node-2']));
+    expect(warnings.some(w => w.includes('领地不均'))).toBe(true);
+  });
+
+  it('warns when only random edges hold the map together', () => {
+    const map = withSlots(toggleEdge(line(5), 'node-1', 'node-2', 'RANDOM'), ['node-0', 'node-4']);
+    expect(checkMap(map).warnings.some(w => w.includes('洋流'))).toBe(true);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor, MapDefinition } from '../types';
+import { GAME_WIDTH } from '../constants';
+import { generateMap } from '../services/gameLogic';
+import { advanceGameState } from '../services/gamePhysics';
+import { encodeMap, decodeMap, worldToMap, mapToWorld } from '../services/mapFile';
+import { makeNode, makeWorld, quietContext, parsedFields, fieldsAt, listAt } from './helpers';
+
+const twoSlotMap = (): MapDefinition => ({
+  version: 1,
+  name: 'duel',
+  nodes: [
+    { id: 'a', x: 100, y: 100, type: 'DEFAULT', owner: PlayerColor.BLUE, count: 20, capacity: 200 },
+    { id: 'b', x: 300, y: 100, type: 'FORTRESS', owner: PlayerColor.GRAY, count: 10, capacity: 200 },
+    { id: 'c', x: 500, y: 100, type: 'DEFAULT', owner: PlayerColor.RED, count: 20, capacity: 200 }
+  ],
+  edges: [
+    { source: 'a', target: 'b', type: 'PERMANENT' },
+    { source: 'b', target: 'c', type: 'RANDOM' }
+  ],
+  startSlots: ['a', 'c']
+});
+
+// Tweak a valid map and return the message decoding it throws
+const rejection = (tweak: (map: Record<string, unknown>) => void): string => {
+  const map = parsedFields(encodeMap(twoSlotMap()));
+  tweak(map);
+  try {
+    decodeMap(JSON.stringify(map));
+  } catch (err) {
+    return (err as Error).message;
+  }
+  throw new Error('map was accepted');
+};
+
+describe('map files', () => {
+  it('round-trips a generated world', () => {
+    const { nodes, edges } = generateMap(PlayerColor.BLUE, 7);
+    const world = makeWorld(nodes, edges);
+    const map = decodeMap(encodeMap(worldToMap(world, 'generated', PlayerColor.BLUE)));
+    const restored = mapToWorld(map, PlayerColor.BLUE, 1);
+
+    expect(restored.edges).toEqual(edges);
+    expect(restored.nodes.map(n => [n.id, n.owner, n.type, n.capacity])).toEqual(nodes.map(n => [n.id, n.owner, n.type, n.capacity]));
+    restored.nodes.forEach((n, i) => expect(n.x).toBeCloseTo(nodes[i].x, 1));
+  });
+
+  it('keeps the links a layout lets ocean currents draw', () => {
+    const { nodes, edges, currentLinks } = generateMap(PlayerColor.BLUE, 7, 20, 'CLASSIC', undefined, undefined, 'GRID');
+    const map = decodeMap(encodeMap(worldToMap(makeWorld(nodes, edges, { currentLinks }), 'grid', PlayerColor.BLUE)));
+    expect(mapToWorld(map, PlayerColor.BLUE, 1).currentLinks).toEqual(currentLinks);
+    expect(rejection(m => { m.oceanCurrents = { enabled: true, mode: 'CLASSIC', links: [[['a', 'zz']]] }; })).toContain('洋流连接无效');
+  });
+
+  it('exports a late match only while it can be imported again', () => {
+    const late = (redNode: PlayerColor) => makeWorld(
+      [makeNode('a', { owner: PlayerColor.BLUE }), makeNode('b', { owner: PlayerColor.BLUE }), makeNode('c', { owner: redNode })],
+      [{ source: 'a', target: 'b', type: 'PERMANENT' }, { source: 'b', target: 'c', type: 'PERMANENT' }]
+    );
+    const map = decodeMap(encodeMap(worldToMap(late(PlayerColor.RED), 'late', PlayerColor.BLUE)));
+    expect(map.startSlots).toEqual(['a', 'c']);
+    expect(mapToWorld(map, PlayerColor.BLUE, 1).nodes.map(n => n.owner)).toEqual([PlayerColor.BLUE, PlayerColor.BLUE, PlayerColor.RED]);
+
+    expect(() => worldToMap(late(PlayerColor.BLUE), 'won', PlayerColor.BLUE)).toThrow('只剩一个阵营');
+  });
+
+  it('seats the player on the first start slot and recolors the rest', () => {
+    const world = mapToWorld(decodeMap(encodeMap(twoSlotMap())), PlayerColor.GREEN, 1);
+    expect(world.nodes.map(n => n.owner)).toEqual([PlayerColor.GREEN, PlayerColor.GRAY, PlayerColor.RED]);
+  });
+
+  it('rejects broken maps with a readable reason', () => {
+    expect(rejection(m => { fieldsAt(m, 'edges', 0).target = 'zz'; })).toContain('未知节点');
+    expect(rejection(m => { listAt(m, 'edges').pop(); })).toContain('不连通');
+    expect(rejection(m => { fieldsAt(m, 'nodes', 1).x = GAME_WIDTH + 1; })).toContain('超出地图边界');
+    expect(rejection(m => { m.startSlots = ['a']; })).toContain('出生点数量');
+    expect(rejection(m => { m.startSlots = ['a', 'a']; })).toContain('出生点重复');
+    expect(rejection(m => { fieldsAt(m, 'nodes', 1).owner = PlayerColor.PURPLE; })).toContain('不对应任何出生点');
+    expect(rejection(m => { m.version = 99; })).toContain('更新版本');
+  });
+
+  it('keeps random edges when the map switches ocean currents off', () => {
+    const a = makeNode('a');
+    const b = makeNode('b');
+    const edges = [{ source: 'a', target: 'b', type: 'RANDOM' as const }];
+    const ctx = quietContext(10_000, { nextEventTime: 0 });
+
+    expect(advanceGameState(makeWorld([a, b], edges, { oceanCurrents: false }), ctx).world.edges).toEqual(edges);
+    expect(advanceGameState(makeWorld([a, b], edges), ctx).nextEventTime).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { PlayerColor, MapGeneratorId, Node, Edge } from '../types';
+import { GAME_WIDTH, GAME_HEIGHT, DEFAULT_STARTING_FORCES } from '../constants';
+import { generateMap, regenerateTopology } from '../services/gameLogic';
+import { createRng } from '../services/random';
+import { edgeKey } from '../services/graphIndex';
+import { isGraphConnected } from './helpers';
+
+const NO_SPECIALS = { fortressCount: 0, hiveCount: 0, fairness: 'RANDOM' as const };
+const GENERATORS: MapGeneratorId[] = ['SCATTER', 'RINGS', 'ISLANDS', 'SYMMETRIC', 'GRID'];
+
+const seedArb = fc.integer({ min: 0, max: 0xFFFFFFFF });
+const countArb = fc.integer({ min: 8, max: 80 });
+const opponentsArb = fc.integer({ min: 1, max: 4 });
+
+const build = (generator: MapGeneratorId, seed: number, nodeCount: number, opponentCount: number) =>
+  generateMap(PlayerColor.BLUE, seed, nodeCount, 'CLASSIC', NO_SPECIALS, { ...DEFAULT_STARTING_FORCES, opponentCount }, generator);
+
+// Sorted hop distances from one node to every other, over PERMANENT edges unless told otherwise
+const hopProfile = (nodes: Node[], edges: Edge[], startId: string, onlyPermanent = true): number[] => {
+  const adjacency = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  edges.filter(e => !onlyPermanent || e.type === 'PERMANENT').forEach(e => {
+    adjacency.get(e.source)!.push(e.target);
+    adjacency.get(e.target)!.push(e.source);
+  });
+  const hops = new Map([[startId, 0]]);
+  const queue = [startId];
+  for (let i = 0; i < queue.length; i++) {
+    adjacency.get(queue[i])!.forEach(next => {
+      if (!hops.has(next)) {
+        hops.set(next, hops.get(queue[i])! + 1);
+        queue.push(next);
+      }
+    });
+  }
+  return Array.from(hops.values()).sort((a, b) => a - b);
+};
+
+describe.each(GENERATORS)('%s generator', generator => {
+  it('builds a connected, in-bounds map with one start per faction', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, (seed, nodeCount, opponentCount) => {
+      const { nodes, edges } = build(generator, seed, nodeCount, opponentCount);
+
+      expect(isGraphConnected(nodes, edges)).toBe(true);
+      nodes.forEach(n => {
+        expect(n.x).toBeGreaterThanOrEqual(0);
+        expect(n.x).toBeLessThanOrEqual(GAME_WIDTH);
+        expect(n.y).toBeGreaterThanOrEqual(0);
+        expect(n.y).toBeLessThanOrEqual(GAME_HEIGHT);
+      });
+      const starts = nodes.filter(n => n.owner !== PlayerColor.GRAY);
+      expect(new Set(starts.map(n => n.owner)).size).toBe(opponentCount + 1);
+      expect(starts).toHaveLength(opponentCount + 1);
+    }), { numRuns: 15 });
+  });
+
+  it('is deterministic for a seed', () => {
+    expect(build(generator, 42, 30, 3)).toEqual(build(generator, 42, 30, 3));
+  });
+});
+
+describe('exact node counts', () => {
+  it('uses every requested node except on symmetric maps', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, fc.constantFrom<MapGeneratorId>('RINGS', 'ISLANDS', 'GRID'), (seed, nodeCount, opponentCount, generator) => {
+      expect(build(generator, seed, nodeCount, opponentCount).nodes).toHaveLength(nodeCount);
+    }), { numRuns: 30 });
+  });
+
+  it('rounds symmetric maps down to whole sectors plus the hub', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, (seed, nodeCount, opponentCount) => {
+      const sectors = opponentCount + 1;
+      const { nodes } = build('SYMMETRIC', seed, nodeCount, opponentCount);
+      expect(nodes).toHaveLength(Math.max(1, Math.floor((nodeCount - 1) / sectors)) * sectors + 1);
+      expect(nodes.length).toBeLessThanOrEqual(nodeCount);
+    }), { numRuns: 30 });
+  });
+});
+
+describe('SYMMETRIC generator', () => {
+  it('gives every start the same view of the permanent graph', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, (seed, nodeCount, opponentCount) => {
+      const { nodes, edges } = build('SYMMETRIC', seed, nodeCount, opponentCount);
+      const profiles = nodes.filter(n => n.owner !== PlayerColor.GRAY).map(n => hopProfile(nodes, edges, n.id));
+      profiles.forEach(profile => expect(profile).toEqual(profiles[0]));
+    }), { numRuns: 30 });
+  });
+});
+
+describe('ocean currents on generated layouts', () => {
+  // The map after one ocean current, with the links the layout allows
+  const shifted = (generator: MapGeneratorId, seed: number, nodeCount: number, opponentCount: number, rngSeed: number) => {
+    const map = build(generator, seed, nodeCount, opponentCount);
+    const edges = regenerateTopology(map.nodes, map.edges, createRng(rngSeed), 'CLASSIC', map.currentLinks);
+    const allowed = new Set(map.currentLinks!.flat().map(([a, b]) => edgeKey(a, b)));
+    return { ...map, edges, allowed };
+  };
+
+  it('keeps a SYMMETRIC map symmetric', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, fc.integer(), (seed, nodeCount, opponentCount, rngSeed) => {
+      const { nodes, edges, allowed } = shifted('SYMMETRIC', seed, nodeCount, opponentCount, rngSeed);
+      edges.filter(e => e.type === 'RANDOM').forEach(e => expect(allowed.has(edgeKey(e.source, e.target))).toBe(true));
+      const profiles = nodes.filter(n => n.owner !== PlayerColor.GRAY).map(n => hopProfile(nodes, edges, n.id, false));
+      profiles.forEach(profile => expect(profile).toEqual(profiles[0]));
+    }), { numRuns: 30 });
+  });
+
+  it('keeps a GRID map on its lattice', () => {
+    fc.assert(fc.property(seedArb, countArb, opponentsArb, fc.integer(), (seed, nodeCount, opponentCount, rngSeed) => {
+      const { nodes, edges, allowed } = shifted('GRID', seed, nodeCount, opponentCount, rngSeed);
+      const byId = new Map(nodes.map(n => [n.id, n]));
+      edges.filter(e => e.type === 'RANDOM').forEach(e => {
+        expect(allowed.has(edgeKey(e.source, e.target))).toBe(true);
+        const a = byId.get(e.source)!;
+        const b = byId.get(e.target)!;
+        expect(a.x === b.x || a.y === b.y).toBe(true);
+      });
+      expect(isGraphConnected(nodes, edges)).toBe(true);
+    }), { numRuns: 30 });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor, MatchReplay, GameWorld } from '../types';
+import { OCEAN_CURRENT_INTERVAL_MS } from '../constants';
+import { generateMap } from '../services/gameLogic';
+import { advanceGameState, applyAttackCommand } from '../services/gamePhysics';
+import { createReplay, encodeReplay, decodeReplay, createPlayback, stepPlayback, seekPlayback, REPLAY_VERSION } from '../services/replay';
+import { makeNode, makeWorld, quietContext, parsedFields, fieldsAt } from './helpers';
+
+const player = PlayerColor.BLUE;
+const MATCH_TICKS = 600;
+
+// Plays a match the way the worker does, with the player attacking from
+// their first node every few seconds, and records it
+const recordMatch = (seed: number): { replay: MatchReplay; world: GameWorld } => {
+  const { nodes, edges } = generateMap(player, seed);
+  let world = makeWorld(nodes, edges, { rngState: seed });
+  const replay = createReplay(seed, player, 3, world);
+  let lastAITime = 0;
+  let nextEventTime = OCEAN_CURRENT_INTERVAL_MS;
+
+  for (let tick = 0; tick < MATCH_TICKS; tick++) {
+    const home = world.nodes.find(n => n.owner === player);
+    const edge = home && world.edges.find(e => e.source === home.id || e.target === home.id);
+    if (tick % 80 === 0 && edge) {
+      const command = { from: home.id, to: edge.source === home.id ? edge.target : edge.source, isContinuous: tick % 160 === 0 };
+      world = applyAttackCommand(world, command, player, tick);
+      replay.commands.push({ tick, actor: 'PLAYER', ...command });
+    }
+    const result = advanceGameState(world, quietContext(tick, { lastAITime, nextEventTime, playerColor: player, difficulty: 3 }));
+    result.aiMoves.forEach(move => replay.commands.push({ tick, actor: 'AI', ...move }));
+    world = result.world;
+    lastAITime = result.lastAITime;
+    nextEventTime = result.nextEventTime;
+  }
+  replay.endTick = MATCH_TICKS;
+  return { replay, world };
+};
+
+const playTo = (replay: MatchReplay, tick: number): GameWorld => {
+  const playback = createPlayback(replay);
+  while (playback.current.tick < tick) stepPlayback(playback);
+  return playback.current.world;
+};
+
+describe('replays', () => {
+  it('plays a recorded match back to the same final world after a round trip through the file format', () => {
+    const { replay, world } = recordMatch(11);
+    expect(replay.commands.some(c => c.actor === 'AI')).toBe(true);
+
+    const decoded = decodeReplay(encodeReplay(replay));
+    expect(decoded.commands).toHaveLength(replay.commands.length);
+    expect(playTo(decoded, MATCH_TICKS)).toEqual(world);
+  });
+
+  it('seeks backwards across a keyframe to the same world as a straight replay', () => {
+    const { replay } = recordMatch(23);
+    const playback = createPlayback(replay);
+    seekPlayback(playback, MATCH_TICKS);
+    expect(playback.keyframes.length).toBeGreaterThan(2);
+
+    expect(seekPlayback(playback, 250)).toEqual(playTo(replay, 250));
+    expect(seekPlayback(playback, MATCH_TICKS)).toEqual(playTo(replay, MATCH_TICKS));
+  });
+
+  it('keeps stream transfers and per-faction settings in the starting world', () => {
+    const start = applyAttackCommand(
+      makeWorld([makeNode('a', { owner: player, count: 40 }), makeNode('b')], [{ source: 'a', target: 'b', type: 'PERMANENT' }], {
+        aiDifficulties: { [PlayerColor.RED]: 5 }
+      }),
+      { from: 'a', to: 'b', isContinuous: true },
+      player,
+      0
+    );
+    const decoded = decodeReplay(encodeReplay(createReplay(1, player, 3, start)));
+    expect(decoded.initialWorld.transfers[0].totalToSend).toBe(Infinity);
+    expect(decoded.initialWorld.aiDifficulties).toEqual({ [PlayerColor.RED]: 5 });
+  });
+
+  it('rejects files it cannot play back', () => {
+    const text = encodeReplay(createReplay(1, player, 3, makeWorld([makeNode('a')], [])));
+    const tweaked = (tweak: (raw: Record<string, unknown>) => void) => {
+      const raw = parsedFields(text);
+      tweak(raw);
+      return () => decodeReplay(JSON.stringify(raw));
+    };
+    expect(tweaked(raw => { raw.version = REPLAY_VERSION + 1; })).toThrow('不支持的录像版本');
+    expect(tweaked(raw => { raw.version = REPLAY_VERSION - 1; })).toThrow('旧版本');
+    expect(tweaked(raw => { raw.commands = [[0, 'P', 'a', 'ghost', 0]]; })).toThrow('存在无效指令');
+    expect(tweaked(raw => { fieldsAt(raw, 'initialWorld', 'nodes', 0).owner = 'TEAL'; })).toThrow('归属无效');
+    expect(tweaked(raw => { delete fieldsAt(raw, 'initialWorld').mode; })).toThrow('游戏模式无效');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PlayerColor, SaveGame, ActiveTransfer } from '../types';
+import { encodeSaveGame, decodeSaveGame, writeSaveGame, SAVE_VERSION, SAVE_STORAGE_KEY } from '../services/saveGame';
+import { createReplay } from '../services/replay';
+import { makeNode, makeWorld, parsedFields, fieldsAt, listAt } from './helpers';
+
+const stream = (): ActiveTransfer => ({
+  id: 't1',
+  sourceId: 'a',
+  targetId: 'b',
+  owner: PlayerColor.BLUE,
+  totalToSend: Infinity,
+  sentCount: 4,
+  lastSpawnTime: 500,
+  startX: 0,
+  startY: 0,
+  endX: 100,
+  endY: 0
+});
+
+const makeSave = (): SaveGame => {
+  const start = makeWorld(
+    [makeNode('a', { owner: PlayerColor.BLUE, count: 30 }), makeNode('b', { x: 100 }), makeNode('c', { x: 200, owner: PlayerColor.RED })],
+    [{ source: 'a', target: 'b', type: 'PERMANENT' }, { source: 'b', target: 'c', type: 'RANDOM' }],
+    { currentLinks: [[['b', 'c']], [['a', 'c']]] }
+  );
+  const world = { ...start, transfers: [stream()] };
+  return {
+    version: SAVE_VERSION,
+    savedAt: 1000,
+    seed: 42,
+    world,
+    tick: 120,
+    lastAITime: 5000,
+    nextEventTime: 20000,
+    playerColor: PlayerColor.BLUE,
+    difficulty: 3,
+    isPlayerAutoPilot: false,
+    replay: createReplay(42, PlayerColor.BLUE, 3, start)
+  };
+};
+
+// Tweak an encoded save and return the message decoding it throws
+const rejection = (tweak: (save: Record<string, unknown>) => void): string => {
+  const save = parsedFields(encodeSaveGame(makeSave()));
+  tweak(save);
+  try {
+    decodeSaveGame(JSON.stringify(save));
+  } catch (err) {
+    return (err as Error).message;
+  }
+  throw new Error('save was accepted');
+};
+
+describe('save games', () => {
+  it('round-trips a match with a stream transfer', () => {
+    const save = makeSave();
+    const restored = decodeSaveGame(encodeSaveGame(save));
+    expect(restored.world.transfers[0].totalToSend).toBe(Infinity);
+    expect(restored).toEqual(save);
+  });
+
+  it('upgrades a v1 save to a CLASSIC match', () => {
+    const v1 = parsedFields(encodeSaveGame(makeSave()));
+    v1.version = 1;
+    delete fieldsAt(v1, 'world').mode;
+    const restored = decodeSaveGame(JSON.stringify(v1));
+    expect(restored.version).toBe(SAVE_VERSION);
+    expect(restored.world.mode).toBe('CLASSIC');
+  });
+
+  it.each([2, 3])('keeps a v%i match but drops its recording, which no longer plays back', version => {
+    const old = parsedFields(encodeSaveGame(makeSave()));
+    old.version = version;
+    const restored = decodeSaveGame(JSON.stringify(old));
+    expect(restored.world).toEqual(makeSave().world);
+    expect(restored.replay).toBeNull();
+  });
+
+  it('rejects saves from a newer version', () => {
+    expect(rejection(save => { save.version = SAVE_VERSION + 1; })).toMatch('更新版本');
+  });
+
+  it('rejects corrupt saves', () => {
+    expect(() => decodeSaveGame('{"version":')).toThrow('不是有效的 JSON');
+    expect(rejection(save => { delete save.version; })).toMatch('缺少版本号');
+    expect(rejection(save => { fieldsAt(save, 'world', 'nodes', 0).count = -1; })).toMatch('数量为负');
+    expect(rejection(save => { fieldsAt(save, 'world', 'transfers', 0).totalToSend = 'lots'; })).toMatch('输送数量无效');
+    expect(rejection(save => { save.playerColor = PlayerColor.GRAY; })).toMatch('玩家颜色无效');
+    expect(rejection(save => { listAt(save, 'world', 'nodes').push(fieldsAt(save, 'world', 'nodes', 0)); })).toMatch('节点 ID 无效');
+  });
+
+  it('rejects saves that point at nodes that do not exist', () => {
+    expect(rejection(save => { fieldsAt(save, 'world', 'edges', 0).target = 'ghost'; })).toMatch('连接无效');
+    expect(rejection(save => { fieldsAt(save, 'world', 'transfers', 0).sourceId = 'ghost'; })).toMatch('输送数据无效');
+    expect(rejection(save => { listAt(save, 'world', 'currentLinks', 1, 0)[1] = 'ghost'; })).toMatch('洋流连接无效');
+    expect(rejection(save => {
+      const transfer = fieldsAt(save, 'world', 'transfers', 0);
+      listAt(save, 'world', 'payloads').push({ ...transfer, targetId: 'ghost', count: 1, progress: 0, speed: 0.05 });
+    })).toMatch('孢子数据无效');
+  });
+});
+
+describe('writeSaveGame', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Storage that refuses anything longer than `quota` characters
+  const stubStorage = (quota: number) => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      setItem: (key: string, value: string) => {
+        if (value.length > quota) throw new DOMException('quota exceeded', 'QuotaExceededError');
+        stored.set(key, value);
+      }
+    });
+    return stored;
+  };
+
+  it('drops the replay when the full save does not fit', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const save = makeSave();
+    const withoutReplay = encodeSaveGame({ ...save, replay: null });
+    const stored = stubStorage(withoutReplay.length);
+
+    expect(writeSaveGame(save)).toBe(true);
+    expect(decodeSaveGame(stored.get(SAVE_STORAGE_KEY)!).replay).toBeNull();
+  });
+
+  it('reports a save that does not fit at all instead of throwing', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const stored = stubStorage(0);
+    expect(writeSaveGame(makeSave())).toBe(false);
+    expect(stored.size).toBe(0);
+  });
+});
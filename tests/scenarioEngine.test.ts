@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor, ScenarioScript, ScenarioProgress, GameWorld } from '../types';
+import { TICK_RATE_MS } from '../constants';
+import { createScenarioProgress, advanceScenario, recordScriptInput, isOrderLocked, scriptDirectives } from '../services/scenarioEngine';
+import { TUTORIAL_SCENARIO } from '../data/scenarios';
+import { makeNode, makeWorld } from './helpers';
+
+const player = PlayerColor.BLUE;
+const world = (owners: Record<string, PlayerColor> = {}): GameWorld =>
+  makeWorld(['a', 'b'].map(id => makeNode(id, { owner: owners[id] ?? PlayerColor.GRAY })), []);
+
+const script = (overrides: Partial<ScenarioScript> = {}): ScenarioScript => ({
+  id: 'test',
+  name: 'test',
+  description: '',
+  buildMap: () => ({ nodes: [], edges: [] }),
+  steps: [
+    { id: 0, text: 'hello', completeWhen: { type: 'CONFIRM' } },
+    { id: 1, text: 'take b', triggerWhen: { type: 'NODE_OWNED', nodeId: 'a' }, completeWhen: { type: 'NODE_OWNED', nodeId: 'b' } }
+  ],
+  ...overrides
+});
+
+const step = (s: ScenarioScript, progress: ScenarioProgress, w: GameWorld, tick: number) =>
+  advanceScenario(s, progress, { world: w, playerColor: player, tick });
+
+describe('scenario engine', () => {
+  it('waits for input on the showing step, then for its trigger before showing the next', () => {
+    const s = script();
+    let progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 0 });
+    expect(progress).toMatchObject({ stepIndex: 0, isStepShown: true });
+
+    progress = step(s, progress, world(), 1);
+    expect(progress.stepIndex).toBe(0);
+
+    progress = step(s, recordScriptInput(progress, { type: 'CONFIRM' }), world(), 2);
+    expect(progress).toMatchObject({ stepIndex: 1, isStepShown: false });
+
+    // Input given before the step shows doesn't count towards it
+    expect(recordScriptInput(progress, { type: 'CONFIRM' })).toBe(progress);
+
+    progress = step(s, progress, world({ a: player }), 3);
+    expect(progress).toMatchObject({ stepIndex: 1, isStepShown: true, shownAtTick: 3 });
+
+    progress = step(s, progress, world({ a: player, b: player }), 4);
+    expect(progress.outcome).toBe('VICTORY');
+  });
+
+  it('counts elapsed time from when the step appeared', () => {
+    const s = script({ steps: [{ id: 0, text: 'wait', completeWhen: { type: 'TIME_ELAPSED', seconds: 1 } }] });
+    const ticksPerSecond = 1000 / TICK_RATE_MS;
+    const progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 10 });
+    expect(step(s, progress, world(), 10 + ticksPerSecond - 1).outcome).toBeNull();
+    expect(step(s, progress, world(), 10 + ticksPerSecond).outcome).toBe('VICTORY');
+  });
+
+  it('times a held node from its capture, starting over if it is lost', () => {
+    const s = script({ steps: [{ id: 0, text: 'hold a', completeWhen: { type: 'NODE_HELD', nodeId: 'a', seconds: 1 } }] });
+    const ticksPerSecond = 1000 / TICK_RATE_MS;
+    let progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 0 });
+    progress = step(s, progress, world({ a: player }), 10);
+    progress = step(s, progress, world({ a: PlayerColor.RED }), 20);
+    progress = step(s, progress, world({ a: player }), 30);
+    expect(step(s, progress, world({ a: player }), 10 + ticksPerSecond).outcome).toBeNull();
+    expect(step(s, progress, world({ a: player }), 30 + ticksPerSecond).outcome).toBe('VICTORY');
+  });
+
+  it('checks bonuses the moment the script is won', () => {
+    const s = script({
+      steps: [{ id: 0, text: 'take all', completeWhen: { type: 'NODE_COUNT', atLeast: 1 } }],
+      bonuses: [
+        { text: 'fast', when: { type: 'WITHIN', seconds: 1 } },
+        { text: 'everything', when: { type: 'TYPE_OWNED', nodeType: 'DEFAULT' } }
+      ]
+    });
+    const progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 0 });
+    expect(step(s, progress, world({ a: player }), 1).bonusesMet).toEqual([true, false]);
+    expect(step(s, progress, world({ a: player, b: player }), 1000).bonusesMet).toEqual([false, true]);
+  });
+
+  it('loses as soon as the defeat condition holds, on any step', () => {
+    const s = script({ defeatWhen: { type: 'NODE_OWNED', nodeId: 'a', by: 'OPPONENT' } });
+    const progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 0 });
+    expect(step(s, progress, world({ a: PlayerColor.RED }), 1).outcome).toBe('DEFEAT');
+  });
+
+  it('sends scripted orders as the step appears and then on schedule, and hands over to the AI', () => {
+    const orders = [{ from: 'b', to: 'a' }];
+    const s = script({ steps: [
+      { id: 0, text: 'incoming', ai: { type: 'ORDERS', orders, repeatSeconds: 1 }, shiftCurrents: true, completeWhen: { type: 'CONFIRM' } },
+      { id: 1, text: 'fight', ai: { type: 'FREE', difficulty: 2 }, completeWhen: { type: 'CONFIRM' } }
+    ] });
+    const ticksPerSecond = 1000 / TICK_RATE_MS;
+    let progress = createScenarioProgress(s, { world: world(), playerColor: player, tick: 5 });
+
+    expect(scriptDirectives(s, progress, 5)).toEqual({ isAIEnabled: false, aiMoves: orders, shiftCurrents: true });
+    expect(scriptDirectives(s, progress, 6)).toEqual({ isAIEnabled: false, shiftCurrents: false });
+    expect(scriptDirectives(s, progress, 5 + ticksPerSecond).aiMoves).toBe(orders);
+
+    progress = step(s, recordScriptInput(progress, { type: 'CONFIRM' }), world(), 9);
+    expect(scriptDirectives(s, progress, 9)).toEqual({ isAIEnabled: true, aiDifficulty: 2, shiftCurrents: false });
+  });
+
+  it('plays the basic tutorial through to victory', () => {
+    const s = TUTORIAL_SCENARIO;
+    const { nodes, edges } = s.buildMap(player);
+    let w = makeWorld(nodes, edges);
+    const own = (id: string) => {
+      w = { ...w, nodes: w.nodes.map(n => n.id === id ? { ...n, owner: player } : n) };
+    };
+    let progress = createScenarioProgress(s, { world: w, playerColor: player, tick: 0 });
+    const inputsByStep: Record<number, () => void> = {
+      1: () => { progress = recordScriptInput(progress, { type: 'SELECT', nodeId: 'tutorial-player' }); },
+      2: () => { progress = recordScriptInput(progress, { type: 'ORDER', command: { from: 'tutorial-player', to: 'tutorial-neutral', isContinuous: false } }); },
+      3: () => own('tutorial-neutral'),
+      7: () => { progress = recordScriptInput(progress, { type: 'ORDER', command: { from: 'tutorial-player', to: 'tutorial-neutral', isContinuous: true } }); },
+      8: () => own('tutorial-enemy')
+    };
+
+    expect(isOrderLocked(s, progress)).toBe(false);
+    for (let tick = 1; tick <= s.steps.length && !progress.outcome; tick++) {
+      const act = inputsByStep[progress.stepIndex] ?? (() => { progress = recordScriptInput(progress, { type: 'CONFIRM' }); });
+      act();
+      if (progress.stepIndex === 1) expect(isOrderLocked(s, progress)).toBe(true);
+      progress = step(s, progress, w, tick);
+    }
+    expect(progress.outcome).toBe('VICTORY');
+  });
+});
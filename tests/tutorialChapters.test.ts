@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerColor } from '../types';
+import { advanceGameState } from '../services/gamePhysics';
+import { TUTORIAL_CHAPTERS } from '../data/scenarios';
+import { CURRENTS_CHAPTER } from '../data/tutorialChapters';
+import { buildGraphIndex, hopDistances } from '../services/graphIndex';
+import { makeWorld, quietContext, edgeKey, scriptNodeIds } from './helpers';
+
+const player = PlayerColor.BLUE;
+
+describe('tutorial chapters', () => {
+  it.each(TUTORIAL_CHAPTERS.map(c => [c.id, c] as const))('%s: the player can reach every node its steps refer to', (_, chapter) => {
+    const { nodes, edges } = chapter.buildMap(player);
+    const home = nodes.find(n => n.owner === player)!;
+    const reachable = hopDistances(buildGraphIndex(nodes, edges), home.id);
+    scriptNodeIds(chapter).forEach(id => expect(reachable.has(id)).toBe(true));
+    expect(nodes.some(n => reachable.has(n.id) && n.owner !== player && n.owner !== PlayerColor.GRAY)).toBe(true);
+  });
+
+  it('has chapter ids the progress store can tell apart', () => {
+    expect(new Set(TUTORIAL_CHAPTERS.map(c => c.id)).size).toBe(TUTORIAL_CHAPTERS.length);
+  });
+
+  it('currents: the scripted shift severs the dashed link and keeps every permanent one', () => {
+    const { nodes, edges } = CURRENTS_CHAPTER.buildMap(player);
+    const world = makeWorld(nodes, edges);
+    const shifted = advanceGameState(world, quietContext(0, { gameState: 'TUTORIAL', scriptedOceanCurrent: true })).world;
+
+    expect(shifted.latestEvents.some(e => e.type === 'TOPOLOGY_SHIFT')).toBe(true);
+    expect(shifted.edges.map(edgeKey).sort()).toEqual(edges.filter(e => e.type === 'PERMANENT').map(edgeKey).sort());
+  });
+});
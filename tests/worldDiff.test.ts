@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { GameWorld } from '../types';
+import { OCEAN_CURRENT_INTERVAL_MS, TICK_RATE_MS } from '../constants';
+import { advanceGameState } from '../services/gamePhysics';
+import { createDiffTracker, diffWorld, applyWorldDiff } from '../services/worldDiff';
+import { quietContext, worldArb, withRandomStreams } from './helpers';
+
+const byId = <T extends { id: string }>(items: T[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+
+describe('world diffs', () => {
+  it('keeps a mirror identical to the simulated world across batched ticks', () => {
+    const batchArb = fc.array(fc.integer({ min: 1, max: 5 }), { minLength: 1, maxLength: 30 });
+
+    fc.assert(fc.property(worldArb(2, 12), fc.array(fc.nat(), { minLength: 1, maxLength: 12 }), batchArb, (world, picks, batches) => {
+      let live = withRandomStreams(world, picks);
+      // The receiver gets its own copy, like a structured clone across threads
+      let mirror: GameWorld = structuredClone(live);
+      const tracker = createDiffTracker(live);
+      let tick = 0;
+      let nextEventTime = OCEAN_CURRENT_INTERVAL_MS / 4;
+
+      batches.forEach(steps => {
+        const events: GameWorld['latestEvents'] = [];
+        for (let i = 0; i < steps; i++) {
+          const result = advanceGameState(live, quietContext(tick, { nextEventTime }));
+          live = result.world;
+          nextEventTime = result.nextEventTime;
+          events.push(...live.latestEvents);
+          tick++;
+        }
+        mirror = applyWorldDiff(mirror, structuredClone(diffWorld(tracker, live, steps, events)));
+
+        expect(mirror.nodes).toEqual(live.nodes);
+        expect(mirror.edges).toEqual(live.edges);
+        expect(mirror.transfers).toEqual(live.transfers);
+        expect(byId(mirror.payloads)).toEqual(byId(live.payloads));
+        expect(mirror.latestEvents).toEqual(events);
+      });
+    }), { numRuns: 40 });
+  });
+
+  it('only sends nodes, edges and transfers that changed', () => {
+    fc.assert(fc.property(worldArb(2, 8), world => {
+      const tracker = createDiffTracker(world);
+      const diff = diffWorld(tracker, world, 1, []);
+
+      expect(diff.nodes).toHaveLength(0);
+      expect(diff.edges).toBeUndefined();
+      expect(diff.transfers).toBeUndefined();
+      expect(diff.payloadsAdded).toHaveLength(0);
+      expect(diff.payloadsRemoved).toHaveLength(0);
+    }));
+  });
+
+  it('sends the new edge list after an ocean current', () => {
+    fc.assert(fc.property(worldArb(3, 10), world => {
+      const tracker = createDiffTracker(world);
+      const tick = OCEAN_CURRENT_INTERVAL_MS / TICK_RATE_MS;
+      const next = advanceGameState(world, quietContext(tick, { nextEventTime: OCEAN_CURRENT_INTERVAL_MS })).world;
+
+      expect(diffWorld(tracker, next, 1, []).edges).toBe(next.edges);
+    }));
+  });
+});
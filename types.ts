@@ -8,12 +8,52 @@ export enum PlayerColor {
   GRAY = 'GRAY' // Neutral
 }
 
-export type DifficultyLevel = 1 | 2 | 3 | 4 | 5 | 6;
+export type DifficultyLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+// How an AI faction plays, registered in services/aiStrategies. Difficulty only
+// decides how fast and how often it acts.
+export type AIPersonality = 'BALANCED' | 'RUSHER' | 'TURTLE' | 'ECONOMIST' | 'OPPORTUNIST';
 
 export type GameMode = 'CLASSIC' | 'HONEYCOMB';
 
+// Map layouts offered by services/mapGenerators (HONEYCOMB mode always uses its own lattice)
+export type MapGeneratorId = 'SCATTER' | 'RINGS' | 'ISLANDS' | 'SYMMETRIC' | 'GRID';
+
 export type NodeType = 'DEFAULT' | 'FORTRESS' | 'HIVE';
 
+// How special nodes are sprinkled over a generated map.
+// BALANCED picks nodes whose graph distance (over PERMANENT edges) is as equal as
+// possible across all starting nodes; RANDOM ignores the starts entirely.
+export type SpecialNodeFairness = 'BALANCED' | 'RANDOM';
+
+export interface SpecialNodeOptions {
+  fortressCount: number;
+  hiveCount: number;
+  fairness: SpecialNodeFairness;
+}
+
+// Who takes part in a generated match and what everyone starts with
+export interface StartingForces {
+  opponentCount: number; // AI factions besides the player
+  startingCount: number; // Units on every faction's home node
+  neutralCountMin: number; // Neutral nodes start with a count drawn from [min, max]
+  neutralCountMax: number;
+}
+
+// One opponent's seat in the setup screen; a missing field means the match
+// difficulty and a personality drawn from the seed
+export interface OpponentSetup {
+  difficulty?: DifficultyLevel;
+  personality?: AIPersonality;
+}
+
+// Everything the custom-game setup screen controls
+export interface CustomGameSettings extends StartingForces {
+  nodeCount: number;
+  generator: MapGeneratorId;
+  opponents: Partial<Record<PlayerColor, OpponentSetup>>;
+}
+
 export interface Node {
   id: string;
   x: number;
@@ -38,6 +78,8 @@ export interface Edge {
   type: EdgeType;
 }
 
+export type NodeLink = [string, string]; // Two node ids, in no particular order
+
 export interface TravelPayload {
   id: string;
   sourceId: string;
@@ -50,6 +92,7 @@ export interface TravelPayload {
   startY: number;
   endX: number;
   endY: number;
+  overflowHops?: number; // Times this unit was turned away from a full node
 }
 
 export interface ActiveTransfer {
@@ -64,30 +107,264 @@ export interface ActiveTransfer {
   startY: number;
   endX: number;
   endY: number;
+  holdUntil?: number; // No unit launches before this simulation time; lets timed AI strikes land together
 }
 
-// Visual Events (Transient, cleared every tick)
-export interface GameEvent {
+// --- Game Events ---
+// Transient, cleared every tick. Every event carries the tick it happened on
+// and the ids involved, so visuals, audio and stats can all react to one stream.
+
+export interface ImpactEvent {
   type: 'IMPACT';
+  tick: number;
   targetId: string;
+  sourceId: string;
+  payloadId: string;
   angle: number; // Radian direction of impact
   force: number; // 0 to 1 scale
   color: PlayerColor; // Color of the projectile
 }
 
-export type GameState = 'MENU' | 'TUTORIAL' | 'PLAYING' | 'PAUSED' | 'VICTORY' | 'DEFEAT';
+// Two opposing payloads met on an edge and destroyed each other
+export interface AnnihilationEvent {
+  type: 'ANNIHILATION';
+  tick: number;
+  payloadIds: [string, string];
+  colors: [PlayerColor, PlayerColor];
+  sourceId: string; // The edge the collision happened on
+  targetId: string;
+  x: number;
+  y: number;
+}
+
+export interface CaptureEvent {
+  type: 'CAPTURE';
+  tick: number;
+  nodeId: string;
+  owner: PlayerColor;
+  prevOwner: PlayerColor;
+  payloadId: string; // The payload that tipped the node over
+}
+
+// A faction lost its last node, payload and transfer
+export interface EliminationEvent {
+  type: 'ELIMINATION';
+  tick: number;
+  faction: PlayerColor;
+}
+
+// An ocean current rewired the RANDOM edges
+export interface TopologyShiftEvent {
+  type: 'TOPOLOGY_SHIFT';
+  tick: number;
+  addedEdges: Edge[];
+  removedEdges: Edge[];
+  severedPayloadIds: string[]; // Payloads lost with their edge
+}
+
+// A reinforcement reached a node at capacity and had to go elsewhere
+export type OverflowAction = 'SPILL' | 'BOUNCE' | 'LOST';
+
+export interface OverflowEvent {
+  type: 'OVERFLOW';
+  tick: number;
+  nodeId: string; // The full node
+  payloadId: string;
+  owner: PlayerColor;
+  action: OverflowAction;
+  toId: string | null; // Where the unit was sent; null when it was lost
+}
+
+export type StreamEndReason = 'COMPLETED' | 'SOURCE_LOST' | 'SEVERED';
+
+export interface StreamEndEvent {
+  type: 'STREAM_END';
+  tick: number;
+  transferId: string;
+  sourceId: string;
+  targetId: string;
+  owner: PlayerColor;
+  reason: StreamEndReason;
+}
+
+export type GameEvent = ImpactEvent | AnnihilationEvent | CaptureEvent | EliminationEvent | TopologyShiftEvent | StreamEndEvent | OverflowEvent;
+export type GameEventType = GameEvent['type'];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+export type GameState = 'MENU' | 'TUTORIAL' | 'PLAYING' | 'PAUSED' | 'VICTORY' | 'DEFEAT' | 'REPLAY' | 'EDITOR' | 'CAMPAIGN';
 
 export interface GameWorld {
   nodes: Node[];
   edges: Edge[];
   payloads: TravelPayload[];
   transfers: ActiveTransfer[];
-  latestEvents: GameEvent[]; // New: For tracking impacts between frames
+  latestEvents: GameEvent[]; // Everything that happened during the last tick
+  rngState: number; // Seeded PRNG state, advanced only by the simulation
+  mode: GameMode; // Decides which node pairs ocean currents may link
+  oceanCurrents?: boolean; // false keeps the starting edges for the whole match; absent means on
+  currentLinks?: NodeLink[][]; // Groups of pairs currents link all or nothing; absent lets `mode` decide
+  aiPersonalities?: Partial<Record<PlayerColor, AIPersonality>>; // Factions without an entry play BALANCED
+  aiDifficulties?: Partial<Record<PlayerColor, DifficultyLevel>>; // Factions without an entry play at the match difficulty
+}
+
+// --- Commands & Replays ---
+
+export interface AttackCommand {
+  from: string;
+  to: string;
+  isContinuous: boolean; // Stream (Ctrl + click) instead of sending half
 }
 
+export interface AIMove {
+  from: string;
+  to: string;
+  amount?: number; // Units to send; absent sends half the source, like a player's click
+  delayMs?: number; // Holds the transfer back so several sources land at once
+}
+
+export interface ReplayCommand {
+  tick: number; // Applied before this tick is simulated (player) or during it (AI)
+  actor: 'PLAYER' | 'AI';
+  from: string;
+  to: string;
+  isContinuous?: boolean;
+  amount?: number; // AI moves sized by the planner
+  delayMs?: number;
+}
+
+export interface MatchReplay {
+  version: number;
+  seed: number;
+  playerColor: PlayerColor;
+  difficulty: DifficultyLevel;
+  initialWorld: GameWorld;
+  commands: ReplayCommand[];
+  endTick: number;
+}
+
+// --- Save Games ---
+
+export interface SaveGame {
+  version: number;
+  savedAt: number; // Wall clock, for display only
+  seed: number;
+  world: GameWorld;
+  tick: number;
+  lastAITime: number;
+  nextEventTime: number;
+  playerColor: PlayerColor;
+  difficulty: DifficultyLevel;
+  isPlayerAutoPilot: boolean;
+  replay: MatchReplay | null; // Recording so far, so the finished match still has a full replay
+}
+
+// --- Map Files ---
+
+export interface MapNodeDefinition {
+  id: string;
+  x: number;
+  y: number;
+  type: NodeType;
+  owner: PlayerColor;
+  count: number;
+  capacity: number;
+}
+
+export interface OceanCurrentRules {
+  enabled: boolean;
+  mode: GameMode; // Which node pairs currents may link
+  links?: NodeLink[][]; // Overrides `mode` with the layout's own groups of pairs, as in GameWorld.currentLinks
+}
+
+export interface MapDefinition {
+  version: number;
+  name: string;
+  nodes: MapNodeDefinition[];
+  edges: Edge[];
+  startSlots: string[]; // Node ids the factions are seated on, player first
+  oceanCurrents?: OceanCurrentRules; // Defaults to CLASSIC currents
+}
+
+// --- Scenario Scripting ---
+
+// Nodes are named by id; a faction left out means the player
+export type ScriptFaction = 'PLAYER' | 'OPPONENT' | 'NEUTRAL';
+
+// Everything a scripted step can wait for. Inputs and events only count once the step is showing.
+export type ScriptCondition =
+  | { type: 'CONFIRM' } // The player clicked through the message
+  | { type: 'NODE_SELECTED', nodeId: string }
+  | { type: 'ORDER_SENT', from?: string, to?: string, continuous?: boolean }
+  | { type: 'STREAM_ACTIVE', from?: string, to?: string } // A player stream is still flowing
+  | { type: 'NODE_OWNED', nodeId: string, by?: ScriptFaction }
+  | { type: 'FACTION_ELIMINATED', faction: Exclude<ScriptFaction, 'NEUTRAL'> }
+  | { type: 'EVENT_SEEN', event: GameEventType }
+  | { type: 'TIME_ELAPSED', seconds: number } // Simulation time since the step appeared
+  | { type: 'WITHIN', seconds: number } // Simulation time since the scenario started is at most this
+  | { type: 'NODE_HELD', nodeId: string, seconds: number } // Owned by the player without a break
+  | { type: 'TYPE_OWNED', nodeType: NodeType, by?: ScriptFaction } // Every node of the type, and there is one
+  | { type: 'NODE_COUNT', atLeast: number, by?: ScriptFaction }
+  | { type: 'ALL', conditions: ScriptCondition[] }
+  | { type: 'ANY', conditions: ScriptCondition[] };
+
+// Player input the simulation can't see in the world itself
+export type ScriptInput =
+  | { type: 'CONFIRM' }
+  | { type: 'SELECT', nodeId: string }
+  | { type: 'ORDER', command: AttackCommand };
+
+// What the opponents do while a step is showing. Scripted steps start IDLE.
+export type ScriptedAI =
+  | { type: 'IDLE' }
+  | { type: 'ORDERS', orders: AIMove[], repeatSeconds?: number } // Sent as the step appears, then every repeatSeconds
+  | { type: 'FREE', difficulty: DifficultyLevel }; // The regular AI plays at this level
+
 export interface TutorialStep {
   id: number;
   text: string;
   targetNodeId?: string; // If set, highlights this node
-  requiredAction?: 'NEXT' | 'SELECT' | 'ATTACK' | 'CAPTURE' | 'STREAM' | 'WIN';
+  requiredAction?: 'NEXT' | 'SELECT' | 'ATTACK' | 'CAPTURE' | 'STREAM' | 'WIN'; // How the overlay prompts the player
+  triggerWhen?: ScriptCondition; // The step stays hidden until this holds; shown at once if absent
+  completeWhen: ScriptCondition; // Finishing the last step wins the scenario
+  lockOrders?: boolean; // Ignore player orders while this step is showing
+  ai?: ScriptedAI;
+  shiftCurrents?: boolean; // An ocean current sweeps through as the step appears
+}
+
+// An optional objective, checked the moment the scenario is won
+export interface ScenarioBonus {
+  text: string;
+  when: ScriptCondition;
+}
+
+export interface ScenarioScript {
+  id: string;
+  name: string;
+  description: string;
+  buildMap: (playerColor: PlayerColor) => { nodes: Node[], edges: Edge[], oceanCurrents?: boolean };
+  steps: TutorialStep[];
+  defeatWhen?: ScriptCondition; // Checked every tick, whichever step is current
+  bonuses?: ScenarioBonus[];
+}
+
+export interface ScenarioProgress {
+  stepIndex: number;
+  isStepShown: boolean; // triggerWhen has held since the step became current
+  shownAtTick: number;
+  inputs: ScriptInput[]; // Received while the current step was showing
+  seenEvents: GameEventType[]; // Likewise
+  outcome: 'VICTORY' | 'DEFEAT' | null;
+  startedAtTick: number;
+  ownedSince: Record<string, number>; // Tick each player node was taken, for NODE_HELD
+  bonusesMet: boolean[]; // Filled in on VICTORY, one per script bonus
+}
+
+// --- Campaign ---
+
+// A scenario with a handcrafted map, played in order. Winning earns one star and
+// each of the two bonuses another.
+export interface CampaignMission extends ScenarioScript {
+  briefing: string; // RichTypewriter markup, shown before the mission starts
+  map: MapDefinition; // Slot 0 is the player
+  bonuses: [ScenarioBonus, ScenarioBonus];
 }
\ No newline at end of file
@@ -0,0 +1,324 @@
+import { GameWorld, PlayerColor, DifficultyLevel, MatchReplay, GameEvent, ScenarioScript, ScenarioProgress } from '../types';
+import { advanceGameState, checkWinCondition, applyAttackCommand } from '../services/gamePhysics';
+import { createClock, consumeFrame, haltClock } from '../services/simulationClock';
+import { createReplay, createPlayback, stepPlayback, seekPlayback, ReplayPlayback } from '../services/replay';
+import { SAVE_VERSION } from '../services/saveGame';
+import { createDiffTracker, diffWorld, DiffTracker } from '../services/worldDiff';
+import { SimulationCommand, SimulationMessage } from '../services/simulationProtocol';
+import { createScenarioProgress, advanceScenario, recordScriptInput, isOrderLocked, scriptDirectives } from '../services/scenarioEngine';
+import { SCENARIOS } from '../data/scenarios';
+import { OCEAN_CURRENT_INTERVAL_MS } from '../constants';
+
+// --- Simulation Worker ---
+// Runs the fixed-step simulation, the AI and the win check off the main thread,
+// so neither rendering nor a slow AI turn can hold the other up.
+
+const PUMP_INTERVAL_MS = 16;
+
+interface MatchSession {
+  world: GameWorld;
+  seed: number;
+  playerColor: PlayerColor;
+  difficulty: DifficultyLevel;
+  isTutorial: boolean;
+  lastAITime: number;
+  nextEventTime: number;
+  replay: MatchReplay | null; // Recording in progress; tutorials aren't recorded
+  scenario: { script: ScenarioScript, progress: ScenarioProgress } | null;
+}
+
+let match: MatchSession | null = null;
+let playback: ReplayPlayback | null = null;
+const playbackControls = { isPlaying: false, speed: 1 };
+
+let clock = createClock();
+let tracker: DiffTracker | null = null;
+let isRunning = false;
+let gameSpeed = 1;
+let isPlayerAutoPilot = false;
+
+const post = (message: SimulationMessage) => self.postMessage(message);
+
+// --- Publishing ---
+
+const publishReset = (world: GameWorld, nextEventTime: number) => {
+  tracker = createDiffTracker(world);
+  post({ type: 'RESET', world, tick: clock.tick, nextEventTime });
+};
+
+const publishFrame = (world: GameWorld, steps: number, events: GameEvent[], nextEventTime: number) => {
+  if (!tracker) return;
+  post({ type: 'FRAME', diff: diffWorld(tracker, world, steps, events), tick: clock.tick, nextEventTime });
+};
+
+const publishScenarioProgress = (progress: ScenarioProgress) => {
+  post({ type: 'SCENARIO_PROGRESS', stepIndex: progress.stepIndex, isStepShown: progress.isStepShown });
+};
+
+const publishReplayStatus = () => {
+  if (!playback) return;
+  post({
+    type: 'REPLAY_STATUS',
+    status: {
+      tick: playback.current.tick,
+      endTick: playback.replay.endTick,
+      isPlaying: playbackControls.isPlaying,
+      speed: playbackControls.speed,
+      playerColor: playback.replay.playerColor
+    }
+  });
+};
+
+// --- Stepping ---
+
+const stepMatch = (session: MatchSession, steps: number) => {
+  // Events from every tick of this frame, so catch-up steps don't swallow impacts
+  const frameEvents: GameEvent[] = [];
+  let winner: PlayerColor | null = null;
+  let isGameOver = false;
+  const progressBefore = session.scenario?.progress;
+  const startTick = clock.tick;
+
+  for (let i = 0; i < steps; i++) {
+    const directives = session.scenario
+      ? scriptDirectives(session.scenario.script, session.scenario.progress, clock.tick)
+      : null;
+    const result = advanceGameState(session.world, {
+      tick: clock.tick,
+      lastAITime: session.lastAITime,
+      nextEventTime: session.nextEventTime,
+      playerColor: session.playerColor,
+      gameState: session.isTutorial ? 'TUTORIAL' : 'PLAYING',
+      difficulty: directives?.aiDifficulty ?? session.difficulty,
+      isPlayerAutoPilot,
+      tutorialStep: session.scenario?.progress.stepIndex ?? 0, // Lets scripted AI follow the script
+      isAIEnabled: directives?.isAIEnabled,
+      scriptedAIMoves: directives?.aiMoves,
+      scriptedOceanCurrent: directives?.shiftCurrents,
+      clock: () => performance.now()
+    });
+
+    session.world = result.world;
+    result.aiMoves.forEach(move => {
+      session.replay?.commands.push({ tick: clock.tick, actor: 'AI', ...move });
+    });
+    clock.tick++;
+    session.lastAITime = result.lastAITime;
+    session.nextEventTime = result.nextEventTime;
+    frameEvents.push(...result.world.latestEvents);
+
+    // A scripted match ends when its script says so
+    if (session.scenario) {
+      const { script } = session.scenario;
+      const progress = advanceScenario(script, session.scenario.progress, { world: session.world, playerColor: session.playerColor, tick: clock.tick });
+      session.scenario.progress = progress;
+      if (progress.outcome) {
+        isGameOver = true;
+        winner = progress.outcome === 'VICTORY' ? session.playerColor : null;
+        break;
+      }
+    } else {
+      const status = checkWinCondition(session.world, session.playerColor);
+      if (status.isGameOver) {
+        isGameOver = true;
+        winner = status.winner;
+        break;
+      }
+    }
+  }
+
+  // Only the ticks actually simulated, or the main thread moves payloads past where the match ended
+  publishFrame(session.world, clock.tick - startTick, frameEvents, session.nextEventTime);
+  const progress = session.scenario?.progress;
+  if (progress && progressBefore && (progress.stepIndex !== progressBefore.stepIndex || progress.isStepShown !== progressBefore.isStepShown)) {
+    publishScenarioProgress(progress);
+  }
+
+  if (isGameOver) {
+    const replay = session.replay;
+    if (replay) replay.endTick = clock.tick;
+    match = null;
+    isRunning = false;
+    post({ type: 'GAME_OVER', winner, replay, bonusesMet: session.scenario?.progress.bonusesMet ?? [] });
+  }
+};
+
+const stepReplay = (current: ReplayPlayback, steps: number) => {
+  const frameEvents: GameEvent[] = [];
+  const startTick = current.current.tick;
+  for (let i = 0; i < steps && current.current.tick < current.replay.endTick; i++) {
+    frameEvents.push(...stepPlayback(current).latestEvents);
+  }
+  clock.tick = current.current.tick;
+  playbackControls.isPlaying = current.current.tick < current.replay.endTick;
+  publishFrame(current.current.world, current.current.tick - startTick, frameEvents, current.current.nextEventTime);
+  publishReplayStatus();
+};
+
+const pump = () => {
+  const frameTime = performance.now();
+
+  if (playback) {
+    if (!playbackControls.isPlaying) {
+      haltClock(clock);
+      return;
+    }
+    const steps = consumeFrame(clock, frameTime, playbackControls.speed);
+    if (steps > 0) stepReplay(playback, steps);
+    return;
+  }
+
+  if (!match || !isRunning) {
+    haltClock(clock);
+    return;
+  }
+
+  // Speed scales the clock itself, so growth, spawning, travel, AI cadence
+  // and the ocean-current countdown all speed up together
+  const steps = consumeFrame(clock, frameTime, match.isTutorial ? 1 : gameSpeed);
+  if (steps > 0) stepMatch(match, steps);
+};
+
+// --- Commands ---
+
+const handleCommand = (command: SimulationCommand) => {
+  switch (command.type) {
+    case 'START_MATCH': {
+      const { setup } = command;
+      playback = null;
+      const script = setup.scenarioId ? SCENARIOS[setup.scenarioId] : undefined;
+      match = {
+        world: setup.world,
+        seed: setup.seed,
+        playerColor: setup.playerColor,
+        difficulty: setup.difficulty,
+        isTutorial: setup.isTutorial,
+        lastAITime: 0,
+        nextEventTime: OCEAN_CURRENT_INTERVAL_MS,
+        // Only free play is recorded: playback can't rerun a script's directives
+        replay: script ? null : createReplay(setup.seed, setup.playerColor, setup.difficulty, setup.world),
+        scenario: script
+          ? { script, progress: createScenarioProgress(script, { world: setup.world, playerColor: setup.playerColor, tick: 0 }) }
+          : null
+      };
+      clock = createClock();
+      isPlayerAutoPilot = false;
+      publishReset(match.world, match.nextEventTime);
+      if (match.scenario) publishScenarioProgress(match.scenario.progress);
+      break;
+    }
+
+    case 'LOAD_SAVE': {
+      const { save } = command;
+      playback = null;
+      match = {
+        world: save.world,
+        seed: save.seed,
+        playerColor: save.playerColor,
+        difficulty: save.difficulty,
+        isTutorial: false,
+        lastAITime: save.lastAITime,
+        nextEventTime: save.nextEventTime,
+        replay: save.replay,
+        scenario: null
+      };
+      clock = createClock(save.tick);
+      isPlayerAutoPilot = save.isPlayerAutoPilot;
+      publishReset(match.world, match.nextEventTime);
+      break;
+    }
+
+    case 'SET_RUNNING':
+      isRunning = command.running;
+      break;
+
+    case 'SET_OPTIONS':
+      if (command.speed !== undefined) gameSpeed = command.speed;
+      if (command.isPlayerAutoPilot !== undefined) isPlayerAutoPilot = command.isPlayerAutoPilot;
+      break;
+
+    case 'ATTACK': {
+      if (!match) return;
+      const { scenario } = match;
+      if (scenario && isOrderLocked(scenario.script, scenario.progress)) return;
+      const world = applyAttackCommand(match.world, command.command, match.playerColor, clock.tick);
+      if (world === match.world) return;
+      match.replay?.commands.push({ tick: clock.tick, actor: 'PLAYER', ...command.command });
+      match.world = world;
+      if (scenario) scenario.progress = recordScriptInput(scenario.progress, { type: 'ORDER', command: command.command });
+      break;
+    }
+
+    // Looked at on the next tick, like everything else the script waits for
+    case 'SCRIPT_INPUT':
+      if (!match?.scenario) return;
+      match.scenario.progress = recordScriptInput(match.scenario.progress, command.input);
+      break;
+
+    case 'REQUEST_SAVE':
+      // A save can't carry a script's progress
+      if (!match || match.scenario) return;
+      post({
+        type: 'SAVE',
+        save: {
+          version: SAVE_VERSION,
+          savedAt: Date.now(),
+          seed: match.seed,
+          world: match.world,
+          tick: clock.tick,
+          lastAITime: match.lastAITime,
+          nextEventTime: match.nextEventTime,
+          playerColor: match.playerColor,
+          difficulty: match.difficulty,
+          isPlayerAutoPilot,
+          replay: match.replay
+        }
+      });
+      break;
+
+    case 'START_REPLAY':
+      match = null;
+      playback = createPlayback(command.replay);
+      playbackControls.isPlaying = true;
+      playbackControls.speed = 1;
+      clock = createClock();
+      publishReset(playback.current.world, playback.current.nextEventTime);
+      publishReplayStatus();
+      break;
+
+    case 'TOGGLE_REPLAY_PLAYING':
+      if (!playback) return;
+      // Restart from the beginning when pressing play at the end
+      if (!playbackControls.isPlaying && playback.current.tick >= playback.replay.endTick) {
+        seekPlayback(playback, 0);
+        clock = createClock();
+        publishReset(playback.current.world, playback.current.nextEventTime);
+      }
+      playbackControls.isPlaying = !playbackControls.isPlaying;
+      publishReplayStatus();
+      break;
+
+    case 'SEEK_REPLAY':
+      if (!playback) return;
+      seekPlayback(playback, command.tick);
+      clock = createClock(playback.current.tick);
+      publishReset(playback.current.world, playback.current.nextEventTime);
+      publishReplayStatus();
+      break;
+
+    case 'SET_REPLAY_SPEED':
+      playbackControls.speed = command.speed;
+      publishReplayStatus();
+      break;
+
+    case 'STOP':
+      match = null;
+      playback = null;
+      isRunning = false;
+      tracker = null;
+      break;
+  }
+};
+
+self.onmessage = (e: MessageEvent<SimulationCommand>) => handleCommand(e.data);
+setInterval(pump, PUMP_INTERVAL_MS);